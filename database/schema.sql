@@ -33,6 +33,65 @@ CREATE TABLE IF NOT EXISTS unlinked_tracks (
     FOREIGN KEY (playlist_id) REFERENCES playlists(spotify_id)
 );
 
+-- Local track cache, filled by a paginated fetch of each playlist
+CREATE TABLE IF NOT EXISTS tracks (
+    uri TEXT PRIMARY KEY,
+    spotify_id TEXT,
+    name TEXT,
+    artist_name TEXT,               -- Primary artist
+    artists TEXT DEFAULT '[]',      -- JSON array of artist names
+    album_name TEXT,
+    duration_ms INTEGER DEFAULT 0,
+    isrc TEXT,
+    release_date TEXT
+);
+
+CREATE TABLE IF NOT EXISTS playlist_tracks (
+    playlist_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    track_uri TEXT,                 -- NULL when Spotify returned no track
+    added_at TEXT,
+    added_by TEXT,
+    is_unlinked BOOLEAN DEFAULT 0,
+    PRIMARY KEY (playlist_id, position)
+);
+
+-- Snapshot the cached playlist_tracks rows were fetched at
+CREATE TABLE IF NOT EXISTS playlist_track_cache (
+    playlist_id TEXT PRIMARY KEY,
+    snapshot_id TEXT NOT NULL,
+    cached_at INTEGER NOT NULL
+);
+
+-- Persistent queue of playlist operations
+CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,             -- 'merge', 'delete', 'sync', etc.
+    status TEXT NOT NULL,           -- 'queued', 'running', 'paused', 'failed', 'done'
+    params TEXT NOT NULL,           -- JSON object with operation arguments
+    checkpoint TEXT,                -- JSON object to resume from
+    result TEXT,                    -- JSON object with operation result
+    error TEXT,
+    attempts INTEGER DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+-- Smart playlist rules, each materialized into an owned Spotify playlist
+CREATE TABLE IF NOT EXISTS smart_playlists (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    rules TEXT NOT NULL,            -- JSON object with sources, conditions, sort and limit
+    spotify_id TEXT,                -- Materialized playlist, NULL until the first update
+    last_updated INTEGER,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
 CREATE INDEX IF NOT EXISTS idx_playlists_tags ON playlists(tags);
 CREATE INDEX IF NOT EXISTS idx_playlists_name ON playlists(name);
 CREATE INDEX IF NOT EXISTS idx_operation_history_timestamp ON operation_history(timestamp);
+CREATE INDEX IF NOT EXISTS idx_playlist_tracks_uri ON playlist_tracks(track_uri);
+CREATE INDEX IF NOT EXISTS idx_tracks_isrc ON tracks(isrc);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
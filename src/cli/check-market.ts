@@ -0,0 +1,109 @@
+/**
+ * Check which tracks of a playlist won't play in another market
+ *
+ * Lists the tracks that are playable in your market (the app's market
+ * setting, or your account's country) but unavailable in the given ones,
+ * e.g. to check a set before playing it abroad.
+ *
+ * Usage: npm run check-market -- (--playlist "Name" | --playlist-id ID | --tag TAG)
+ *        --market JP [--market DE ...]
+ */
+
+import { parseArgs } from 'node:util';
+import { MARKET_PATTERN } from '@shared/constants';
+import type { LocalPlaylist } from '@shared/types';
+import { checkMarketAvailability } from '@main/market-check';
+import { createCliContext, runCli } from './common';
+
+const USAGE = `Usage: npm run check-market -- [options]
+
+Options:
+  --playlist NAME     Check the playlist with this name
+  --playlist-id ID    Check the playlist with this Spotify ID
+  --tag TAG           Check every playlist with this tag
+  --market CODE       Two-letter country code to check against (repeatable)
+  --help              Show this message`;
+
+function selectPlaylists(
+  playlists: LocalPlaylist[],
+  filters: { playlist?: string; playlistId?: string; tag?: string }
+): LocalPlaylist[] {
+  if (filters.playlistId) {
+    return playlists.filter((playlist) => playlist.spotify_id === filters.playlistId);
+  }
+  if (filters.playlist) {
+    const name = filters.playlist.toLowerCase();
+    return playlists.filter((playlist) => playlist.name.toLowerCase() === name);
+  }
+  return playlists.filter((playlist) => playlist.tags.split(/\s+/).includes(filters.tag!));
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      playlist: { type: 'string' },
+      'playlist-id': { type: 'string' },
+      tag: { type: 'string' },
+      market: { type: 'string', multiple: true },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (!values.playlist && !values['playlist-id'] && !values.tag) {
+    throw new Error(`Pick playlists with --playlist, --playlist-id or --tag\n\n${USAGE}`);
+  }
+  const markets = (values.market || []).map((market) => market.toUpperCase());
+  if (markets.length === 0) {
+    throw new Error(`At least one --market is required\n\n${USAGE}`);
+  }
+  for (const market of markets) {
+    if (!MARKET_PATTERN.test(market)) {
+      throw new Error(`--market must be a two-letter country code, got "${market}"`);
+    }
+  }
+
+  const { database, trackCache } = await createCliContext();
+
+  try {
+    const playlists = selectPlaylists(database.getAllPlaylists(), {
+      playlist: values.playlist,
+      playlistId: values['playlist-id'],
+      tag: values.tag,
+    });
+
+    if (playlists.length === 0) {
+      console.log('No matching playlists (sync in the app to pick up new ones)');
+      return;
+    }
+
+    let unavailableCount = 0;
+    for (const playlist of playlists) {
+      for (const market of markets) {
+        const report = await checkMarketAvailability(trackCache, playlist.spotify_id, market);
+        unavailableCount += report.unavailable.length;
+
+        console.log(
+          `${playlist.name}: ${report.unavailable.length} of ${report.total} tracks ` +
+            `play in ${report.market} but not in ${market}` +
+            (report.unavailableInBoth > 0 ? ` (${report.unavailableInBoth} unavailable in both)` : '')
+        );
+        for (const track of report.unavailable) {
+          console.log(
+            `  #${track.position! + 1} ${track.name || track.uri} — ${track.artist_name || 'Unknown'}`
+          );
+        }
+      }
+    }
+
+    console.log(`Done: ${unavailableCount} unavailable tracks found`);
+  } finally {
+    database.close();
+  }
+}
+
+runCli(main);
@@ -0,0 +1,62 @@
+/**
+ * Shared setup for the standalone CLI utilities
+ *
+ * The CLI runs under plain Node, outside Electron, but works on the same
+ * database and stored tokens as the desktop app. Log in with the app once
+ * before using it.
+ */
+
+// Load environment variables from .env file
+import { config } from 'dotenv';
+config();
+
+import SpotifyWebApi from 'spotify-web-api-node';
+import { SpotifyAuth } from '@main/auth';
+import { PlaylistDatabase } from '@main/database';
+import { TrackCacheService } from '@main/track-cache';
+import { SpotifyRequestScheduler, createScheduledSpotifyApi } from '@main/request-scheduler';
+import { NodePlatform } from '@main/platform-node';
+import { SettingsStore, getDatabasePath } from '@main/settings';
+
+export interface CliContext {
+  spotifyApi: SpotifyWebApi;
+  database: PlaylistDatabase;
+  trackCache: TrackCacheService;
+}
+
+/**
+ * Open the app's database and authenticate with its stored tokens
+ */
+export async function createCliContext(): Promise<CliContext> {
+  const clientId = process.env.VITE_SPOTIFY_CLIENT_ID;
+  if (!clientId) {
+    throw new Error('VITE_SPOTIFY_CLIENT_ID not found in environment variables');
+  }
+
+  const platform = new NodePlatform();
+  const auth = new SpotifyAuth(clientId, platform);
+
+  // Refreshes the stored token if it expired
+  const accessToken = await auth.getAccessToken();
+  if (!accessToken) {
+    throw new Error('Not authenticated, log in with the desktop app first');
+  }
+
+  // Same database location and market as the app
+  const settings = new SettingsStore(platform);
+  const database = new PlaylistDatabase(getDatabasePath(platform, settings));
+  const spotifyApi = createScheduledSpotifyApi(auth.getSpotifyApi(), new SpotifyRequestScheduler());
+  const trackCache = new TrackCacheService(spotifyApi, database, () => settings.get('market'));
+
+  return { spotifyApi, database, trackCache };
+}
+
+/**
+ * Run a CLI command, printing errors and setting the exit code
+ */
+export function runCli(main: () => Promise<void>): void {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
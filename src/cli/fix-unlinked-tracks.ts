@@ -0,0 +1,255 @@
+/**
+ * Fix unlinked tracks in many playlists at once
+ *
+ * Runs broken track recovery over every playlist with unlinked tracks (or
+ * the ones picked by name, ID, tag or regex) and writes a single CSV report
+ * covering all of them.
+ *
+ * Usage: npm run fix-unlinked -- [--playlist "Name" | --playlist-id ID | --tag TAG | --match REGEX]
+ *        [--in-place] [--threshold 0.85] [--min-score 0.5] [--concurrency 2]
+ *        [--report path.csv] [--dry-run]
+ */
+
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'node:util';
+import { formatRecoveryReport } from '@shared/csv';
+import { DEFAULT_RECOVERY_MATCH_OPTIONS } from '@shared/recovery';
+import { isEditablePlaylist, isLikedSongs } from '@shared/liked-songs';
+import type { LocalPlaylist, PlannedReplacement } from '@shared/types';
+import { PlaylistSyncService } from '@main/playlist-sync';
+import { PlaylistOperations } from '@main/playlist-operations';
+import { createCliContext, runCli } from './common';
+
+const DEFAULT_CONCURRENCY = 2;
+
+const USAGE = `Usage: npm run fix-unlinked -- [options]
+
+Options:
+  --playlist NAME     Only the playlist with this name
+  --playlist-id ID    Only the playlist with this Spotify ID
+  --tag TAG           Only playlists with this tag
+  --match REGEX       Only playlists whose name matches (case-insensitive)
+  --in-place          Replace broken tracks where they are in playlists you own
+                      (others get a "<name> - Recovered" playlist)
+  --threshold SCORE   Matches scoring at least this (0-1) are used
+                      (default ${DEFAULT_RECOVERY_MATCH_OPTIONS.autoAcceptScore}); lower ones are only
+                      listed for review in the report
+  --min-score SCORE   Matches scoring less are ignored
+                      (default ${DEFAULT_RECOVERY_MATCH_OPTIONS.minScore})
+  --concurrency N     Playlists processed at the same time (default ${DEFAULT_CONCURRENCY})
+  --report PATH       Where to write the CSV report
+                      (default unlinked-report-YYYY-MM-DD.csv)
+  --dry-run           Search for replacements without changing any playlist
+  --help              Show this message
+
+Without a filter, every playlist with unlinked tracks is processed.`;
+
+interface PlaylistOutcome {
+  playlist: LocalPlaylist;
+  recovered: number;
+  review: number; // Borderline matches, listed in the report but not applied
+  failed: number;
+  replacements: PlannedReplacement[];
+  recoveredPlaylistId?: string;
+  error?: string;
+}
+
+/**
+ * Pick the playlists to process
+ * Playlists picked by name or ID are always processed, filtered ones only
+ * when the last sync found unlinked tracks in them
+ */
+function selectPlaylists(
+  playlists: LocalPlaylist[],
+  filters: { playlist?: string; playlistId?: string; tag?: string; match?: string }
+): LocalPlaylist[] {
+  const candidates = playlists.filter((playlist) => !isLikedSongs(playlist.spotify_id));
+
+  if (filters.playlistId) {
+    return candidates.filter((playlist) => playlist.spotify_id === filters.playlistId);
+  }
+  if (filters.playlist) {
+    const name = filters.playlist.toLowerCase();
+    return candidates.filter((playlist) => playlist.name.toLowerCase() === name);
+  }
+
+  const pattern = filters.match ? new RegExp(filters.match, 'i') : null;
+  return candidates.filter(
+    (playlist) =>
+      playlist.unlinked_count > 0 &&
+      (!filters.tag || playlist.tags.split(/\s+/).includes(filters.tag)) &&
+      (!pattern || pattern.test(playlist.name))
+  );
+}
+
+/**
+ * Run `worker` over all items with at most `concurrency` running at once
+ * Results keep the order of the items
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+  return results;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      playlist: { type: 'string' },
+      'playlist-id': { type: 'string' },
+      tag: { type: 'string' },
+      match: { type: 'string' },
+      'in-place': { type: 'boolean' },
+      threshold: { type: 'string' },
+      'min-score': { type: 'string' },
+      concurrency: { type: 'string' },
+      report: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const concurrency = values.concurrency ? Number(values.concurrency) : DEFAULT_CONCURRENCY;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error('--concurrency must be a positive whole number');
+  }
+  const match = {
+    autoAcceptScore: values.threshold
+      ? Number(values.threshold)
+      : DEFAULT_RECOVERY_MATCH_OPTIONS.autoAcceptScore,
+    minScore: values['min-score']
+      ? Number(values['min-score'])
+      : DEFAULT_RECOVERY_MATCH_OPTIONS.minScore,
+  };
+  for (const [flag, score] of [
+    ['threshold', match.autoAcceptScore],
+    ['min-score', match.minScore],
+  ] as const) {
+    if (Number.isNaN(score) || score < 0 || score > 1) {
+      throw new Error(`--${flag} must be a score between 0 and 1`);
+    }
+  }
+  if (match.minScore > match.autoAcceptScore) {
+    throw new Error('--min-score must not be above --threshold');
+  }
+  if (values.match) {
+    try {
+      new RegExp(values.match);
+    } catch {
+      throw new Error(`--match is not a valid regular expression: ${values.match}`);
+    }
+  }
+  const dryRun = !!values['dry-run'];
+  const reportPath = resolve(
+    values.report || `unlinked-report-${new Date().toISOString().split('T')[0]}.csv`
+  );
+
+  const { spotifyApi, database, trackCache } = await createCliContext();
+
+  try {
+    // Sync the playlist list, then the details of new and changed playlists,
+    // which is where unlinked counts are computed
+    const syncService = new PlaylistSyncService(spotifyApi, database, trackCache);
+    console.log('Syncing library...');
+    await syncService.syncAllPlaylists();
+    const details = await syncService.syncPlaylistDetailsBackground();
+    if (details.total > 0) {
+      console.log(
+        `Fetched details of ${details.synced} changed playlists` +
+          (details.failed > 0 ? ` (${details.failed} failed)` : '')
+      );
+    }
+
+    const playlists = selectPlaylists(database.getAllPlaylists(), {
+      playlist: values.playlist,
+      playlistId: values['playlist-id'],
+      tag: values.tag,
+      match: values.match,
+    });
+
+    if (playlists.length === 0) {
+      console.log('No playlists to fix');
+      return;
+    }
+
+    console.log(`Fixing ${playlists.length} playlists${dryRun ? ' (dry run)' : ''}...`);
+
+    const operations = new PlaylistOperations(spotifyApi, database, trackCache);
+    const outcomes = await mapWithConcurrency(playlists, concurrency, async (playlist) => {
+      const mode = values['in-place'] && isEditablePlaylist(playlist) ? 'in_place' : 'copy';
+      const result = await operations.fixBrokenTracks(playlist.spotify_id, { mode, match }, dryRun);
+      const replacements = result.replacements || [];
+      const review = replacements.filter((replacement) => replacement.needsReview).length;
+      const outcome: PlaylistOutcome = {
+        playlist,
+        recovered: result.recovered || 0,
+        review,
+        failed: (result.failed || 0) - review,
+        replacements,
+        recoveredPlaylistId: result.playlistId,
+        error: result.success ? undefined : result.error,
+      };
+
+      console.log(
+        `${playlist.name}: ${outcome.recovered} recovered, ${outcome.review} to review, ` +
+          `${outcome.failed} failed` +
+          (mode === 'copy' && outcome.recoveredPlaylistId
+            ? `, added to ${outcome.recoveredPlaylistId}`
+            : '') +
+          (outcome.error ? ` (${outcome.error})` : '')
+      );
+      return outcome;
+    });
+
+    const reported = outcomes.filter((outcome) => outcome.replacements.length > 0);
+    if (reported.length > 0) {
+      writeFileSync(
+        reportPath,
+        formatRecoveryReport(
+          reported.map((outcome) => ({
+            playlistName: outcome.playlist.name,
+            replacements: outcome.replacements,
+          }))
+        ),
+        'utf-8'
+      );
+      console.log(`Report written to ${reportPath}`);
+    }
+
+    const recovered = outcomes.reduce((sum, outcome) => sum + outcome.recovered, 0);
+    const review = outcomes.reduce((sum, outcome) => sum + outcome.review, 0);
+    const failed = outcomes.reduce((sum, outcome) => sum + outcome.failed, 0);
+    console.log(
+      `Done: ${recovered} recovered, ${review} to review, ${failed} failed ` +
+        `in ${outcomes.length} playlists`
+    );
+
+    // Errors other than "nothing recovered" mean a playlist wasn't processed
+    if (outcomes.some((outcome) => outcome.error && outcome.replacements.length === 0)) {
+      process.exitCode = 1;
+    }
+  } finally {
+    database.close();
+  }
+}
+
+runCli(main);
@@ -0,0 +1,218 @@
+/**
+ * Generate monthly Liked Songs playlists
+ *
+ * Groups Liked Songs by the month they were liked and keeps one owned
+ * playlist per month ("Likes 2026-03") in line with it. Existing playlists
+ * are updated with a diff, so running it again only adds newly liked tracks
+ * and drops unliked ones.
+ *
+ * Usage: npm run generate-monthly-likes -- [--month YYYY-MM | --auto | --from YYYY-MM --to YYYY-MM]
+ *        [--name "Likes {month}"] [--dry-run]
+ */
+
+import { parseArgs } from 'node:util';
+import { LIKED_SONGS } from '@shared/constants';
+import { isEditablePlaylist } from '@shared/liked-songs';
+import type { LocalPlaylist, PlaylistTrackItem } from '@shared/types';
+import { PlaylistSyncService } from '@main/playlist-sync';
+import { addTracksAt, applyPlaylistDiff, planPlaylistDiff } from '@main/playlist-diff';
+import { createCliContext, runCli } from './common';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const DEFAULT_NAME_TEMPLATE = 'Likes {month}';
+
+const USAGE = `Usage: npm run generate-monthly-likes -- [options]
+
+Options:
+  --month YYYY-MM   Only this month
+  --auto            Only the current month
+  --from YYYY-MM    First month to include
+  --to YYYY-MM      Last month to include
+  --name TEMPLATE   Playlist name; {month} (YYYY-MM), {year} and {month_name}
+                    are replaced (default "${DEFAULT_NAME_TEMPLATE}")
+  --dry-run         Show what would change without changing any playlist
+  --help            Show this message
+
+Without a month or range, every month with liked songs is generated.`;
+
+interface MonthRange {
+  from: string | null; // YYYY-MM, inclusive
+  to: string | null;
+}
+
+/**
+ * Work out the month range from the command line flags
+ */
+function parseMonthRange(values: {
+  month?: string;
+  auto?: boolean;
+  from?: string;
+  to?: string;
+}): MonthRange {
+  if ((values.month || values.auto) && (values.from || values.to)) {
+    throw new Error('--month and --auto cannot be combined with --from or --to');
+  }
+  if (values.month && values.auto) {
+    throw new Error('--month and --auto cannot be combined');
+  }
+
+  for (const [flag, value] of Object.entries({
+    month: values.month,
+    from: values.from,
+    to: values.to,
+  })) {
+    if (value !== undefined && !MONTH_PATTERN.test(value)) {
+      throw new Error(`--${flag} must be a month in YYYY-MM format`);
+    }
+  }
+
+  if (values.auto) {
+    const now = new Date();
+    const current = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+    return { from: current, to: current };
+  }
+  if (values.month) {
+    return { from: values.month, to: values.month };
+  }
+  if (values.from && values.to && values.from > values.to) {
+    throw new Error('--from must not be after --to');
+  }
+  return { from: values.from || null, to: values.to || null };
+}
+
+/**
+ * Fill in the name template for a month
+ */
+function formatPlaylistName(template: string, month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const monthName = new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleString('en-US', {
+    month: 'long',
+    timeZone: 'UTC',
+  });
+
+  return template
+    .replace(/\{month\}/g, month)
+    .replace(/\{year\}/g, String(year))
+    .replace(/\{month_name\}/g, monthName);
+}
+
+/**
+ * Group liked tracks by the month of added_at (UTC), oldest like first
+ * Unavailable tracks and local files are skipped since they can't be added
+ */
+function groupByMonth(items: PlaylistTrackItem[], range: MonthRange): Map<string, string[]> {
+  const playable = items
+    .filter(
+      (item) =>
+        item.track_uri?.startsWith('spotify:track:') && !item.is_unlinked && item.added_at
+    )
+    .sort((a, b) => a.added_at!.localeCompare(b.added_at!));
+
+  const months = new Map<string, string[]>();
+  for (const item of playable) {
+    const month = item.added_at!.slice(0, 7);
+    if ((range.from && month < range.from) || (range.to && month > range.to)) continue;
+
+    const uris = months.get(month) || [];
+    // A track is only listed once per playlist
+    if (!uris.includes(item.track_uri!)) uris.push(item.track_uri!);
+    months.set(month, uris);
+  }
+
+  return new Map([...months].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      month: { type: 'string' },
+      auto: { type: 'boolean' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      name: { type: 'string', default: DEFAULT_NAME_TEMPLATE },
+      'dry-run': { type: 'boolean' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const range = parseMonthRange(values);
+  const template = values.name!;
+  if (!template.includes('{month}') && !template.includes('{month_name}')) {
+    throw new Error('--name must include {month} or {month_name}');
+  }
+  const dryRun = !!values['dry-run'];
+
+  const { spotifyApi, database, trackCache } = await createCliContext();
+
+  try {
+    // Sync first so playlists created by earlier runs are found by name
+    console.log('Syncing library...');
+    await new PlaylistSyncService(spotifyApi, database, trackCache).syncAllPlaylists();
+
+    const likedSongs = database.getPlaylistById(LIKED_SONGS.ID);
+    const liked = await trackCache.getPlaylistTracks(LIKED_SONGS.ID, likedSongs?.snapshot_id);
+    const months = groupByMonth(liked, range);
+
+    if (months.size === 0) {
+      console.log('No liked songs in the selected months');
+      return;
+    }
+
+    const ownedByName = new Map<string, LocalPlaylist>();
+    for (const playlist of database.getAllPlaylists()) {
+      if (isEditablePlaylist(playlist) && !ownedByName.has(playlist.name)) {
+        ownedByName.set(playlist.name, playlist);
+      }
+    }
+
+    for (const [month, uris] of months) {
+      const name = formatPlaylistName(template, month);
+      const existing = ownedByName.get(name);
+
+      if (!existing) {
+        if (!dryRun) {
+          const response = await spotifyApi.createPlaylist(name, {
+            description: `Songs liked in ${month}`,
+            public: false,
+          });
+          await addTracksAt(spotifyApi, response.body.id, uris, 0);
+        }
+        console.log(`${name}: created with ${uris.length} tracks`);
+        continue;
+      }
+
+      const current = await trackCache.getPlaylistTracks(existing.spotify_id, existing.snapshot_id);
+
+      if (dryRun) {
+        const { additions, removals } = planPlaylistDiff(current, uris);
+        console.log(`${name}: ${uris.length} tracks (+${additions.length} -${removals.length})`);
+        continue;
+      }
+
+      const result = await applyPlaylistDiff(
+        spotifyApi,
+        existing.spotify_id,
+        current,
+        uris,
+        existing.snapshot_id
+      );
+      database.updateTrackCount(existing.spotify_id, uris.length);
+      console.log(
+        `${name}: ${uris.length} tracks (+${result.added} -${result.removed}, ${result.moved} moved)`
+      );
+    }
+
+    if (dryRun) {
+      console.log('Dry run, no playlists were changed');
+    }
+  } finally {
+    database.close();
+  }
+}
+
+runCli(main);
@@ -8,11 +8,10 @@
  */
 
 import SpotifyWebApi from 'spotify-web-api-node';
-import { shell } from 'electron';
 import { createServer, IncomingMessage, ServerResponse } from 'http';
-import Store from 'electron-store';
 import { SPOTIFY_SCOPES, SPOTIFY_REDIRECT_URI } from '@shared/constants';
 import { generateCodeVerifier, generateCodeChallenge } from './pkce';
+import { Platform, SecureStore } from './platform';
 
 interface TokenData {
   accessToken: string;
@@ -20,24 +19,25 @@ interface TokenData {
   expiresAt: number; // Unix timestamp in milliseconds
 }
 
-// Secure token storage
-const store = new Store<{ tokens: TokenData | null }>({
-  name: 'spotify-tokens',
-  encryptionKey: 'spotify-playlist-manager-encryption-key',
-});
-
 export class SpotifyAuth {
   private spotifyApi: SpotifyWebApi;
+  private store: SecureStore<{ tokens: TokenData | null }>;
   private codeVerifier: string | null = null;
   private callbackServer: ReturnType<typeof createServer> | null = null;
   private authCallback: ((code: string) => void) | null = null;
 
-  constructor(clientId: string) {
+  constructor(
+    clientId: string,
+    private platform: Platform
+  ) {
     this.spotifyApi = new SpotifyWebApi({
       clientId,
       redirectUri: SPOTIFY_REDIRECT_URI,
     });
 
+    // Secure token storage
+    this.store = platform.createSecureStore<{ tokens: TokenData | null }>('spotify-tokens');
+
     // Load stored tokens
     this.loadStoredTokens();
   }
@@ -46,7 +46,7 @@ export class SpotifyAuth {
    * Check if user is authenticated
    */
   isAuthenticated(): boolean {
-    const tokens = store.get('tokens');
+    const tokens = this.store.get('tokens');
     return tokens !== null && tokens !== undefined;
   }
 
@@ -54,7 +54,7 @@ export class SpotifyAuth {
    * Get current access token (refreshes if expired)
    */
   async getAccessToken(): Promise<string | null> {
-    const tokens = store.get('tokens');
+    const tokens = this.store.get('tokens');
 
     if (!tokens) {
       return null;
@@ -67,7 +67,7 @@ export class SpotifyAuth {
     if (now >= expiresAt - 5 * 60 * 1000) {
       // Token expired or about to expire, refresh it
       await this.refreshAccessToken();
-      const newTokens = store.get('tokens');
+      const newTokens = this.store.get('tokens');
       return newTokens?.accessToken || null;
     }
 
@@ -106,7 +106,7 @@ export class SpotifyAuth {
     const authUrl = `https://accounts.spotify.com/authorize?${params.toString()}`;
 
     // Open browser for user authorization
-    await shell.openExternal(authUrl);
+    await this.platform.openExternal(authUrl);
   }
 
   /**
@@ -265,7 +265,7 @@ export class SpotifyAuth {
    * Refresh access token using refresh token
    */
   private async refreshAccessToken(): Promise<void> {
-    const tokens = store.get('tokens');
+    const tokens = this.store.get('tokens');
 
     if (!tokens?.refreshToken) {
       throw new Error('No refresh token available');
@@ -297,7 +297,7 @@ export class SpotifyAuth {
   private saveTokens(accessToken: string, refreshToken: string, expiresIn: number): void {
     const expiresAt = Date.now() + expiresIn * 1000;
 
-    store.set('tokens', {
+    this.store.set('tokens', {
       accessToken,
       refreshToken,
       expiresAt,
@@ -308,7 +308,7 @@ export class SpotifyAuth {
    * Load stored tokens on initialization
    */
   private loadStoredTokens(): void {
-    const tokens = store.get('tokens');
+    const tokens = this.store.get('tokens');
 
     if (tokens) {
       this.spotifyApi.setAccessToken(tokens.accessToken);
@@ -320,7 +320,7 @@ export class SpotifyAuth {
    * Clear stored tokens (logout)
    */
   clearTokens(): void {
-    store.delete('tokens');
+    this.store.delete('tokens');
     this.spotifyApi.resetAccessToken();
     this.spotifyApi.resetRefreshToken();
   }
@@ -0,0 +1,122 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { SyncedPlaylist } from '@shared/types';
+import { PlaylistDatabase } from './database';
+
+const synced: SyncedPlaylist = {
+  spotify_id: 'playlist1',
+  name: 'Warmup',
+  owner: 'dj',
+  track_count: 12,
+  is_owner: true,
+  created_at: '2024-01-01T00:00:00Z',
+  modified_at: '2024-01-02T00:00:00Z',
+  last_synced: 1704153600000,
+  snapshot_id: 'snapshot1',
+};
+
+describe('PlaylistDatabase.upsertPlaylist', () => {
+  let database: PlaylistDatabase;
+
+  beforeEach(() => {
+    database = new PlaylistDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it('keeps tags and detail columns when a sync upserts without them', () => {
+    database.upsertPlaylist({ ...synced, duration_ms: 3600000, unlinked_count: 2 });
+    database.updateTags('playlist1', 'house techno');
+
+    database.upsertPlaylist({ ...synced, name: 'Warmup 2', snapshot_id: 'snapshot2' });
+
+    const playlist = database.getPlaylistById('playlist1');
+    expect(playlist).toMatchObject({
+      name: 'Warmup 2',
+      snapshot_id: 'snapshot2',
+      tags: 'house techno',
+      duration_ms: 3600000,
+      unlinked_count: 2,
+    });
+  });
+});
+
+describe('PlaylistDatabase.clearUnlinkedTracks', () => {
+  let database: PlaylistDatabase;
+
+  beforeEach(() => {
+    database = new PlaylistDatabase(':memory:');
+  });
+
+  afterEach(() => {
+    database.close();
+  });
+
+  it('lowers the unlinked count by the tracks cleared, keeping items without a URI', () => {
+    // Three unavailable items, one of them without a URI so it isn't recorded
+    database.upsertPlaylist({ ...synced, unlinked_count: 3 });
+    database.setUnlinkedTracks(
+      'playlist1',
+      ['spotify:track:a', 'spotify:track:b'].map((uri) => ({
+        playlist_id: 'playlist1',
+        track_uri: uri,
+        track_name: null,
+        artist_name: null,
+        detected_at: 1704153600000,
+      }))
+    );
+
+    database.clearUnlinkedTracks('playlist1', ['spotify:track:a']);
+    expect(database.getPlaylistById('playlist1')?.unlinked_count).toBe(2);
+
+    database.clearUnlinkedTracks('playlist1');
+    expect(database.getPlaylistById('playlist1')?.unlinked_count).toBe(1);
+    expect(database.getUnlinkedTracksForPlaylist('playlist1')).toEqual([]);
+  });
+});
+
+describe('PlaylistDatabase unlinked tracks migration', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'playlist-db-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('does not restore cleared unlinked tracks when the database is opened again', () => {
+    const dbPath = join(directory, 'test.db');
+    const database = new PlaylistDatabase(dbPath);
+    database.upsertPlaylist({ ...synced, unlinked_count: 1 });
+    database.replacePlaylistTracks(
+      'playlist1',
+      'snapshot1',
+      [
+        {
+          playlist_id: 'playlist1',
+          position: 0,
+          track_uri: 'spotify:track:a',
+          added_at: null,
+          added_by: null,
+          is_unlinked: true,
+        },
+      ],
+      []
+    );
+    database.clearUnlinkedTracks('playlist1');
+    database.close();
+
+    const reopened = new PlaylistDatabase(dbPath);
+    try {
+      expect(reopened.getUnlinkedTracksForPlaylist('playlist1')).toEqual([]);
+    } finally {
+      reopened.close();
+    }
+  });
+});
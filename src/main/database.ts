@@ -4,14 +4,26 @@
  * This module handles:
  * - Database initialization
  * - Playlist metadata CRUD operations
+ * - Track cache for playlist contents
+ * - Persistent job queue
  * - Operation history logging
  * - Unlinked track tracking
  */
 
 import Database from 'better-sqlite3';
-import { app } from 'electron';
-import { join } from 'path';
-import type { LocalPlaylist, OperationHistory, UnlinkedTrack } from '@shared/types';
+import type {
+  CachedTrack,
+  Job,
+  LibraryUnlinkedTrack,
+  LocalPlaylist,
+  OperationHistory,
+  OperationHistoryFilter,
+  PlaylistTrack,
+  PlaylistTrackItem,
+  SmartPlaylist,
+  SyncedPlaylist,
+  UnlinkedTrack,
+} from '@shared/types';
 
 // Database schema embedded directly to avoid path resolution issues
 const SCHEMA_SQL = `
@@ -51,17 +63,75 @@ CREATE TABLE IF NOT EXISTS unlinked_tracks (
     FOREIGN KEY (playlist_id) REFERENCES playlists(spotify_id)
 );
 
+-- Local track cache, filled by a paginated fetch of each playlist
+CREATE TABLE IF NOT EXISTS tracks (
+    uri TEXT PRIMARY KEY,
+    spotify_id TEXT,
+    name TEXT,
+    artist_name TEXT,               -- Primary artist
+    artists TEXT DEFAULT '[]',      -- JSON array of artist names
+    album_name TEXT,
+    duration_ms INTEGER DEFAULT 0,
+    isrc TEXT,
+    release_date TEXT
+);
+
+CREATE TABLE IF NOT EXISTS playlist_tracks (
+    playlist_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    track_uri TEXT,                 -- NULL when Spotify returned no track
+    added_at TEXT,
+    added_by TEXT,
+    is_unlinked BOOLEAN DEFAULT 0,
+    PRIMARY KEY (playlist_id, position)
+);
+
+-- Snapshot the cached playlist_tracks rows were fetched at
+CREATE TABLE IF NOT EXISTS playlist_track_cache (
+    playlist_id TEXT PRIMARY KEY,
+    snapshot_id TEXT NOT NULL,
+    cached_at INTEGER NOT NULL
+);
+
+-- Persistent queue of playlist operations
+CREATE TABLE IF NOT EXISTS jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    type TEXT NOT NULL,             -- 'merge', 'delete', 'sync', etc.
+    status TEXT NOT NULL,           -- 'queued', 'running', 'paused', 'failed', 'done'
+    params TEXT NOT NULL,           -- JSON object with operation arguments
+    checkpoint TEXT,                -- JSON object to resume from
+    result TEXT,                    -- JSON object with operation result
+    error TEXT,
+    attempts INTEGER DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
+-- Smart playlist rules, each materialized into an owned Spotify playlist
+CREATE TABLE IF NOT EXISTS smart_playlists (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    rules TEXT NOT NULL,            -- JSON object with sources, conditions, sort and limit
+    spotify_id TEXT,                -- Materialized playlist, NULL until the first update
+    last_updated INTEGER,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+
 CREATE INDEX IF NOT EXISTS idx_playlists_tags ON playlists(tags);
 CREATE INDEX IF NOT EXISTS idx_playlists_name ON playlists(name);
 CREATE INDEX IF NOT EXISTS idx_operation_history_timestamp ON operation_history(timestamp);
+CREATE INDEX IF NOT EXISTS idx_playlist_tracks_uri ON playlist_tracks(track_uri);
+CREATE INDEX IF NOT EXISTS idx_tracks_isrc ON tracks(isrc);
+CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
 `;
 
 export class PlaylistDatabase {
   private db: Database.Database;
 
-  constructor(dbPath?: string) {
-    const defaultPath = join(app.getPath('userData'), 'spotify-playlists.db');
-    this.db = new Database(dbPath || defaultPath);
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
     this.initialize();
   }
 
@@ -77,34 +147,72 @@ export class PlaylistDatabase {
       // Column already exists, ignore
     }
 
+    // Migration: Record unlinked tracks of playlists cached before they were tracked
+    // Runs once, tracks cleared later must not come back from stale cached items
+    if ((this.db.pragma('user_version', { simple: true }) as number) < 1) {
+      this.db.transaction(() => {
+        this.db.exec(`
+          INSERT INTO unlinked_tracks (playlist_id, track_uri, track_name, artist_name, detected_at)
+          SELECT pt.playlist_id, pt.track_uri, t.name, t.artist_name, c.cached_at
+          FROM playlist_tracks pt
+          JOIN playlist_track_cache c ON c.playlist_id = pt.playlist_id
+          LEFT JOIN tracks t ON t.uri = pt.track_uri
+          WHERE pt.is_unlinked = 1 AND pt.track_uri IS NOT NULL
+            AND NOT EXISTS (SELECT 1 FROM unlinked_tracks)
+        `);
+        this.db.pragma('user_version = 1');
+      })();
+    }
+
     // Enable WAL mode for better concurrency
     this.db.pragma('journal_mode = WAL');
   }
 
   // Playlist operations
-  upsertPlaylist(playlist: LocalPlaylist): void {
+
+  /**
+   * Insert or merge a synced playlist
+   * Remote-owned columns are updated, local-owned columns (tags) are kept,
+   * and detail columns (including the estimated creation date) keep their
+   * cached value unless new ones are provided
+   */
+  upsertPlaylist(playlist: SyncedPlaylist): void {
     const stmt = this.db.prepare(`
-      INSERT OR REPLACE INTO playlists (
+      INSERT INTO playlists (
         spotify_id, name, owner, track_count, duration_ms, followers,
-        is_owner, created_at, modified_at, tags, last_synced, snapshot_id, unlinked_count
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        is_owner, created_at, modified_at, last_synced, snapshot_id, unlinked_count
+      ) VALUES (
+        @spotify_id, @name, @owner, @track_count, COALESCE(@duration_ms, 0), COALESCE(@followers, 0),
+        @is_owner, @created_at, @modified_at, @last_synced, @snapshot_id, COALESCE(@unlinked_count, 0)
+      )
+      ON CONFLICT(spotify_id) DO UPDATE SET
+        name = excluded.name,
+        owner = excluded.owner,
+        track_count = excluded.track_count,
+        is_owner = excluded.is_owner,
+        created_at = COALESCE(NULLIF(excluded.created_at, ''), playlists.created_at),
+        modified_at = excluded.modified_at,
+        last_synced = excluded.last_synced,
+        snapshot_id = excluded.snapshot_id,
+        duration_ms = COALESCE(@duration_ms, playlists.duration_ms),
+        followers = COALESCE(@followers, playlists.followers),
+        unlinked_count = COALESCE(@unlinked_count, playlists.unlinked_count)
     `);
 
-    stmt.run(
-      playlist.spotify_id,
-      playlist.name,
-      playlist.owner,
-      playlist.track_count,
-      playlist.duration_ms,
-      playlist.followers,
-      playlist.is_owner ? 1 : 0,
-      playlist.created_at,
-      playlist.modified_at,
-      playlist.tags,
-      playlist.last_synced,
-      playlist.snapshot_id,
-      playlist.unlinked_count || 0
-    );
+    stmt.run({
+      spotify_id: playlist.spotify_id,
+      name: playlist.name,
+      owner: playlist.owner,
+      track_count: playlist.track_count,
+      duration_ms: playlist.duration_ms ?? null,
+      followers: playlist.followers ?? null,
+      is_owner: playlist.is_owner ? 1 : 0,
+      created_at: playlist.created_at,
+      modified_at: playlist.modified_at,
+      last_synced: playlist.last_synced,
+      snapshot_id: playlist.snapshot_id,
+      unlinked_count: playlist.unlinked_count ?? null,
+    });
   }
 
   getAllPlaylists(): LocalPlaylist[] {
@@ -120,6 +228,32 @@ export class PlaylistDatabase {
   deletePlaylist(id: string): void {
     const stmt = this.db.prepare('DELETE FROM playlists WHERE spotify_id = ?');
     stmt.run(id);
+    this.clearPlaylistTracks(id);
+    this.db.prepare('DELETE FROM unlinked_tracks WHERE playlist_id = ?').run(id);
+  }
+
+  /**
+   * Playlists whose cached tracks don't match their current snapshot_id
+   * (new or changed since the last detail fetch)
+   */
+  getPlaylistsNeedingDetails(): LocalPlaylist[] {
+    const stmt = this.db.prepare(`
+      SELECT p.* FROM playlists p
+      LEFT JOIN playlist_track_cache c ON c.playlist_id = p.spotify_id
+      WHERE c.snapshot_id IS NULL OR c.snapshot_id != p.snapshot_id
+      ORDER BY p.name
+    `);
+    return stmt.all() as LocalPlaylist[];
+  }
+
+  updateName(id: string, name: string): void {
+    const stmt = this.db.prepare('UPDATE playlists SET name = ? WHERE spotify_id = ?');
+    stmt.run(name, id);
+  }
+
+  updateTrackCount(id: string, trackCount: number): void {
+    const stmt = this.db.prepare('UPDATE playlists SET track_count = ? WHERE spotify_id = ?');
+    stmt.run(trackCount, id);
   }
 
   updateTags(id: string, tags: string): void {
@@ -127,6 +261,118 @@ export class PlaylistDatabase {
     stmt.run(tags, id);
   }
 
+  // Track cache
+  getCachedSnapshotId(playlistId: string): string | undefined {
+    const stmt = this.db.prepare(
+      'SELECT snapshot_id FROM playlist_track_cache WHERE playlist_id = ?'
+    );
+    const row = stmt.get(playlistId) as { snapshot_id: string } | undefined;
+    return row?.snapshot_id;
+  }
+
+  /**
+   * Mark every cached playlist as outdated, so the next read or detail sync
+   * fetches it again (e.g. after the market changed)
+   */
+  invalidateTrackCache(): void {
+    this.db.prepare('DELETE FROM playlist_track_cache').run();
+  }
+
+  /**
+   * Replace the cached contents of a playlist in a single transaction
+   */
+  replacePlaylistTracks(
+    playlistId: string,
+    snapshotId: string,
+    items: PlaylistTrack[],
+    tracks: CachedTrack[]
+  ): void {
+    const upsertTrack = this.db.prepare(`
+      INSERT OR REPLACE INTO tracks (
+        uri, spotify_id, name, artist_name, artists, album_name, duration_ms, isrc, release_date
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const deleteItems = this.db.prepare('DELETE FROM playlist_tracks WHERE playlist_id = ?');
+    const insertItem = this.db.prepare(`
+      INSERT INTO playlist_tracks (playlist_id, position, track_uri, added_at, added_by, is_unlinked)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const upsertCache = this.db.prepare(`
+      INSERT OR REPLACE INTO playlist_track_cache (playlist_id, snapshot_id, cached_at)
+      VALUES (?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const track of tracks) {
+        upsertTrack.run(
+          track.uri,
+          track.spotify_id,
+          track.name,
+          track.artist_name,
+          track.artists,
+          track.album_name,
+          track.duration_ms,
+          track.isrc,
+          track.release_date
+        );
+      }
+
+      deleteItems.run(playlistId);
+      for (const item of items) {
+        insertItem.run(
+          playlistId,
+          item.position,
+          item.track_uri,
+          item.added_at,
+          item.added_by,
+          item.is_unlinked ? 1 : 0
+        );
+      }
+
+      upsertCache.run(playlistId, snapshotId, Date.now());
+    })();
+  }
+
+  getPlaylistTracks(playlistId: string): PlaylistTrackItem[] {
+    const stmt = this.db.prepare(`
+      SELECT pt.playlist_id, pt.position, pt.track_uri, pt.added_at, pt.added_by, pt.is_unlinked,
+             t.spotify_id, t.name, t.artist_name, COALESCE(t.artists, '[]') AS artists,
+             t.album_name, COALESCE(t.duration_ms, 0) AS duration_ms, t.isrc, t.release_date
+      FROM playlist_tracks pt
+      LEFT JOIN tracks t ON t.uri = pt.track_uri
+      WHERE pt.playlist_id = ?
+      ORDER BY pt.position
+    `);
+    return stmt.all(playlistId) as PlaylistTrackItem[];
+  }
+
+  /**
+   * Distinct (playlist, track) pairs of every cached playlist, ordered by playlist
+   */
+  getCachedTrackMemberships(): Array<{ playlist_id: string; track_uri: string }> {
+    const stmt = this.db.prepare(`
+      SELECT DISTINCT pt.playlist_id, pt.track_uri
+      FROM playlist_tracks pt
+      JOIN playlists p ON p.spotify_id = pt.playlist_id
+      WHERE pt.track_uri IS NOT NULL
+      ORDER BY pt.playlist_id
+    `);
+    return stmt.all() as Array<{ playlist_id: string; track_uri: string }>;
+  }
+
+  getTracksByUris(uris: string[]): CachedTrack[] {
+    if (uris.length === 0) return [];
+    const stmt = this.db.prepare(
+      `SELECT * FROM tracks WHERE uri IN (${uris.map(() => '?').join(', ')})`
+    );
+    return stmt.all(...uris) as CachedTrack[];
+  }
+
+  clearPlaylistTracks(playlistId: string): void {
+    this.db.prepare('DELETE FROM playlist_tracks WHERE playlist_id = ?').run(playlistId);
+    this.db.prepare('DELETE FROM playlist_track_cache WHERE playlist_id = ?').run(playlistId);
+  }
+
   // Operation history
   logOperation(operation: Omit<OperationHistory, 'id'>): void {
     const stmt = this.db.prepare(`
@@ -143,11 +389,134 @@ export class PlaylistDatabase {
     );
   }
 
-  getOperationHistory(limit = 100): OperationHistory[] {
+  getOperation(id: number): OperationHistory | undefined {
+    const stmt = this.db.prepare('SELECT * FROM operation_history WHERE id = ?');
+    return stmt.get(id) as OperationHistory | undefined;
+  }
+
+  getLastUndoableOperation(): OperationHistory | undefined {
+    const stmt = this.db.prepare(
+      'SELECT * FROM operation_history WHERE can_undo = 1 ORDER BY timestamp DESC, id DESC LIMIT 1'
+    );
+    return stmt.get() as OperationHistory | undefined;
+  }
+
+  markOperationUndone(id: number): void {
+    const stmt = this.db.prepare('UPDATE operation_history SET can_undo = 0 WHERE id = ?');
+    stmt.run(id);
+  }
+
+  getOperationHistory(filter: OperationHistoryFilter = {}): OperationHistory[] {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.operationTypes && filter.operationTypes.length > 0) {
+      conditions.push(`operation_type IN (${filter.operationTypes.map(() => '?').join(', ')})`);
+      params.push(...filter.operationTypes);
+    }
+
+    if (filter.from !== undefined) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.from);
+    }
+
+    if (filter.to !== undefined) {
+      conditions.push('timestamp <= ?');
+      params.push(filter.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const stmt = this.db.prepare(
+      `SELECT * FROM operation_history ${where} ORDER BY timestamp DESC, id DESC LIMIT ?`
+    );
+    return stmt.all(...params, filter.limit ?? -1) as OperationHistory[];
+  }
+
+  // Jobs
+  createJob(job: Pick<Job, 'type' | 'params'>): Job {
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      INSERT INTO jobs (type, status, params, created_at, updated_at)
+      VALUES (?, 'queued', ?, ?, ?)
+    `);
+    const info = stmt.run(job.type, job.params, now, now);
+    return this.getJob(Number(info.lastInsertRowid))!;
+  }
+
+  getJob(id: number): Job | undefined {
+    const stmt = this.db.prepare('SELECT * FROM jobs WHERE id = ?');
+    return stmt.get(id) as Job | undefined;
+  }
+
+  getJobs(limit = 100): Job[] {
+    const stmt = this.db.prepare('SELECT * FROM jobs ORDER BY id DESC LIMIT ?');
+    return stmt.all(limit) as Job[];
+  }
+
+  getJobsByStatus(status: Job['status']): Job[] {
+    const stmt = this.db.prepare('SELECT * FROM jobs WHERE status = ? ORDER BY id');
+    return stmt.all(status) as Job[];
+  }
+
+  updateJob(
+    id: number,
+    fields: Partial<Pick<Job, 'status' | 'checkpoint' | 'result' | 'error' | 'attempts'>>
+  ): void {
+    const columns = Object.keys(fields) as Array<keyof typeof fields>;
+    if (columns.length === 0) return;
+
+    const assignments = columns.map((column) => `${column} = @${column}`).join(', ');
     const stmt = this.db.prepare(
-      'SELECT * FROM operation_history ORDER BY timestamp DESC LIMIT ?'
+      `UPDATE jobs SET ${assignments}, updated_at = @updated_at WHERE id = @id`
     );
-    return stmt.all(limit) as OperationHistory[];
+    stmt.run({ ...fields, id, updated_at: Date.now() });
+  }
+
+  deleteJob(id: number): void {
+    const stmt = this.db.prepare('DELETE FROM jobs WHERE id = ?');
+    stmt.run(id);
+  }
+
+  // Smart playlists
+  createSmartPlaylist(smartPlaylist: Pick<SmartPlaylist, 'name' | 'rules'>): SmartPlaylist {
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      INSERT INTO smart_playlists (name, rules, created_at, updated_at)
+      VALUES (?, ?, ?, ?)
+    `);
+    const info = stmt.run(smartPlaylist.name, smartPlaylist.rules, now, now);
+    return this.getSmartPlaylist(Number(info.lastInsertRowid))!;
+  }
+
+  getSmartPlaylist(id: number): SmartPlaylist | undefined {
+    const stmt = this.db.prepare('SELECT * FROM smart_playlists WHERE id = ?');
+    return stmt.get(id) as SmartPlaylist | undefined;
+  }
+
+  getSmartPlaylists(): SmartPlaylist[] {
+    const stmt = this.db.prepare('SELECT * FROM smart_playlists ORDER BY name');
+    return stmt.all() as SmartPlaylist[];
+  }
+
+  updateSmartPlaylist(
+    id: number,
+    fields: Partial<
+      Pick<SmartPlaylist, 'name' | 'rules' | 'spotify_id' | 'last_updated' | 'last_error'>
+    >
+  ): void {
+    const columns = Object.keys(fields) as Array<keyof typeof fields>;
+    if (columns.length === 0) return;
+
+    const assignments = columns.map((column) => `${column} = @${column}`).join(', ');
+    const stmt = this.db.prepare(
+      `UPDATE smart_playlists SET ${assignments}, updated_at = @updated_at WHERE id = @id`
+    );
+    stmt.run({ ...fields, id, updated_at: Date.now() });
+  }
+
+  deleteSmartPlaylist(id: number): void {
+    const stmt = this.db.prepare('DELETE FROM smart_playlists WHERE id = ?');
+    stmt.run(id);
   }
 
   // Unlinked tracks
@@ -171,6 +540,78 @@ export class PlaylistDatabase {
     return stmt.all(playlistId) as UnlinkedTrack[];
   }
 
+  /**
+   * Replace the unlinked tracks recorded for a playlist with the ones found
+   * by the latest fetch
+   * Tracks that were already recorded keep their detected_at, tracks that
+   * are no longer unlinked are cleared
+   */
+  setUnlinkedTracks(playlistId: string, tracks: Array<Omit<UnlinkedTrack, 'id'>>): void {
+    const deleteTracks = this.db.prepare('DELETE FROM unlinked_tracks WHERE playlist_id = ?');
+
+    this.db.transaction(() => {
+      const detectedAt = new Map<string, number>();
+      for (const track of this.getUnlinkedTracksForPlaylist(playlistId)) {
+        detectedAt.set(
+          track.track_uri,
+          Math.min(track.detected_at, detectedAt.get(track.track_uri) ?? track.detected_at)
+        );
+      }
+
+      deleteTracks.run(playlistId);
+      for (const track of tracks) {
+        this.addUnlinkedTrack({
+          ...track,
+          detected_at: detectedAt.get(track.track_uri) ?? track.detected_at,
+        });
+      }
+    })();
+  }
+
+  /**
+   * Forget unlinked tracks of a playlist (all of them without `uris`) and
+   * lower its unlinked count by the number forgotten
+   * The count is not recomputed from the table, since it also includes
+   * unavailable items without a URI, which are never recorded there
+   */
+  clearUnlinkedTracks(playlistId: string, uris?: string[]): void {
+    this.db.transaction(() => {
+      let cleared = 0;
+      if (uris) {
+        const stmt = this.db.prepare(
+          'DELETE FROM unlinked_tracks WHERE playlist_id = ? AND track_uri = ?'
+        );
+        for (const uri of uris) {
+          cleared += stmt.run(playlistId, uri).changes;
+        }
+      } else {
+        cleared = this.db
+          .prepare('DELETE FROM unlinked_tracks WHERE playlist_id = ?')
+          .run(playlistId).changes;
+      }
+
+      this.db
+        .prepare(
+          `UPDATE playlists SET unlinked_count = MAX(unlinked_count - @cleared, 0)
+           WHERE spotify_id = @id`
+        )
+        .run({ id: playlistId, cleared });
+    })();
+  }
+
+  /**
+   * Unlinked tracks of every playlist in the library, with the playlist's name
+   */
+  getAllUnlinkedTracks(): LibraryUnlinkedTrack[] {
+    const stmt = this.db.prepare(`
+      SELECT u.*, p.name AS playlist_name
+      FROM unlinked_tracks u
+      JOIN playlists p ON p.spotify_id = u.playlist_id
+      ORDER BY p.name, u.artist_name, u.track_name
+    `);
+    return stmt.all() as LibraryUnlinkedTrack[];
+  }
+
   close(): void {
     this.db.close();
   }
@@ -5,6 +5,7 @@ config();
 import { app, BrowserWindow } from 'electron';
 import { join } from 'path';
 import { setupIpcHandlers, initializeServices, getDatabase } from './ipc-handlers';
+import { ElectronPlatform } from './platform-electron';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -56,7 +57,7 @@ function createWindow() {
 app.whenReady().then(() => {
   // Initialize services
   if (SPOTIFY_CLIENT_ID) {
-    initializeServices(SPOTIFY_CLIENT_ID);
+    initializeServices(new ElectronPlatform(), SPOTIFY_CLIENT_ID);
   }
 
   // Set up IPC handlers
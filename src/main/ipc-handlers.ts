@@ -5,37 +5,317 @@
  * between the main process and renderer process
  */
 
-import { ipcMain } from 'electron';
-import type { ApiResponse, LocalPlaylist } from '@shared/types';
+import { BrowserWindow, ipcMain } from 'electron';
+import { dirname, join } from 'path';
+import { existsSync, writeFileSync } from 'fs';
+import SpotifyWebApi from 'spotify-web-api-node';
+import type {
+  ApiResponse,
+  AppSettings,
+  BrokenTrackRecoveryOptions,
+  DryRunRequest,
+  DuplicateMatchOptions,
+  DuplicateRemovalOptions,
+  IntersectConfig,
+  Job,
+  JobType,
+  LibraryUnlinkedTrack,
+  MarketAvailabilityReport,
+  LocalPlaylist,
+  OperationHistory,
+  OperationHistoryFilter,
+  OperationPlan,
+  PlannedReplacement,
+  OverlapReport,
+  OverlapReportOptions,
+  RenameConfig,
+  RequestSchedulerState,
+  SmartPlaylist,
+  SmartPlaylistRules,
+  SmartPlaylistUpdateResult,
+  SubtractConfig,
+  SubtractPreview,
+  SyncResult,
+} from '@shared/types';
 import { SpotifyAuth } from './auth';
+import { Platform } from './platform';
 import { PlaylistDatabase } from './database';
 import { PlaylistSyncService } from './playlist-sync';
 import { PlaylistOperations } from './playlist-operations';
+import { TrackCacheService } from './track-cache';
 import { checkRateLimit, logRateLimit } from './rate-limit-handler';
-
+import { SpotifyRequestScheduler, createScheduledSpotifyApi } from './request-scheduler';
+import { OperationTracker } from './operation-progress';
+import { JobRunner } from './job-runner';
+import { buildOverlapReport } from './overlap-report';
+import { checkMarketAvailability } from './market-check';
+import { SettingsStore, getDatabasePath } from './settings';
+import { SmartPlaylistService } from './smart-playlists';
+import { formatOperationHistory } from '@shared/history';
+import { MARKET_PATTERN } from '@shared/constants';
+import { formatUnlinkedTracks, toCsv } from '@shared/csv';
+import { isAcceptedReplacement } from '@shared/recovery';
+
+let platform: Platform | null = null;
 let spotifyAuth: SpotifyAuth | null = null;
+let scheduler: SpotifyRequestScheduler | null = null;
+let spotifyApi: SpotifyWebApi | null = null;
 let database: PlaylistDatabase | null = null;
 let syncService: PlaylistSyncService | null = null;
 let operations: PlaylistOperations | null = null;
+let trackCache: TrackCacheService | null = null;
+let smartPlaylists: SmartPlaylistService | null = null;
+let jobRunner: JobRunner | null = null;
+let settings: SettingsStore | null = null;
+let databasePath: string | null = null;
+
+// Streams progress of long-running operations to the renderer
+const operationTracker = new OperationTracker((progress) => {
+  sendToAllWindows('operation:progress', progress);
+});
+
+/**
+ * Send an event to every renderer window
+ */
+function sendToAllWindows(channel: string, payload: unknown): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send(channel, payload);
+  }
+}
+
+/**
+ * Queue a job and wait until it settles
+ * Returns the operation's result (which may itself report failure);
+ * throws if the job was paused or failed without a result
+ */
+async function runQueuedJob<T>(type: JobType, params: object): Promise<T> {
+  if (!jobRunner) {
+    throw new Error('Job runner not initialized');
+  }
+
+  const job = await jobRunner.enqueueAndWait(type, params);
+
+  if (job.status === 'paused') {
+    throw new Error(`Job #${job.id} was paused, resume it from the job queue`);
+  }
+
+  if (job.result) {
+    return JSON.parse(job.result) as T;
+  }
+
+  throw new Error(job.error || `Job #${job.id} failed`);
+}
 
 /**
  * Initialize services with configuration
  */
-export function initializeServices(clientId: string, dbPath?: string): void {
-  spotifyAuth = new SpotifyAuth(clientId);
-  database = new PlaylistDatabase(dbPath);
+export function initializeServices(
+  servicePlatform: Platform,
+  clientId: string,
+  dbPath?: string
+): void {
+  platform = servicePlatform;
+  settings = new SettingsStore(platform);
+  // A client ID set in the settings takes precedence over the environment
+  spotifyAuth = new SpotifyAuth(settings.get('spotifyClientId') || clientId, platform);
+  databasePath = dbPath || getDatabasePath(platform, settings);
+  database = new PlaylistDatabase(databasePath);
+
+  // All services share one scheduled API so requests are rate limited globally
+  scheduler = new SpotifyRequestScheduler();
+  spotifyApi = createScheduledSpotifyApi(spotifyAuth.getSpotifyApi(), scheduler);
 
   // Initialize services
   if (spotifyAuth && database) {
-    syncService = new PlaylistSyncService(spotifyAuth.getSpotifyApi(), database);
-    operations = new PlaylistOperations(spotifyAuth.getSpotifyApi(), database);
+    const marketSettings = settings;
+    trackCache = new TrackCacheService(spotifyApi, database, () => marketSettings.get('market'));
+    syncService = new PlaylistSyncService(spotifyApi, database, trackCache);
+    operations = new PlaylistOperations(spotifyApi, database, trackCache);
+    smartPlaylists = new SmartPlaylistService(spotifyApi, database, trackCache);
+  }
+
+  // Long-running operations go through the persistent job queue
+  const auth = spotifyAuth;
+  jobRunner = new JobRunner(
+    database,
+    operationTracker,
+    () => sendToAllWindows('jobs:updated', null),
+    async () => {
+      // Ensure we have a valid access token (jobs may run long after being queued)
+      const accessToken = await auth.getAccessToken();
+      if (!accessToken) {
+        throw new Error('Not authenticated');
+      }
+    }
+  );
+  registerJobHandlers(jobRunner);
+}
+
+/**
+ * Write the tracks that were not recovered to a CSV on the desktop
+ */
+function exportFailedTracks(playlistId: string, replacements: PlannedReplacement[]): void {
+  const failed = replacements.filter((replacement) => !isAcceptedReplacement(replacement));
+  if (failed.length === 0 || !platform) return;
+
+  try {
+    const playlistName = database?.getPlaylistById(playlistId)?.name || playlistId;
+    const timestamp = new Date().toISOString().split('T')[0];
+    const fileName = `${playlistName.replace(/[^a-z0-9]/gi, '_')}_failed_tracks_${timestamp}.csv`;
+    const filePath = join(platform.getPath('desktop'), fileName);
+
+    const rows = failed.map((replacement) => [
+      replacement.original.name,
+      replacement.original.artist_name,
+      replacement.original.uri,
+      replacement.reason,
+    ]);
+    writeFileSync(
+      filePath,
+      toCsv(['Track Name', 'Artist Name', 'Original URI', 'Reason'], rows),
+      'utf-8'
+    );
+
+    console.log(`[Fix Broken Tracks] Exported ${failed.length} failed tracks to: ${filePath}`);
+  } catch (error) {
+    console.error('[Fix Broken Tracks] Failed to export CSV:', error);
+  }
+}
+
+/**
+ * Map each job type to the service call that runs it
+ */
+function registerJobHandlers(runner: JobRunner): void {
+  if (!syncService || !operations || !smartPlaylists) {
+    return;
+  }
+
+  const sync = syncService;
+  const ops = operations;
+  const smart = smartPlaylists;
+
+  runner.register('sync', () => sync.syncAllPlaylists());
+  runner.register('sync_details', (_params, context) =>
+    sync.syncPlaylistDetailsBackground(context)
+  );
+  runner.register('delete', (params: { playlistIds: string[] }, context) =>
+    ops.deletePlaylists(params.playlistIds, false, context)
+  );
+  runner.register(
+    'merge',
+    (
+      params: {
+        playlistIds: string[];
+        targetName: string;
+        removeDuplicates: boolean;
+        deleteSource: boolean;
+        duplicateMatch?: DuplicateMatchOptions;
+      },
+      context
+    ) =>
+      ops.mergePlaylists(
+        params.playlistIds,
+        params.targetName,
+        params.removeDuplicates,
+        params.deleteSource,
+        params.duplicateMatch,
+        false,
+        context
+      )
+  );
+  runner.register(
+    'fix_broken_links',
+    async (params: { playlistId: string; options?: BrokenTrackRecoveryOptions }, context) => {
+      const result = await ops.fixBrokenTracks(params.playlistId, params.options, false, context);
+      exportFailedTracks(params.playlistId, result.replacements || []);
+      return result;
+    }
+  );
+  runner.register(
+    'remove_duplicates',
+    (params: { playlistId: string; options?: DuplicateRemovalOptions }, context) =>
+      ops.removeDuplicates(params.playlistId, params.options, false, context)
+  );
+  runner.register('remove_unlinked', (params: { playlistId: string }, context) =>
+    ops.removeUnlinkedTracks(params.playlistId, context)
+  );
+  runner.register('like', (params: { playlistIds: string[] }, context) =>
+    ops.likeTracks(params.playlistIds, context)
+  );
+  runner.register('unlike', (params: { playlistId: string }, context) =>
+    ops.unlikeTracks(params.playlistId, context)
+  );
+  runner.register('smart_playlists', (params: { ids?: number[] }, context) =>
+    smart.updateSmartPlaylists(params.ids, context)
+  );
+}
+
+/**
+ * Queue a smart playlist update unless one covering everything is already waiting
+ * Runs in the sync lane, so it starts after any pending sync has finished
+ */
+function queueSmartPlaylistUpdate(ids?: number[]): void {
+  if (!jobRunner || !database || database.getSmartPlaylists().length === 0) {
+    return;
+  }
+
+  const pending = jobRunner.findPendingJob('smart_playlists');
+  if (pending && !JSON.parse(pending.params).ids) {
+    return;
   }
+
+  console.log('[Smart Playlists] Queueing update...');
+  jobRunner.enqueue('smart_playlists', ids ? { ids } : {});
 }
 
 /**
  * Set up all IPC handlers
  */
 export function setupIpcHandlers(): void {
+  // Push scheduler state (queue depth, backoff) to all windows
+  scheduler?.onStateChange((state) => {
+    sendToAllWindows('spotify:scheduler-state', state);
+  });
+
+  // Operation cancellation (takes effect between batches)
+  ipcMain.handle(
+    'operation:cancel',
+    async (_event, jobId: string): Promise<ApiResponse<{ cancelled: boolean }>> => {
+      const cancelled = operationTracker.cancel(jobId);
+      return { success: true, data: { cancelled } };
+    }
+  );
+
+  // Job queue handlers
+  ipcMain.handle('jobs:list', async (): Promise<ApiResponse<Job[]>> => {
+    if (!jobRunner) {
+      return { success: false, error: 'Job runner not initialized' };
+    }
+
+    return { success: true, data: jobRunner.getJobs() };
+  });
+
+  const jobActions = {
+    'jobs:pause': (runner: JobRunner, jobId: number) => runner.pause(jobId),
+    'jobs:resume': (runner: JobRunner, jobId: number) => runner.resume(jobId),
+    'jobs:retry': (runner: JobRunner, jobId: number) => runner.retry(jobId),
+    'jobs:remove': (runner: JobRunner, jobId: number) => runner.remove(jobId),
+  };
+
+  for (const [channel, action] of Object.entries(jobActions)) {
+    ipcMain.handle(channel, async (_event, jobId: number): Promise<ApiResponse<void>> => {
+      if (!jobRunner) {
+        return { success: false, error: 'Job runner not initialized' };
+      }
+
+      if (!action(jobRunner, jobId)) {
+        return { success: false, error: `Job #${jobId} can't be changed in its current state` };
+      }
+
+      return { success: true };
+    });
+  }
+
   // Authentication handlers
   ipcMain.handle('auth:start', async (): Promise<ApiResponse<void>> => {
     try {
@@ -104,7 +384,7 @@ export function setupIpcHandlers(): void {
   // Playlist sync handlers
   ipcMain.handle(
     'playlist:sync',
-    async (): Promise<ApiResponse<{ total: number; synced: number }>> => {
+    async (): Promise<ApiResponse<SyncResult>> => {
       try {
         if (!syncService) {
           throw new Error('Sync service not initialized');
@@ -120,24 +400,18 @@ export function setupIpcHandlers(): void {
           throw new Error('Not authenticated');
         }
 
-        const result = await syncService.syncAllPlaylists();
+        const result = await runQueuedJob<SyncResult>('sync', {});
 
-        // Start background detail sync after main sync completes
-        if (result.synced > 0) {
-          console.log('[Sync] Starting background detail fetch...');
-          // Run in background without awaiting
-          syncService
-            .syncPlaylistDetailsBackground()
-            .then((bgResult) => {
-              console.log(
-                `[Sync] Background detail fetch complete: ${bgResult.synced}/${bgResult.total} playlists`
-              );
-            })
-            .catch((error) => {
-              console.error('[Sync] Background detail fetch error:', error);
-            });
+        // Queue background detail sync after main sync completes
+        // (only new/changed playlists, plus any that failed previously, are fetched)
+        if (jobRunner && !jobRunner.findPendingJob('sync_details')) {
+          console.log('[Sync] Queueing background detail fetch...');
+          jobRunner.enqueue('sync_details', {});
         }
 
+        // Smart playlists are re-computed from the freshly synced sources
+        queueSmartPlaylistUpdate();
+
         return { success: true, data: result };
       } catch (error) {
         console.error('Playlist sync error:', error);
@@ -181,7 +455,10 @@ export function setupIpcHandlers(): void {
           throw new Error('Not authenticated');
         }
 
-        const result = await syncService.syncPlaylistDetailsBackground();
+        const result = await runQueuedJob<{ total: number; synced: number; failed: number }>(
+          'sync_details',
+          {}
+        );
 
         return { success: true, data: result };
       } catch (error) {
@@ -206,9 +483,20 @@ export function setupIpcHandlers(): void {
   );
 
   // Spotify API handlers
+  ipcMain.handle(
+    'spotify:get-scheduler-state',
+    async (): Promise<ApiResponse<RequestSchedulerState>> => {
+      if (!scheduler) {
+        return { success: false, error: 'Scheduler not initialized' };
+      }
+
+      return { success: true, data: scheduler.getState() };
+    }
+  );
+
   ipcMain.handle('spotify:get-user-playlists', async (): Promise<ApiResponse<any>> => {
     try {
-      if (!spotifyAuth) {
+      if (!spotifyAuth || !spotifyApi) {
         throw new Error('Spotify auth not initialized');
       }
 
@@ -219,8 +507,7 @@ export function setupIpcHandlers(): void {
         throw new Error('Not authenticated');
       }
 
-      const api = spotifyAuth.getSpotifyApi();
-      const data = await api.getUserPlaylists();
+      const data = await spotifyApi.getUserPlaylists();
 
       return { success: true, data: data.body };
     } catch (error) {
@@ -283,7 +570,9 @@ export function setupIpcHandlers(): void {
           throw new Error('Not authenticated');
         }
 
-        const result = await operations.deletePlaylists(playlistIds);
+        const result = await runQueuedJob<
+          Awaited<ReturnType<PlaylistOperations['deletePlaylists']>>
+        >('delete', { playlistIds });
 
         if (!result.success) {
           return {
@@ -322,7 +611,7 @@ export function setupIpcHandlers(): void {
           throw new Error('Database not initialized');
         }
 
-        let updated = 0;
+        const changes: Array<{ id: string; old_tags: string; new_tags: string }> = [];
 
         for (const playlistId of playlistIds) {
           const playlist = database.getPlaylistById(playlistId);
@@ -339,12 +628,27 @@ export function setupIpcHandlers(): void {
           }
 
           database.updateTags(playlistId, newTags);
-          updated++;
+          changes.push({ id: playlistId, old_tags: playlist.tags, new_tags: newTags });
+        }
+
+        // Log operation to history
+        if (changes.length > 0) {
+          database.logOperation({
+            timestamp: Date.now(),
+            operation_type: 'tag',
+            playlists_affected: JSON.stringify(changes.map((c) => c.id)),
+            details: JSON.stringify({
+              tags,
+              append,
+              undo: { tags: changes },
+            }),
+            can_undo: true,
+          });
         }
 
         return {
           success: true,
-          data: { updated },
+          data: { updated: changes.length },
         };
       } catch (error) {
         console.error('Update tags error:', error);
@@ -356,6 +660,144 @@ export function setupIpcHandlers(): void {
     }
   );
 
+  // Dry-run handler: returns what an operation would do without doing it
+  ipcMain.handle(
+    'playlist:dry-run',
+    async (_event, request: DryRunRequest): Promise<ApiResponse<OperationPlan>> => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        let result: { success: boolean; plan?: OperationPlan; error?: string };
+        switch (request.operation) {
+          case 'delete':
+            result = await operations.deletePlaylists(request.playlistIds, true);
+            break;
+          case 'merge':
+            result = await operations.mergePlaylists(
+              request.playlistIds,
+              request.targetName,
+              request.removeDuplicates,
+              request.deleteSource,
+              request.duplicateMatch,
+              true
+            );
+            break;
+          case 'remove_duplicates':
+            result = await operations.removeDuplicates(request.playlistId, request.options, true);
+            break;
+          case 'fix_broken_links':
+            result = await operations.fixBrokenTracks(request.playlistId, request.options, true);
+            break;
+        }
+
+        if (!result.success || !result.plan) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return { success: true, data: result.plan };
+      } catch (error) {
+        console.error('Dry run error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to plan operation',
+        };
+      }
+    }
+  );
+
+  // Playlist bulk rename handler
+  ipcMain.handle(
+    'playlist:rename-bulk',
+    async (
+      _event,
+      playlistIds: string[],
+      config: RenameConfig
+    ): Promise<
+      ApiResponse<{
+        renamed: number;
+        skipped: number;
+        failed: string[];
+      }>
+    > => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await operations.renamePlaylists(playlistIds, config);
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return {
+          success: true,
+          data: {
+            renamed: result.renamed,
+            skipped: result.skipped,
+            failed: result.failed,
+          },
+        };
+      } catch (error) {
+        console.error('Bulk rename error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to rename playlists',
+        };
+      }
+    }
+  );
+
   // Playlist merge handler
   ipcMain.handle(
     'playlist:merge',
@@ -364,7 +806,8 @@ export function setupIpcHandlers(): void {
       playlistIds: string[],
       targetName: string,
       removeDuplicates: boolean,
-      deleteSource: boolean
+      deleteSource: boolean,
+      duplicateMatch?: DuplicateMatchOptions
     ): Promise<
       ApiResponse<{
         playlistId: string;
@@ -386,12 +829,9 @@ export function setupIpcHandlers(): void {
           throw new Error('Not authenticated');
         }
 
-        const result = await operations.mergePlaylists(
-          playlistIds,
-          targetName,
-          removeDuplicates,
-          deleteSource
-        );
+        const result = await runQueuedJob<
+          Awaited<ReturnType<PlaylistOperations['mergePlaylists']>>
+        >('merge', { playlistIds, targetName, removeDuplicates, deleteSource, duplicateMatch });
 
         if (!result.success) {
           return {
@@ -428,18 +868,71 @@ export function setupIpcHandlers(): void {
     }
   );
 
-  // Playlist fix broken tracks handler
+  // Playlist subtract preview handler
   ipcMain.handle(
-    'playlist:fix-broken-links',
+    'playlist:subtract-preview',
     async (
       _event,
-      playlistId: string
+      fromPlaylistId: string,
+      subtractPlaylistIds: string[]
+    ): Promise<ApiResponse<SubtractPreview>> => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await operations.previewSubtract(fromPlaylistId, subtractPlaylistIds);
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return { success: true, data: result.preview };
+      } catch (error) {
+        console.error('Subtract preview error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to preview subtract',
+        };
+      }
+    }
+  );
+
+  // Playlist subtract handler
+  ipcMain.handle(
+    'playlist:subtract',
+    async (
+      _event,
+      config: SubtractConfig
     ): Promise<
       ApiResponse<{
         playlistId: string;
-        total: number;
-        recovered: number;
-        failed: number;
+        trackCount: number;
+        removedCount: number;
       }>
     > => {
       try {
@@ -457,7 +950,7 @@ export function setupIpcHandlers(): void {
           throw new Error('Not authenticated');
         }
 
-        const result = await operations.fixBrokenTracks(playlistId);
+        const result = await operations.subtractPlaylists(config);
 
         if (!result.success) {
           return {
@@ -470,13 +963,12 @@ export function setupIpcHandlers(): void {
           success: true,
           data: {
             playlistId: result.playlistId!,
-            total: result.total!,
-            recovered: result.recovered!,
-            failed: result.failed!,
+            trackCount: result.trackCount!,
+            removedCount: result.removedCount!,
           },
         };
       } catch (error) {
-        console.error('Fix broken tracks error:', error);
+        console.error('Subtract playlists error:', error);
 
         // Check if this is a rate limit error
         const rateLimitInfo = checkRateLimit(error);
@@ -490,24 +982,22 @@ export function setupIpcHandlers(): void {
 
         return {
           success: false,
-          error: error instanceof Error ? error.message : 'Failed to fix broken tracks',
+          error: error instanceof Error ? error.message : 'Failed to subtract playlists',
         };
       }
     }
   );
 
-  // Playlist remove duplicates handler
+  // Playlist intersect handler
   ipcMain.handle(
-    'playlist:remove-duplicates',
+    'playlist:intersect',
     async (
       _event,
-      playlistId: string
+      config: IntersectConfig
     ): Promise<
       ApiResponse<{
         playlistId: string;
-        originalCount: number;
-        uniqueCount: number;
-        duplicatesRemoved: number;
+        trackCount: number;
       }>
     > => {
       try {
@@ -525,7 +1015,7 @@ export function setupIpcHandlers(): void {
           throw new Error('Not authenticated');
         }
 
-        const result = await operations.removeDuplicates(playlistId);
+        const result = await operations.intersectPlaylists(config);
 
         if (!result.success) {
           return {
@@ -538,13 +1028,11 @@ export function setupIpcHandlers(): void {
           success: true,
           data: {
             playlistId: result.playlistId!,
-            originalCount: result.originalCount!,
-            uniqueCount: result.uniqueCount!,
-            duplicatesRemoved: result.duplicatesRemoved!,
+            trackCount: result.trackCount!,
           },
         };
       } catch (error) {
-        console.error('Remove duplicates error:', error);
+        console.error('Intersect playlists error:', error);
 
         // Check if this is a rate limit error
         const rateLimitInfo = checkRateLimit(error);
@@ -558,7 +1046,927 @@ export function setupIpcHandlers(): void {
 
         return {
           success: false,
-          error: error instanceof Error ? error.message : 'Failed to remove duplicates',
+          error: error instanceof Error ? error.message : 'Failed to intersect playlists',
+        };
+      }
+    }
+  );
+
+  // Playlist fix broken tracks handler
+  ipcMain.handle(
+    'playlist:fix-broken-links',
+    async (
+      _event,
+      playlistId: string,
+      options: BrokenTrackRecoveryOptions = {}
+    ): Promise<
+      ApiResponse<{
+        playlistId: string;
+        total: number;
+        recovered: number;
+        failed: number;
+      }>
+    > => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await runQueuedJob<
+          Awaited<ReturnType<PlaylistOperations['fixBrokenTracks']>>
+        >('fix_broken_links', { playlistId, options });
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return {
+          success: true,
+          data: {
+            playlistId: result.playlistId!,
+            total: result.total!,
+            recovered: result.recovered!,
+            failed: result.failed!,
+          },
+        };
+      } catch (error) {
+        console.error('Fix broken tracks error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to fix broken tracks',
+        };
+      }
+    }
+  );
+
+  // Playlist remove duplicates handler
+  ipcMain.handle(
+    'playlist:remove-duplicates',
+    async (
+      _event,
+      playlistId: string,
+      options: DuplicateRemovalOptions = {}
+    ): Promise<
+      ApiResponse<{
+        playlistId: string;
+        originalCount: number;
+        uniqueCount: number;
+        duplicatesRemoved: number;
+      }>
+    > => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await runQueuedJob<
+          Awaited<ReturnType<PlaylistOperations['removeDuplicates']>>
+        >('remove_duplicates', { playlistId, options });
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return {
+          success: true,
+          data: {
+            playlistId: result.playlistId!,
+            originalCount: result.originalCount!,
+            uniqueCount: result.uniqueCount!,
+            duplicatesRemoved: result.duplicatesRemoved!,
+          },
+        };
+      } catch (error) {
+        console.error('Remove duplicates error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to remove duplicates',
+        };
+      }
+    }
+  );
+
+  // Library-wide overlap report (from the track cache)
+  ipcMain.handle(
+    'playlist:overlap-report',
+    async (_event, options?: OverlapReportOptions): Promise<ApiResponse<OverlapReport>> => {
+      try {
+        if (!database) {
+          throw new Error('Database not initialized');
+        }
+
+        return { success: true, data: buildOverlapReport(database, options) };
+      } catch (error) {
+        console.error('Overlap report error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to build overlap report',
+        };
+      }
+    }
+  );
+
+  // Settings handlers
+  ipcMain.handle(
+    'settings:get',
+    async (): Promise<ApiResponse<{ settings: AppSettings; databasePath: string }>> => {
+      try {
+        if (!settings || !databasePath) {
+          throw new Error('Settings not initialized');
+        }
+
+        return { success: true, data: { settings: settings.getAll(), databasePath } };
+      } catch (error) {
+        console.error('Get settings error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get settings',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'settings:update',
+    async (
+      _event,
+      changes: Partial<AppSettings>
+    ): Promise<ApiResponse<{ settings: AppSettings; restartRequired: boolean }>> => {
+      try {
+        if (!settings || !platform || !databasePath) {
+          throw new Error('Settings not initialized');
+        }
+
+        if (changes.databasePath && !existsSync(dirname(changes.databasePath))) {
+          throw new Error(`Folder ${dirname(changes.databasePath)} does not exist`);
+        }
+
+        const previousMarket = settings.get('market');
+        const updated = settings.update(changes);
+
+        // Cached playability is for the old market, fetch everything again
+        if (updated.market !== previousMarket && database) {
+          console.log('[Settings] Market changed, refreshing track cache');
+          database.invalidateTrackCache();
+          if (jobRunner && !jobRunner.findPendingJob('sync_details')) {
+            jobRunner.enqueue('sync_details', {});
+          }
+        }
+
+        // The database stays open where it is until the app restarts
+        const restartRequired = getDatabasePath(platform, settings) !== databasePath;
+
+        return { success: true, data: { settings: updated, restartRequired } };
+      } catch (error) {
+        console.error('Update settings error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update settings',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'settings:choose-database-path',
+    async (): Promise<ApiResponse<{ filePath: string | null }>> => {
+      try {
+        if (!platform || !databasePath) {
+          throw new Error('Settings not initialized');
+        }
+
+        const filePath = await platform.showSaveDialog({
+          title: 'Database location',
+          defaultPath: databasePath,
+          filters: [{ name: 'SQLite database', extensions: ['db'] }],
+        });
+
+        return { success: true, data: { filePath } };
+      } catch (error) {
+        console.error('Choose database path error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to choose database location',
+        };
+      }
+    }
+  );
+
+  // Market used for playability checks
+  ipcMain.handle(
+    'market:get',
+    async (): Promise<ApiResponse<{ market: string; setting: string | null }>> => {
+      try {
+        if (!trackCache || !settings) {
+          throw new Error('Track cache not initialized');
+        }
+
+        return {
+          success: true,
+          data: { market: await trackCache.getMarket(), setting: settings.get('market') },
+        };
+      } catch (error) {
+        console.error('Get market error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get market',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'playlist:check-market',
+    async (
+      _event,
+      playlistId: string,
+      targetMarket: string
+    ): Promise<ApiResponse<MarketAvailabilityReport>> => {
+      try {
+        if (!trackCache) {
+          throw new Error('Track cache not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        if (!MARKET_PATTERN.test(targetMarket)) {
+          throw new Error(`Invalid market "${targetMarket}", expected a two-letter country code`);
+        }
+
+        return {
+          success: true,
+          data: await checkMarketAvailability(trackCache, playlistId, targetMarket),
+        };
+      } catch (error) {
+        console.error('Check market error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to check market availability',
+        };
+      }
+    }
+  );
+
+  // Liked Songs handlers
+  ipcMain.handle(
+    'playlist:like-tracks',
+    async (
+      _event,
+      playlistIds: string[]
+    ): Promise<ApiResponse<{ liked: number; alreadyLiked: number }>> => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await runQueuedJob<Awaited<ReturnType<PlaylistOperations['likeTracks']>>>(
+          'like',
+          { playlistIds }
+        );
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return {
+          success: true,
+          data: { liked: result.liked!, alreadyLiked: result.alreadyLiked! },
+        };
+      } catch (error) {
+        console.error('Like tracks error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to like tracks',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'playlist:unlike-tracks',
+    async (_event, playlistId: string): Promise<ApiResponse<{ unliked: number }>> => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await runQueuedJob<
+          Awaited<ReturnType<PlaylistOperations['unlikeTracks']>>
+        >('unlike', { playlistId });
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return { success: true, data: { unliked: result.unliked! } };
+      } catch (error) {
+        console.error('Unlike tracks error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to unlike tracks',
+        };
+      }
+    }
+  );
+
+  // Unlinked tracks handlers
+  ipcMain.handle(
+    'unlinked:list',
+    async (): Promise<ApiResponse<LibraryUnlinkedTrack[]>> => {
+      try {
+        if (!database) {
+          throw new Error('Database not initialized');
+        }
+
+        return { success: true, data: database.getAllUnlinkedTracks() };
+      } catch (error) {
+        console.error('List unlinked tracks error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to list unlinked tracks',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'unlinked:export',
+    async (): Promise<ApiResponse<{ filePath: string | null; count: number }>> => {
+      try {
+        if (!database || !platform) {
+          throw new Error('Database not initialized');
+        }
+
+        const date = new Date().toISOString().split('T')[0];
+        const filePath = await platform.showSaveDialog({
+          title: 'Export unlinked tracks',
+          defaultPath: join(platform.getPath('documents'), `unlinked-tracks-${date}.csv`),
+          filters: [{ name: 'CSV', extensions: ['csv'] }],
+        });
+
+        if (!filePath) {
+          return { success: true, data: { filePath: null, count: 0 } };
+        }
+
+        const tracks = database.getAllUnlinkedTracks();
+        writeFileSync(filePath, formatUnlinkedTracks(tracks), 'utf-8');
+        console.log(`[Unlinked] Exported ${tracks.length} tracks to: ${filePath}`);
+
+        return { success: true, data: { filePath, count: tracks.length } };
+      } catch (error) {
+        console.error('Export unlinked tracks error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to export unlinked tracks',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'playlist:remove-unlinked',
+    async (_event, playlistId: string): Promise<ApiResponse<{ removed: number }>> => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await runQueuedJob<
+          Awaited<ReturnType<PlaylistOperations['removeUnlinkedTracks']>>
+        >('remove_unlinked', { playlistId });
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return { success: true, data: { removed: result.removed! } };
+      } catch (error) {
+        console.error('Remove unlinked tracks error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to remove unlinked tracks',
+        };
+      }
+    }
+  );
+
+  // Export the tracks of a playlist (or Liked Songs) to CSV
+  ipcMain.handle(
+    'playlist:export-csv',
+    async (
+      _event,
+      playlistId: string
+    ): Promise<ApiResponse<{ filePath: string | null; count: number }>> => {
+      try {
+        if (!operations || !database || !platform) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token (stale track caches are re-fetched)
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const name = database.getPlaylistById(playlistId)?.name ?? playlistId;
+        const filePath = await platform.showSaveDialog({
+          title: `Export "${name}"`,
+          defaultPath: join(
+            platform.getPath('documents'),
+            `${name.replace(/[^a-z0-9]/gi, '_')}.csv`
+          ),
+          filters: [{ name: 'CSV', extensions: ['csv'] }],
+        });
+
+        if (!filePath) {
+          return { success: true, data: { filePath: null, count: 0 } };
+        }
+
+        const { csv, trackCount } = await operations.exportTracksCsv(playlistId);
+        writeFileSync(filePath, csv, 'utf-8');
+        console.log(`[Export] Exported ${trackCount} tracks of "${name}" to: ${filePath}`);
+
+        return { success: true, data: { filePath, count: trackCount } };
+      } catch (error) {
+        console.error('Export playlist error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to export playlist',
+        };
+      }
+    }
+  );
+
+  // Smart playlist handlers
+  ipcMain.handle('smart:list', async (): Promise<ApiResponse<SmartPlaylist[]>> => {
+    try {
+      if (!database) {
+        throw new Error('Database not initialized');
+      }
+
+      return { success: true, data: database.getSmartPlaylists() };
+    } catch (error) {
+      console.error('List smart playlists error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to list smart playlists',
+      };
+    }
+  });
+
+  ipcMain.handle(
+    'smart:save',
+    async (
+      _event,
+      input: { id?: number; name: string; rules: SmartPlaylistRules }
+    ): Promise<ApiResponse<SmartPlaylist>> => {
+      try {
+        if (!smartPlaylists) {
+          throw new Error('Smart playlist service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token (renaming talks to Spotify)
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const saved = await smartPlaylists.save(input);
+
+        // Materialize the new rules in the background
+        queueSmartPlaylistUpdate([saved.id]);
+
+        return { success: true, data: saved };
+      } catch (error) {
+        console.error('Save smart playlist error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to save smart playlist',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'smart:delete',
+    async (_event, id: number, deletePlaylist: boolean): Promise<ApiResponse<void>> => {
+      try {
+        if (!smartPlaylists) {
+          throw new Error('Smart playlist service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        await smartPlaylists.delete(id, deletePlaylist);
+
+        return { success: true };
+      } catch (error) {
+        console.error('Delete smart playlist error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to delete smart playlist',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'smart:update',
+    async (_event, ids?: number[]): Promise<ApiResponse<SmartPlaylistUpdateResult[]>> => {
+      try {
+        if (!smartPlaylists) {
+          throw new Error('Smart playlist service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const results = await runQueuedJob<SmartPlaylistUpdateResult[]>(
+          'smart_playlists',
+          ids ? { ids } : {}
+        );
+
+        return { success: true, data: results };
+      } catch (error) {
+        console.error('Update smart playlists error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to update smart playlists',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'smart:preview',
+    async (
+      _event,
+      rules: SmartPlaylistRules
+    ): Promise<ApiResponse<Awaited<ReturnType<SmartPlaylistService['preview']>>>> => {
+      try {
+        if (!smartPlaylists) {
+          throw new Error('Smart playlist service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token (stale sources are re-fetched)
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        return { success: true, data: await smartPlaylists.preview(rules) };
+      } catch (error) {
+        console.error('Preview smart playlist error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to preview smart playlist',
+        };
+      }
+    }
+  );
+
+  // Operation history handlers
+  ipcMain.handle(
+    'history:list',
+    async (_event, filter: OperationHistoryFilter): Promise<ApiResponse<OperationHistory[]>> => {
+      try {
+        if (!database) {
+          throw new Error('Database not initialized');
+        }
+
+        return { success: true, data: database.getOperationHistory(filter) };
+      } catch (error) {
+        console.error('Get operation history error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get operation history',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'history:export',
+    async (
+      _event,
+      filter: OperationHistoryFilter,
+      format: 'csv' | 'json'
+    ): Promise<ApiResponse<{ filePath: string | null; count: number }>> => {
+      try {
+        if (!database || !platform) {
+          throw new Error('Database not initialized');
+        }
+
+        const date = new Date().toISOString().split('T')[0];
+        const filePath = await platform.showSaveDialog({
+          title: 'Export operation history',
+          defaultPath: join(platform.getPath('documents'), `operation-history-${date}.${format}`),
+          filters: [{ name: format.toUpperCase(), extensions: [format] }],
+        });
+
+        if (!filePath) {
+          return { success: true, data: { filePath: null, count: 0 } };
+        }
+
+        const entries = database.getOperationHistory(filter);
+        writeFileSync(filePath, formatOperationHistory(entries, format), 'utf-8');
+        console.log(`[History] Exported ${entries.length} operations to: ${filePath}`);
+
+        return { success: true, data: { filePath, count: entries.length } };
+      } catch (error) {
+        console.error('Export operation history error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to export operation history',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'history:get-last-undoable',
+    async (): Promise<ApiResponse<OperationHistory | null>> => {
+      try {
+        if (!database) {
+          throw new Error('Database not initialized');
+        }
+
+        return { success: true, data: database.getLastUndoableOperation() ?? null };
+      } catch (error) {
+        console.error('Get undoable operation error:', error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to get operation history',
+        };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    'history:undo',
+    async (_event, operationId: number): Promise<ApiResponse<{ failed: string[] }>> => {
+      try {
+        if (!operations) {
+          throw new Error('Operations service not initialized');
+        }
+
+        if (!spotifyAuth) {
+          throw new Error('Spotify auth not initialized');
+        }
+
+        // Ensure we have a valid access token
+        const accessToken = await spotifyAuth.getAccessToken();
+        if (!accessToken) {
+          throw new Error('Not authenticated');
+        }
+
+        const result = await operations.undoOperation(operationId);
+
+        if (!result.success) {
+          return {
+            success: false,
+            error: result.error,
+          };
+        }
+
+        return { success: true, data: { failed: result.failed } };
+      } catch (error) {
+        console.error('Undo operation error:', error);
+
+        // Check if this is a rate limit error
+        const rateLimitInfo = checkRateLimit(error);
+        if (rateLimitInfo.isRateLimited) {
+          logRateLimit(rateLimitInfo);
+          return {
+            success: false,
+            error: rateLimitInfo.message || 'Spotify API rate limit exceeded',
+          };
+        }
+
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to undo operation',
         };
       }
     }
@@ -567,9 +1975,6 @@ export function setupIpcHandlers(): void {
   // TODO: Add more handlers as needed
   // - spotify:get-playlist-tracks
   // - spotify:create-playlist
-  // - spotify:rename-playlist
-  // - playlist:subtract
-  // - playlist:intersect
 }
 
 /**
@@ -0,0 +1,265 @@
+/**
+ * Persistent job queue
+ *
+ * Long-running operations are stored in the jobs table before they run,
+ * so a crash or quit leaves a record that can be resumed from the last
+ * checkpoint instead of a half-filled playlist.
+ * Jobs run one at a time per lane, so syncs don't wait behind edits.
+ */
+
+import type { Job, JobStatus, JobType } from '@shared/types';
+import { PlaylistDatabase } from './database';
+import { OperationContext, OperationTracker } from './operation-progress';
+import { checkRateLimit, logRateLimit } from './rate-limit-handler';
+
+export type JobHandler = (params: any, context: OperationContext) => Promise<unknown>;
+
+const JOB_LANES: Record<JobType, 'sync' | 'operations'> = {
+  sync: 'sync',
+  sync_details: 'sync',
+  smart_playlists: 'sync',
+  merge: 'operations',
+  delete: 'operations',
+  remove_duplicates: 'operations',
+  fix_broken_links: 'operations',
+  remove_unlinked: 'operations',
+  like: 'operations',
+  unlike: 'operations',
+};
+
+export class JobRunner {
+  private handlers = new Map<JobType, JobHandler>();
+  private running = new Map<number, OperationContext>();
+  private busyLanes = new Set<string>();
+  private pausing = new Set<number>();
+  private waiters = new Map<number, Array<(job: Job) => void>>();
+
+  constructor(
+    private database: PlaylistDatabase,
+    private tracker: OperationTracker,
+    private onChange: () => void,
+    private beforeRun?: () => Promise<void>
+  ) {
+    // Jobs left unfinished by the previous session wait for the user to resume them
+    for (const status of ['running', 'queued'] as const) {
+      for (const job of this.database.getJobsByStatus(status)) {
+        this.database.updateJob(job.id, { status: 'paused' });
+        console.log(`[Jobs] Job #${job.id} (${job.type}) was interrupted, paused`);
+      }
+    }
+  }
+
+  /**
+   * Register the function that runs jobs of a type
+   */
+  register(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue and start it as soon as its lane is free
+   */
+  enqueue(type: JobType, params: object): Job {
+    const job = this.database.createJob({ type, params: JSON.stringify(params) });
+    console.log(`[Jobs] Queued job #${job.id} (${type})`);
+
+    this.onChange();
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Add a job to the queue and wait until it is done, failed or paused
+   */
+  enqueueAndWait(type: JobType, params: object): Promise<Job> {
+    return this.waitForJob(this.enqueue(type, params).id);
+  }
+
+  /**
+   * Find a queued or running job of a type
+   */
+  findPendingJob(type: JobType): Job | undefined {
+    return [...this.database.getJobsByStatus('running'), ...this.database.getJobsByStatus('queued')]
+      .find((job) => job.type === type);
+  }
+
+  getJobs(): Job[] {
+    return this.database.getJobs();
+  }
+
+  /**
+   * Pause a job; a running job stops after its current batch
+   */
+  pause(jobId: number): boolean {
+    const job = this.database.getJob(jobId);
+    if (!job) {
+      return false;
+    }
+
+    if (job.status === 'queued') {
+      this.database.updateJob(jobId, { status: 'paused' });
+      this.onChange();
+      this.settle(jobId);
+      return true;
+    }
+
+    const context = this.running.get(jobId);
+    if (job.status === 'running' && context) {
+      this.pausing.add(jobId);
+      context.cancel();
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Queue a paused job again; it continues from its checkpoint
+   */
+  resume(jobId: number): boolean {
+    return this.requeue(jobId, 'paused');
+  }
+
+  /**
+   * Queue a failed job again; it continues from its checkpoint
+   */
+  retry(jobId: number): boolean {
+    return this.requeue(jobId, 'failed');
+  }
+
+  /**
+   * Remove a job that isn't queued or running
+   */
+  remove(jobId: number): boolean {
+    const job = this.database.getJob(jobId);
+    if (!job || job.status === 'queued' || job.status === 'running') {
+      return false;
+    }
+
+    this.database.deleteJob(jobId);
+    this.onChange();
+    return true;
+  }
+
+  private requeue(jobId: number, fromStatus: JobStatus): boolean {
+    const job = this.database.getJob(jobId);
+    if (!job || job.status !== fromStatus) {
+      return false;
+    }
+
+    this.database.updateJob(jobId, { status: 'queued', error: null });
+    this.onChange();
+    this.pump();
+    return true;
+  }
+
+  private waitForJob(jobId: number): Promise<Job> {
+    return new Promise((resolve) => {
+      const job = this.database.getJob(jobId);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+        resolve(job!);
+        return;
+      }
+
+      this.waiters.set(jobId, [...(this.waiters.get(jobId) || []), resolve]);
+    });
+  }
+
+  /**
+   * Start the oldest queued job of every idle lane
+   */
+  private pump(): void {
+    for (const job of this.database.getJobsByStatus('queued')) {
+      const lane = JOB_LANES[job.type];
+      if (this.busyLanes.has(lane)) continue;
+
+      this.busyLanes.add(lane);
+      this.runJob(job).finally(() => {
+        this.busyLanes.delete(lane);
+        this.pump();
+      });
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    this.database.updateJob(job.id, { status: 'running', attempts: job.attempts + 1 });
+    this.onChange();
+    console.log(`[Jobs] Running job #${job.id} (${job.type}), attempt ${job.attempts + 1}`);
+
+    let result: unknown;
+    let error: string | null = null;
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler registered for ${job.type} jobs`);
+      }
+
+      await this.beforeRun?.();
+
+      result = await this.tracker.run(
+        job.type,
+        (context) => {
+          this.running.set(job.id, context);
+          return handler(JSON.parse(job.params), context);
+        },
+        {
+          checkpoint: job.checkpoint ? JSON.parse(job.checkpoint) : null,
+          onCheckpoint: (checkpoint) => {
+            this.database.updateJob(job.id, { checkpoint: JSON.stringify(checkpoint) });
+          },
+        }
+      );
+
+      // Operations report most failures in their result instead of throwing
+      if (typeof result === 'object' && result !== null && (result as any).success === false) {
+        error = (result as any).error || 'Job failed';
+      }
+    } catch (err) {
+      const rateLimitInfo = checkRateLimit(err);
+      if (rateLimitInfo.isRateLimited) {
+        logRateLimit(rateLimitInfo);
+        error = rateLimitInfo.message || 'Spotify API rate limit exceeded';
+      } else {
+        error = err instanceof Error ? err.message : 'Job failed';
+      }
+    } finally {
+      this.running.delete(job.id);
+    }
+
+    const paused = this.pausing.delete(job.id);
+
+    if (error === null) {
+      // The checkpoint isn't needed once the job is done
+      this.database.updateJob(job.id, {
+        status: 'done',
+        result: JSON.stringify(result ?? null),
+        checkpoint: null,
+      });
+      console.log(`[Jobs] Job #${job.id} done`);
+    } else if (paused) {
+      this.database.updateJob(job.id, { status: 'paused' });
+      console.log(`[Jobs] Job #${job.id} paused`);
+    } else {
+      this.database.updateJob(job.id, {
+        status: 'failed',
+        result: result === undefined ? null : JSON.stringify(result),
+        error,
+      });
+      console.error(`[Jobs] Job #${job.id} failed:`, error);
+    }
+
+    this.onChange();
+    this.settle(job.id);
+  }
+
+  private settle(jobId: number): void {
+    const job = this.database.getJob(jobId);
+    const waiters = this.waiters.get(jobId) || [];
+    this.waiters.delete(jobId);
+
+    for (const resolve of waiters) {
+      resolve(job!);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Market availability check
+ *
+ * Compares the playability of a playlist's tracks in the user's market
+ * with another market, e.g. to check a set before playing it abroad
+ */
+
+import type { MarketAvailabilityReport } from '@shared/types';
+import { TrackCacheService } from './track-cache';
+
+/**
+ * Find the tracks of a playlist that play in the user's market but not in
+ * `targetMarket`
+ * The user's market comes from the track cache, the target market is
+ * fetched live
+ */
+export async function checkMarketAvailability(
+  trackCache: TrackCacheService,
+  playlistId: string,
+  targetMarket: string
+): Promise<MarketAvailabilityReport> {
+  const market = await trackCache.getMarket();
+  const items = await trackCache.getPlaylistTracks(playlistId);
+  const unlinkedInTarget = await trackCache.fetchUnlinkedInMarket(playlistId, targetMarket);
+
+  // Positions are compared, so both fetches have to see the same version
+  if (unlinkedInTarget.length !== items.length) {
+    throw new Error('The playlist changed during the check, please try again');
+  }
+
+  const unavailable = items
+    .filter((item) => !item.is_unlinked && unlinkedInTarget[item.position])
+    .map((item) => ({
+      uri: item.track_uri,
+      name: item.name,
+      artist_name: item.artist_name,
+      album_name: item.album_name,
+      duration_ms: item.duration_ms,
+      position: item.position,
+    }));
+
+  return {
+    playlistId,
+    market,
+    targetMarket,
+    total: items.length,
+    unavailable,
+    unavailableInBoth: items.filter((item) => item.is_unlinked && unlinkedInTarget[item.position])
+      .length,
+  };
+}
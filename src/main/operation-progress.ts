@@ -0,0 +1,144 @@
+/**
+ * Progress reporting and cancellation for long-running operations
+ *
+ * Each operation run gets an OperationContext that it uses to report
+ * progress, to check for cancellation between batches and to save
+ * checkpoints that a later run can resume from
+ */
+
+import { randomUUID } from 'crypto';
+import type { OperationProgress, OperationStatus } from '@shared/types';
+
+export class OperationCancelledError extends Error {
+  constructor() {
+    super('Operation cancelled');
+    this.name = 'OperationCancelledError';
+  }
+}
+
+export type OperationCheckpoint = Record<string, any>;
+
+export interface OperationRunOptions {
+  // Checkpoint saved by an earlier, interrupted run
+  checkpoint?: OperationCheckpoint | null;
+  onCheckpoint?: (checkpoint: OperationCheckpoint) => void;
+}
+
+export class OperationContext {
+  private isCancelled = false;
+  private lastProgress: OperationProgress;
+
+  constructor(
+    readonly jobId: string,
+    readonly operation: string,
+    private emit: (progress: OperationProgress) => void,
+    private checkpointData: OperationCheckpoint | null = null,
+    private onCheckpoint?: (checkpoint: OperationCheckpoint) => void
+  ) {
+    this.lastProgress = {
+      jobId,
+      operation,
+      status: 'running',
+      phase: 'Starting',
+      current: 0,
+      total: 0,
+    };
+  }
+
+  get cancelled(): boolean {
+    return this.isCancelled;
+  }
+
+  /**
+   * Checkpoint to resume from, or null for a fresh run
+   */
+  get checkpoint(): OperationCheckpoint | null {
+    return this.checkpointData;
+  }
+
+  /**
+   * Merge data into the checkpoint and persist it
+   */
+  saveCheckpoint(data: OperationCheckpoint): void {
+    this.checkpointData = { ...this.checkpointData, ...data };
+    this.onCheckpoint?.(this.checkpointData);
+  }
+
+  /**
+   * Report progress for the current phase
+   */
+  report(phase: string, current: number, total: number, playlistName?: string): void {
+    this.lastProgress = { ...this.lastProgress, phase, current, total, playlistName };
+    this.emit(this.lastProgress);
+  }
+
+  /**
+   * Throw if cancellation was requested; call between batches
+   */
+  throwIfCancelled(): void {
+    if (this.isCancelled) {
+      throw new OperationCancelledError();
+    }
+  }
+
+  cancel(): void {
+    this.isCancelled = true;
+  }
+
+  finish(status: OperationStatus): void {
+    this.lastProgress = { ...this.lastProgress, status };
+    this.emit(this.lastProgress);
+  }
+}
+
+export class OperationTracker {
+  private running = new Map<string, OperationContext>();
+
+  constructor(private emit: (progress: OperationProgress) => void) {}
+
+  /**
+   * Run an operation with a fresh context; the final status is reported
+   * from its outcome (results with `success: false` count as failed)
+   */
+  async run<T>(
+    operation: string,
+    fn: (context: OperationContext) => Promise<T>,
+    options: OperationRunOptions = {}
+  ): Promise<T> {
+    const context = new OperationContext(
+      randomUUID(),
+      operation,
+      this.emit,
+      options.checkpoint,
+      options.onCheckpoint
+    );
+    this.running.set(context.jobId, context);
+    context.report('Starting', 0, 0);
+
+    try {
+      const result = await fn(context);
+      const failed =
+        typeof result === 'object' && result !== null && (result as any).success === false;
+      context.finish(context.cancelled ? 'cancelled' : failed ? 'failed' : 'done');
+      return result;
+    } catch (error) {
+      context.finish(context.cancelled ? 'cancelled' : 'failed');
+      throw error;
+    } finally {
+      this.running.delete(context.jobId);
+    }
+  }
+
+  /**
+   * Request cancellation of a running operation
+   */
+  cancel(jobId: string): boolean {
+    const context = this.running.get(jobId);
+    if (!context) {
+      return false;
+    }
+
+    context.cancel();
+    return true;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Library-wide overlap report
+ *
+ * Scans the cached contents of every playlist for tracks that appear in many
+ * playlists, pairs of playlists with a high Jaccard overlap and playlists
+ * that are (nearly) contained in a bigger one
+ */
+
+import { PlaylistDatabase } from './database';
+import type {
+  OverlapReport,
+  OverlapReportOptions,
+  PlaylistPairOverlap,
+  PlaylistSubset,
+  TrackOverlap,
+} from '@shared/types';
+
+const DEFAULT_OPTIONS: Required<OverlapReportOptions> = {
+  minPlaylistsPerTrack: 3,
+  minJaccard: 0.5,
+  minSubsetCoverage: 0.9,
+  minSubsetSize: 5,
+  maxResults: 200,
+};
+
+/**
+ * Build the report from the track cache (no Spotify requests)
+ * Playlists without cached tracks are skipped and counted as stale
+ */
+export function buildOverlapReport(
+  database: PlaylistDatabase,
+  options: OverlapReportOptions = {}
+): OverlapReport {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+
+  // Index playlists and the playlists every track appears in
+  const playlistIds: string[] = [];
+  const playlistSizes: number[] = [];
+  const playlistTracks: string[][] = [];
+  const trackPlaylists = new Map<string, number[]>();
+
+  for (const row of database.getCachedTrackMemberships()) {
+    let index = playlistIds.length - 1;
+    if (playlistIds[index] !== row.playlist_id) {
+      index = playlistIds.push(row.playlist_id) - 1;
+      playlistSizes.push(0);
+      playlistTracks.push([]);
+    }
+
+    playlistSizes[index]++;
+    playlistTracks[index].push(row.track_uri);
+
+    const playlists = trackPlaylists.get(row.track_uri);
+    if (playlists) {
+      playlists.push(index);
+    } else {
+      trackPlaylists.set(row.track_uri, [index]);
+    }
+  }
+
+  console.log(
+    `[Overlap Report] Scanning ${playlistIds.length} playlists, ${trackPlaylists.size} distinct tracks`
+  );
+
+  // Tracks found in the most playlists
+  const topTracks = Array.from(trackPlaylists.entries())
+    .filter(([, playlists]) => playlists.length >= config.minPlaylistsPerTrack)
+    .sort((a, b) => b[1].length - a[1].length)
+    .slice(0, config.maxResults);
+  const trackDetails = new Map(
+    database.getTracksByUris(topTracks.map(([uri]) => uri)).map((track) => [track.uri, track])
+  );
+  const tracks: TrackOverlap[] = topTracks.map(([uri, playlists]) => ({
+    uri,
+    name: trackDetails.get(uri)?.name ?? null,
+    artist_name: trackDetails.get(uri)?.artist_name ?? null,
+    playlistIds: playlists.map((index) => playlistIds[index]),
+  }));
+
+  // Shared track counts per pair, one playlist at a time so memory stays
+  // linear in the number of playlists
+  const similarPairs: PlaylistPairOverlap[] = [];
+  const nearSubsets: PlaylistSubset[] = [];
+  const shared = new Uint32Array(playlistIds.length);
+  const touched: number[] = [];
+
+  for (let a = 0; a < playlistIds.length; a++) {
+    for (const uri of playlistTracks[a]) {
+      for (const b of trackPlaylists.get(uri)!) {
+        if (b <= a) continue;
+        if (shared[b] === 0) touched.push(b);
+        shared[b]++;
+      }
+    }
+
+    for (const b of touched) {
+      const count = shared[b];
+      shared[b] = 0;
+
+      const jaccard = count / (playlistSizes[a] + playlistSizes[b] - count);
+      if (jaccard >= config.minJaccard) {
+        similarPairs.push({
+          playlistA: playlistIds[a],
+          playlistB: playlistIds[b],
+          shared: count,
+          jaccard,
+        });
+      }
+
+      const [subset, superset] = playlistSizes[a] <= playlistSizes[b] ? [a, b] : [b, a];
+      const coverage = count / playlistSizes[subset];
+      if (playlistSizes[subset] >= config.minSubsetSize && coverage >= config.minSubsetCoverage) {
+        nearSubsets.push({
+          subsetId: playlistIds[subset],
+          supersetId: playlistIds[superset],
+          shared: count,
+          coverage,
+        });
+      }
+    }
+    touched.length = 0;
+  }
+
+  similarPairs.sort((x, y) => y.jaccard - x.jaccard || y.shared - x.shared);
+  nearSubsets.sort((x, y) => y.coverage - x.coverage || y.shared - x.shared);
+
+  console.log(
+    `[Overlap Report] Found ${tracks.length} shared tracks, ${similarPairs.length} similar pairs, ` +
+      `${nearSubsets.length} near subsets`
+  );
+
+  return {
+    generatedAt: Date.now(),
+    scannedPlaylists: playlistIds.length,
+    staleCachePlaylists: database.getPlaylistsNeedingDetails().length,
+    tracks,
+    similarPairs: similarPairs.slice(0, config.maxResults),
+    nearSubsets: nearSubsets.slice(0, config.maxResults),
+  };
+}
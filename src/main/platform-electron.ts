@@ -0,0 +1,33 @@
+/**
+ * Platform adapter for the desktop app
+ */
+
+import { app, dialog, shell } from 'electron';
+import Store from 'electron-store';
+import {
+  Platform,
+  PlatformPath,
+  SaveDialogOptions,
+  SecureStore,
+  SECURE_STORE_ENCRYPTION_KEY,
+} from './platform';
+
+export class ElectronPlatform implements Platform {
+  getPath(name: PlatformPath): string {
+    return app.getPath(name);
+  }
+
+  openExternal(url: string): Promise<void> {
+    return shell.openExternal(url);
+  }
+
+  createSecureStore<T extends Record<string, unknown>>(name: string): SecureStore<T> {
+    // Stored in the userData folder
+    return new Store<T>({ name, encryptionKey: SECURE_STORE_ENCRYPTION_KEY });
+  }
+
+  async showSaveDialog(options: SaveDialogOptions): Promise<string | null> {
+    const { canceled, filePath } = await dialog.showSaveDialog(options);
+    return canceled || !filePath ? null : filePath;
+  }
+}
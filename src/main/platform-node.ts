@@ -0,0 +1,88 @@
+/**
+ * Platform adapter for plain Node (CLI utilities and tests)
+ *
+ * Uses the same folders and token storage as the desktop app by default,
+ * so a login made in the app can be reused.
+ */
+
+import { spawn } from 'child_process';
+import { homedir } from 'os';
+import { join } from 'path';
+import Store from 'electron-store';
+import {
+  Platform,
+  PlatformPath,
+  SaveDialogOptions,
+  SecureStore,
+  SECURE_STORE_ENCRYPTION_KEY,
+} from './platform';
+
+// Electron names the userData folder after the package name
+const APP_NAME = 'spotify-playlist-manager';
+
+/**
+ * Folder Electron uses as app.getPath('userData') on this platform
+ */
+export function getDefaultUserDataPath(): string {
+  switch (process.platform) {
+    case 'darwin':
+      return join(homedir(), 'Library', 'Application Support', APP_NAME);
+    case 'win32':
+      return join(process.env.APPDATA || join(homedir(), 'AppData', 'Roaming'), APP_NAME);
+    default:
+      return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), APP_NAME);
+  }
+}
+
+export class NodePlatform implements Platform {
+  /**
+   * Pass a different `userDataPath` to keep data apart from the app (e.g. in tests)
+   */
+  constructor(private userDataPath: string = getDefaultUserDataPath()) {}
+
+  getPath(name: PlatformPath): string {
+    switch (name) {
+      case 'userData':
+        return this.userDataPath;
+      case 'desktop':
+        return join(homedir(), 'Desktop');
+      case 'documents':
+        return join(homedir(), 'Documents');
+    }
+  }
+
+  /**
+   * Print the URL and try to open it in the default browser
+   */
+  async openExternal(url: string): Promise<void> {
+    console.log(`Open this URL in your browser: ${url}`);
+
+    const [command, args] =
+      process.platform === 'darwin'
+        ? ['open', [url]]
+        : process.platform === 'win32'
+          ? ['cmd', ['/c', 'start', '""', url]]
+          : ['xdg-open', [url]];
+
+    // No browser (e.g. on a server) is fine, the URL was printed
+    spawn(command, args, { detached: true, stdio: 'ignore' })
+      .on('error', () => {})
+      .unref();
+  }
+
+  createSecureStore<T extends Record<string, unknown>>(name: string): SecureStore<T> {
+    // electron-store only needs Electron to find the default folder
+    return new Store<T>({
+      name,
+      encryptionKey: SECURE_STORE_ENCRYPTION_KEY,
+      cwd: this.userDataPath,
+    });
+  }
+
+  /**
+   * Nobody to ask, so files are saved at the suggested path
+   */
+  async showSaveDialog(options: SaveDialogOptions): Promise<string | null> {
+    return options.defaultPath;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Platform adapter
+ *
+ * What the main-process services need from the environment they run in:
+ * well-known folders, opening URLs, secure storage and save dialogs.
+ * The desktop app uses the Electron implementation; CLIs and tests use the
+ * plain Node one, so the services themselves never import Electron.
+ */
+
+export type PlatformPath = 'userData' | 'desktop' | 'documents';
+
+// Shared by both implementations so the CLI can read tokens saved by the app
+export const SECURE_STORE_ENCRYPTION_KEY = 'spotify-playlist-manager-encryption-key';
+
+/**
+ * Encrypted key/value storage, persisted between runs
+ */
+export interface SecureStore<T extends Record<string, unknown>> {
+  get<K extends keyof T>(key: K): T[K] | undefined;
+  set<K extends keyof T>(key: K, value: T[K]): void;
+  delete(key: keyof T): void;
+}
+
+export interface SaveDialogOptions {
+  title: string;
+  defaultPath: string;
+  filters: Array<{ name: string; extensions: string[] }>;
+}
+
+export interface Platform {
+  getPath(name: PlatformPath): string;
+  openExternal(url: string): Promise<void>;
+  createSecureStore<T extends Record<string, unknown>>(name: string): SecureStore<T>;
+
+  /**
+   * Ask where to save a file
+   * Resolves to the chosen path, or null when cancelled
+   */
+  showSaveDialog(options: SaveDialogOptions): Promise<string | null>;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { PlaylistTrackItem } from '@shared/types';
+import { planPlaylistDiff } from './playlist-diff';
+
+function items(uris: Array<string | null>): PlaylistTrackItem[] {
+  return uris.map((uri, position) => ({
+    playlist_id: 'playlist1',
+    position,
+    track_uri: uri,
+    added_at: null,
+    added_by: null,
+    is_unlinked: uri === null,
+    spotify_id: null,
+    name: null,
+    artist_name: null,
+    artists: '[]',
+    album_name: null,
+    duration_ms: 0,
+    isrc: null,
+    release_date: null,
+  }));
+}
+
+describe('planPlaylistDiff', () => {
+  it('keeps wanted tracks, removes the rest and adds missing ones', () => {
+    const diff = planPlaylistDiff(items(['a', 'b', 'c']), ['c', 'd', 'a']);
+
+    expect(diff).toEqual({
+      removals: [{ uri: 'b', position: 1 }],
+      additions: ['d'],
+    });
+  });
+
+  it('changes nothing when the playlist already matches', () => {
+    expect(planPlaylistDiff(items(['a', 'b']), ['a', 'b'])).toEqual({
+      removals: [],
+      additions: [],
+    });
+  });
+
+  it('removes repeats of a track, keeping the first', () => {
+    const diff = planPlaylistDiff(items(['a', 'b', 'a', 'a']), ['a', 'b']);
+
+    expect(diff).toEqual({
+      removals: [
+        { uri: 'a', position: 2 },
+        { uri: 'a', position: 3 },
+      ],
+      additions: [],
+    });
+  });
+
+  it('removes every track for an empty target', () => {
+    expect(planPlaylistDiff(items(['a', 'b']), [])).toEqual({
+      removals: [
+        { uri: 'a', position: 0 },
+        { uri: 'b', position: 1 },
+      ],
+      additions: [],
+    });
+  });
+
+  it('adds every target track to an empty playlist', () => {
+    expect(planPlaylistDiff([], ['a', 'b'])).toEqual({ removals: [], additions: ['a', 'b'] });
+  });
+
+  it('leaves unavailable items without a URI alone', () => {
+    expect(planPlaylistDiff(items(['a', null]), ['a'])).toEqual({ removals: [], additions: [] });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Playlist diff
+ *
+ * Brings an existing playlist in line with a target list of tracks with as
+ * few changes as possible (remove, insert, move), so unchanged tracks keep
+ * their added_at dates and applying the same target twice changes nothing
+ */
+
+import SpotifyWebApi from 'spotify-web-api-node';
+import type { PlaylistTrackItem } from '@shared/types';
+import { OperationContext } from './operation-progress';
+
+// Past this many single-track moves the playlist is rewritten instead
+const MAX_REORDER_MOVES = 50;
+
+export interface PlaylistDiff {
+  removals: Array<{ uri: string; position: number }>; // No longer wanted, or repeated
+  additions: string[]; // Target URIs missing from the playlist
+}
+
+export interface PlaylistDiffResult {
+  added: number;
+  removed: number;
+  moved: number;
+}
+
+/**
+ * Work out which tracks have to be removed and added (without touching the playlist)
+ */
+export function planPlaylistDiff(current: PlaylistTrackItem[], targetUris: string[]): PlaylistDiff {
+  const targetSet = new Set(targetUris);
+  const kept = new Set<string>();
+  const removals: PlaylistDiff['removals'] = [];
+
+  for (const item of current) {
+    const uri = item.track_uri;
+    if (uri && (!targetSet.has(uri) || kept.has(uri))) {
+      removals.push({ uri, position: item.position });
+    } else if (uri) {
+      kept.add(uri);
+    }
+  }
+
+  return { removals, additions: targetUris.filter((uri) => !kept.has(uri)) };
+}
+
+/**
+ * Apply the diff between a playlist's current tracks and the target list
+ * `current` must be the playlist's contents at `snapshotId`
+ */
+export async function applyPlaylistDiff(
+  spotifyApi: SpotifyWebApi,
+  playlistId: string,
+  current: PlaylistTrackItem[],
+  targetUris: string[],
+  snapshotId: string,
+  context?: OperationContext
+): Promise<PlaylistDiffResult> {
+  const { removals, additions } = planPlaylistDiff(current, targetUris);
+  const removedPositions = new Set(removals.map((removal) => removal.position));
+  const working = current
+    .filter((item) => !removedPositions.has(item.position))
+    .map((item) => item.track_uri);
+
+  await removePositions(spotifyApi, playlistId, removals, snapshotId);
+
+  // Insert new tracks right after the target track that precedes them
+  const added = new Set(additions);
+  let previousUri: string | null = null;
+  let run: string[] = [];
+  const flushRun = async () => {
+    if (run.length === 0) return;
+    const position = previousUri ? working.indexOf(previousUri) + 1 : 0;
+    await addTracksAt(spotifyApi, playlistId, run, position, context);
+    working.splice(position, 0, ...run);
+    previousUri = run[run.length - 1];
+    run = [];
+  };
+
+  for (const uri of targetUris) {
+    if (added.has(uri)) {
+      run.push(uri);
+    } else {
+      await flushRun();
+      previousUri = uri;
+    }
+  }
+  await flushRun();
+
+  // Unavailable items (no URI) can't be placed reliably, so order is left as is
+  let moved = 0;
+  if (working.some((uri) => uri === null)) {
+    console.warn(`[Playlist Diff] ${playlistId} has unavailable tracks, skipping reorder`);
+  } else {
+    moved = await reorder(spotifyApi, playlistId, working as string[], targetUris, context);
+  }
+
+  return { added: additions.length, removed: removals.length, moved };
+}
+
+/**
+ * Add tracks at a position in batches of 100 (Spotify API limit)
+ */
+export async function addTracksAt(
+  spotifyApi: SpotifyWebApi,
+  playlistId: string,
+  uris: string[],
+  position: number,
+  context?: OperationContext
+): Promise<void> {
+  for (let i = 0; i < uris.length; i += 100) {
+    context?.throwIfCancelled();
+    await spotifyApi.addTracksToPlaylist(playlistId, uris.slice(i, i + 100), {
+      position: position + i,
+    });
+  }
+}
+
+/**
+ * Remove tracks at specific positions, last ones first so earlier positions don't shift
+ */
+async function removePositions(
+  spotifyApi: SpotifyWebApi,
+  playlistId: string,
+  removals: PlaylistDiff['removals'],
+  snapshotId: string
+): Promise<void> {
+  const sorted = [...removals].sort((a, b) => b.position - a.position);
+  let currentSnapshotId = snapshotId;
+
+  for (let i = 0; i < sorted.length; i += 100) {
+    const positionsByUri = new Map<string, number[]>();
+    for (const track of sorted.slice(i, i + 100)) {
+      positionsByUri.set(track.uri, [...(positionsByUri.get(track.uri) || []), track.position]);
+    }
+
+    const response = await spotifyApi.removeTracksFromPlaylist(
+      playlistId,
+      Array.from(positionsByUri, ([uri, positions]) => ({ uri, positions })),
+      { snapshot_id: currentSnapshotId }
+    );
+    currentSnapshotId = response.body.snapshot_id;
+  }
+}
+
+/**
+ * Move tracks one at a time until the playlist matches the target order
+ * Falls back to rewriting the playlist when too many moves are needed
+ */
+async function reorder(
+  spotifyApi: SpotifyWebApi,
+  playlistId: string,
+  currentUris: string[],
+  targetUris: string[],
+  context?: OperationContext
+): Promise<number> {
+  // Plan the moves on a local copy first
+  const working = [...currentUris];
+  const moves: Array<{ from: number; to: number }> = [];
+  for (let i = 0; i < targetUris.length; i++) {
+    if (working[i] === targetUris[i]) continue;
+    const from = working.indexOf(targetUris[i], i + 1);
+    moves.push({ from, to: i });
+    working.splice(from, 1);
+    working.splice(i, 0, targetUris[i]);
+  }
+
+  if (moves.length === 0) return 0;
+
+  if (moves.length > MAX_REORDER_MOVES) {
+    console.log(`[Playlist Diff] ${moves.length} moves needed, rewriting ${playlistId}`);
+    await spotifyApi.replaceTracksInPlaylist(playlistId, targetUris.slice(0, 100));
+    await addTracksAt(spotifyApi, playlistId, targetUris.slice(100), 100, context);
+    return targetUris.length;
+  }
+
+  let snapshotId: string | undefined;
+  for (const move of moves) {
+    context?.throwIfCancelled();
+    const response = await spotifyApi.reorderTracksInPlaylist(playlistId, move.from, move.to, {
+      range_length: 1,
+      snapshot_id: snapshotId,
+    });
+    snapshotId = response.body.snapshot_id;
+  }
+
+  return moves.length;
+}
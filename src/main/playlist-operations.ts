@@ -5,37 +5,98 @@
 
 import SpotifyWebApi from 'spotify-web-api-node';
 import { PlaylistDatabase } from './database';
-import type { LocalPlaylist } from '@shared/types';
-import { app } from 'electron';
-import { join } from 'path';
-import { writeFileSync } from 'fs';
+import { TrackCacheService } from './track-cache';
+import { OperationContext } from './operation-progress';
+import type {
+  BrokenTrackRecoveryOptions,
+  DuplicateMatchOptions,
+  DuplicateRemovalOptions,
+  IntersectConfig,
+  LocalPlaylist,
+  OperationPlan,
+  OperationUndoData,
+  PlannedDuplicateGroup,
+  PlannedReplacement,
+  RecoveryMatchOptions,
+  ScoredCandidate,
+  PlannedTrack,
+  PlaylistTrackItem,
+  RenameConfig,
+  SubtractConfig,
+  SubtractPreview,
+} from '@shared/types';
+import { buildRenamePlan } from '@shared/rename';
+import { findDuplicateGroups } from '@shared/duplicates';
+import {
+  DEFAULT_RECOVERY_MATCH_OPTIONS,
+  isAcceptedReplacement,
+  scoreReplacement,
+} from '@shared/recovery';
+import { isEditablePlaylist, isLikedSongs } from '@shared/liked-songs';
+import { ERROR_MESSAGES, LIKED_SONGS, SPOTIFY_API_LIMITS } from '@shared/constants';
+import { toCsv } from '@shared/csv';
+
+// Checkpoint of a playlist being filled, saved after every batch
+interface PlaylistFillCheckpoint {
+  playlistId: string;
+  uris: string[];
+  addedCount: number;
+}
+
+// A track to be replaced by another one at the same position
+interface TrackSwap {
+  position: number;
+  fromUri: string;
+  toUri: string;
+}
 
 export class PlaylistOperations {
   constructor(
     private spotifyApi: SpotifyWebApi,
-    private database: PlaylistDatabase
+    private database: PlaylistDatabase,
+    private trackCache: TrackCacheService
   ) {}
 
   /**
    * Delete playlists by ID
    * Only allows deletion of playlists owned by the user
+   * With dryRun, returns the plan without deleting anything. Without
+   * logHistory, the caller records the deletion in its own history entry
    */
-  async deletePlaylists(playlistIds: string[]): Promise<{
+  async deletePlaylists(
+    playlistIds: string[],
+    dryRun = false,
+    context?: OperationContext,
+    logHistory = true
+  ): Promise<{
     success: boolean;
     deleted: number;
+    deletedIds: string[];
     failed: string[];
+    plan?: OperationPlan;
     error?: string;
   }> {
     if (playlistIds.length === 0) {
       return {
         success: false,
         deleted: 0,
+        deletedIds: [],
         failed: [],
         error: 'No playlists selected',
       };
     }
 
-    const deleted: string[] = [];
+    if (playlistIds.some(isLikedSongs)) {
+      return {
+        success: false,
+        deleted: 0,
+        deletedIds: [],
+        failed: [LIKED_SONGS.ID],
+        error: ERROR_MESSAGES.LIKED_SONGS_READ_ONLY,
+      };
+    }
+
+    const deleted: LocalPlaylist[] = [];
     const failed: string[] = [];
 
     // Get playlists from database to check ownership
@@ -50,13 +111,34 @@ export class PlaylistOperations {
       return {
         success: false,
         deleted: 0,
+        deletedIds: [],
         failed: notOwned.map((p) => p.spotify_id),
         error: `Cannot delete ${notOwned.length} playlist(s) you don't own`,
       };
     }
 
+    if (dryRun) {
+      const plan = this.createEmptyPlan();
+      plan.playlistsToDelete = playlistsToDelete.map((p) => ({
+        spotify_id: p.spotify_id,
+        name: p.name,
+        track_count: p.track_count,
+      }));
+      if (playlistsToDelete.length < playlistIds.length) {
+        plan.warnings.push(
+          `${playlistIds.length - playlistsToDelete.length} playlist(s) not found locally, sync first`
+        );
+      }
+      return { success: true, deleted: 0, deletedIds: [], failed: [], plan };
+    }
+
     // Delete each playlist
-    for (const playlist of playlistsToDelete) {
+    // (already deleted ones are gone from the database, so a resumed run skips them)
+    for (let index = 0; index < playlistsToDelete.length; index++) {
+      const playlist = playlistsToDelete[index];
+      context?.throwIfCancelled();
+      context?.report('Deleting', index, playlistsToDelete.length, playlist.name);
+
       try {
         // Call Spotify API to unfollow (delete) playlist
         await this.spotifyApi.unfollowPlaylist(playlist.spotify_id);
@@ -64,7 +146,7 @@ export class PlaylistOperations {
         // Remove from local database
         this.database.deletePlaylist(playlist.spotify_id);
 
-        deleted.push(playlist.spotify_id);
+        deleted.push(playlist);
       } catch (error) {
         console.error(`Failed to delete playlist ${playlist.spotify_id}:`, error);
         failed.push(playlist.spotify_id);
@@ -72,21 +154,26 @@ export class PlaylistOperations {
     }
 
     // Log operation to history
-    this.database.logOperation({
-      timestamp: Date.now(),
-      operation_type: 'delete',
-      playlists_affected: JSON.stringify(deleted),
-      details: JSON.stringify({
-        total: playlistIds.length,
-        deleted: deleted.length,
-        failed: failed.length,
-      }),
-      can_undo: false, // Spotify API doesn't support playlist recovery
-    });
+    if (logHistory) {
+      this.database.logOperation({
+        timestamp: Date.now(),
+        operation_type: 'delete',
+        playlists_affected: JSON.stringify(deleted.map((p) => p.spotify_id)),
+        details: JSON.stringify({
+          total: playlistIds.length,
+          deleted: deleted.length,
+          failed: failed.length,
+          // Deleted playlists can be restored by following them again
+          undo: { deleted_playlists: deleted },
+        }),
+        can_undo: deleted.length > 0,
+      });
+    }
 
     return {
       success: failed.length === 0,
       deleted: deleted.length,
+      deletedIds: deleted.map((p) => p.spotify_id),
       failed,
       error: failed.length > 0 ? `Failed to delete ${failed.length} playlist(s)` : undefined,
     };
@@ -100,18 +187,100 @@ export class PlaylistOperations {
     return allPlaylists.filter((p) => playlistIds.includes(p.spotify_id));
   }
 
+  /**
+   * Bulk rename playlists with a regex find/replace pattern
+   * Only playlists owned by the user are renamed
+   */
+  async renamePlaylists(
+    playlistIds: string[],
+    config: RenameConfig
+  ): Promise<{
+    success: boolean;
+    renamed: number;
+    skipped: number;
+    failed: string[];
+    error?: string;
+  }> {
+    if (playlistIds.length === 0) {
+      return {
+        success: false,
+        renamed: 0,
+        skipped: 0,
+        failed: [],
+        error: 'No playlists selected',
+      };
+    }
+
+    // Same ordering as the renderer preview so {index} matches
+    const plan = buildRenamePlan(this.getPlaylistDetails(playlistIds), config);
+    if (plan.error) {
+      return {
+        success: false,
+        renamed: 0,
+        skipped: 0,
+        failed: [],
+        error: plan.error,
+      };
+    }
+
+    const renamed: Array<{ id: string; old_name: string; new_name: string }> = [];
+    const failed: string[] = [];
+    const toRename = plan.items.filter((item) => !item.skipReason);
+
+    for (const item of toRename) {
+      try {
+        await this.spotifyApi.changePlaylistDetails(item.spotify_id, { name: item.newName });
+        this.database.updateName(item.spotify_id, item.newName);
+
+        renamed.push({ id: item.spotify_id, old_name: item.oldName, new_name: item.newName });
+        console.log(`[Rename] "${item.oldName}" → "${item.newName}"`);
+      } catch (error) {
+        console.error(`Failed to rename playlist ${item.spotify_id}:`, error);
+        failed.push(item.spotify_id);
+      }
+    }
+
+    // Log operation to history
+    this.database.logOperation({
+      timestamp: Date.now(),
+      operation_type: 'rename',
+      playlists_affected: JSON.stringify(renamed.map((r) => r.id)),
+      details: JSON.stringify({
+        find_pattern: config.findPattern,
+        replace_pattern: config.replacePattern,
+        skipped: plan.items.length - toRename.length,
+        failed: failed.length,
+        undo: { renamed },
+      }),
+      can_undo: renamed.length > 0,
+    });
+
+    return {
+      success: failed.length === 0,
+      renamed: renamed.length,
+      skipped: plan.items.length - toRename.length,
+      failed,
+      error: failed.length > 0 ? `Failed to rename ${failed.length} playlist(s)` : undefined,
+    };
+  }
+
   /**
    * Merge multiple playlists into one
+   * With dryRun, returns the plan without creating or deleting anything
    */
   async mergePlaylists(
     playlistIds: string[],
     targetName: string,
     removeDuplicates: boolean,
-    deleteSource: boolean
+    deleteSource: boolean,
+    duplicateMatch?: DuplicateMatchOptions,
+    dryRun = false,
+    context?: OperationContext
   ): Promise<{
     success: boolean;
     playlistId?: string;
     trackCount?: number;
+    plan?: OperationPlan;
     error?: string;
   }> {
     if (playlistIds.length < 2) {
@@ -128,57 +297,61 @@ export class PlaylistOperations {
       };
     }
 
+    if (deleteSource && playlistIds.some(isLikedSongs)) {
+      return {
+        success: false,
+        error: ERROR_MESSAGES.LIKED_SONGS_READ_ONLY,
+      };
+    }
+
     try {
       console.log(`[Merge] Starting merge of ${playlistIds.length} playlists...`);
 
       // Fetch all tracks from source playlists
-      const allTrackUris: string[] = [];
-      const trackUrisSeen = new Set<string>();
+      const collectedItems: PlaylistTrackItem[] = [];
+      const trackItems = new Map<string, PlaylistTrackItem>();
+      const skippedDuplicates: PlannedTrack[] = [];
+
+      for (let index = 0; index < playlistIds.length; index++) {
+        const playlistId = playlistIds[index];
+        context?.throwIfCancelled();
+        context?.report(
+          'Fetching tracks',
+          index,
+          playlistIds.length,
+          this.database.getPlaylistById(playlistId)?.name
+        );
 
-      for (const playlistId of playlistIds) {
         console.log(`[Merge] Fetching tracks from playlist ${playlistId}...`);
-        let offset = 0;
-        const limit = 100;
-        let hasMore = true;
-
-        while (hasMore) {
-          const response = await this.spotifyApi.getPlaylistTracks(playlistId, {
-            offset,
-            limit,
-          });
+        const items = await this.trackCache.getPlaylistTracks(playlistId);
 
-          const items = response.body.items;
-          if (items.length === 0) {
-            hasMore = false;
-            break;
+        for (const item of items) {
+          // Skip null tracks (unlinked/unavailable)
+          if (!item.track_uri) {
+            console.log(`[Merge] Skipping unlinked track in playlist ${playlistId}`);
+            continue;
           }
 
-          for (const item of items) {
-            // Skip null tracks (unlinked/unavailable)
-            if (!item.track || !item.track.uri) {
-              console.log(`[Merge] Skipping unlinked track in playlist ${playlistId}`);
-              continue;
-            }
-
-            const uri = item.track.uri;
-
-            if (removeDuplicates) {
-              // Only add if not seen before
-              if (!trackUrisSeen.has(uri)) {
-                allTrackUris.push(uri);
-                trackUrisSeen.add(uri);
-              }
-            } else {
-              // Add all tracks
-              allTrackUris.push(uri);
-            }
-          }
+          trackItems.set(item.track_uri, item);
+          collectedItems.push(item);
+        }
+      }
 
-          offset += limit;
-          hasMore = response.body.next !== null;
+      // Only the first version of every duplicate group is added
+      const skippedIndices = new Set<number>();
+      if (removeDuplicates) {
+        for (const group of findDuplicateGroups(collectedItems, duplicateMatch)) {
+          for (const index of group.slice(1)) {
+            skippedIndices.add(index);
+            skippedDuplicates.push(this.toPlannedTrack(collectedItems[index]));
+          }
         }
       }
 
+      const allTrackUris = collectedItems
+        .filter((_, index) => !skippedIndices.has(index))
+        .map((item) => item.track_uri!);
+
       console.log(
         `[Merge] Collected ${allTrackUris.length} tracks (duplicates ${removeDuplicates ? 'removed' : 'kept'})`
       );
@@ -203,39 +376,49 @@ export class PlaylistOperations {
         `[Merge] Validated ${validTrackUris.length} track URIs (${allTrackUris.length - validTrackUris.length} invalid)`
       );
 
+      if (dryRun) {
+        const plan = this.createEmptyPlan();
+        plan.playlistsToCreate = [{ name: targetName, trackCount: validTrackUris.length }];
+        plan.tracksToAdd = validTrackUris.map((uri) => this.toPlannedTrack(trackItems.get(uri)!));
+        plan.duplicates = skippedDuplicates;
+        if (deleteSource) {
+          plan.playlistsToDelete = this.getPlaylistDetails(playlistIds).map((p) => ({
+            spotify_id: p.spotify_id,
+            name: p.name,
+            track_count: p.track_count,
+          }));
+        }
+        if (allTrackUris.length > validTrackUris.length) {
+          plan.warnings.push(
+            `${allTrackUris.length - validTrackUris.length} local or invalid tracks will be skipped`
+          );
+        }
+        return { success: true, plan };
+      }
+
       // Create new playlist
       console.log(`[Merge] Creating new playlist "${targetName}"...`);
-      const createResponse = await this.spotifyApi.createPlaylist(targetName, {
-        description: `Merged from ${playlistIds.length} playlists`,
-        public: false,
-      });
-
-      const newPlaylistId = createResponse.body.id;
+      const newPlaylistId = await this.createPlaylistWithTracks(
+        targetName,
+        `Merged from ${playlistIds.length} playlists`,
+        validTrackUris,
+        context
+      );
       console.log(`[Merge] Created playlist ${newPlaylistId}`);
 
-      // Add tracks in batches of 100 (Spotify API limit)
-      const batchSize = 100;
-      const batches = Math.ceil(validTrackUris.length / batchSize);
-
-      for (let i = 0; i < batches; i++) {
-        const start = i * batchSize;
-        const end = Math.min(start + batchSize, validTrackUris.length);
-        const batch = validTrackUris.slice(start, end);
-
-        console.log(`[Merge] Adding batch ${i + 1}/${batches} (${batch.length} tracks)...`);
-        console.log(`[Merge] Sample URIs: ${batch.slice(0, 3).join(', ')}`);
-        await this.spotifyApi.addTracksToPlaylist(newPlaylistId, batch);
-      }
-
       console.log(`[Merge] Successfully added ${validTrackUris.length} tracks`);
 
       // Delete source playlists if requested
+      let deletedSources: LocalPlaylist[] = [];
       if (deleteSource) {
         console.log('[Merge] Deleting source playlists...');
-        const deleteResult = await this.deletePlaylists(playlistIds);
+        const sourcePlaylists = this.getPlaylistDetails(playlistIds);
+        // Undone with the merge, so no separate delete entry
+        const deleteResult = await this.deletePlaylists(playlistIds, false, undefined, false);
         if (!deleteResult.success) {
           console.warn('[Merge] Some source playlists failed to delete:', deleteResult.error);
         }
+        deletedSources = sourcePlaylists.filter((p) => deleteResult.deletedIds.includes(p.spotify_id));
       }
 
       // Log operation to history
@@ -249,9 +432,14 @@ export class PlaylistOperations {
           target_name: targetName,
           track_count: validTrackUris.length,
           remove_duplicates: removeDuplicates,
+          duplicate_match: removeDuplicates ? duplicateMatch ?? null : null,
           delete_source: deleteSource,
+          undo: {
+            created_playlists: [newPlaylistId],
+            deleted_playlists: deletedSources,
+          },
         }),
-        can_undo: false,
+        can_undo: true,
       });
 
       console.log('[Merge] Merge completed successfully');
@@ -271,322 +459,719 @@ export class PlaylistOperations {
   }
 
   /**
-   * Fix broken/unlinked tracks in a playlist
-   * Attempts to find replacement tracks by searching Spotify
+   * Preview a subtract operation (A - B) without creating a playlist
    */
-  async fixBrokenTracks(playlistId: string): Promise<{
+  async previewSubtract(
+    fromPlaylistId: string,
+    subtractPlaylistIds: string[]
+  ): Promise<{
     success: boolean;
-    playlistId?: string;
-    total?: number;
-    recovered?: number;
-    failed?: number;
+    preview?: SubtractPreview;
     error?: string;
   }> {
-    try {
-      console.log(`[Fix Broken Tracks] Starting for playlist ${playlistId}`);
-
-      // Get playlist details
-      const playlistResponse = await this.spotifyApi.getPlaylist(playlistId);
-      const playlist = playlistResponse.body;
-      const playlistName = playlist.name;
-
-      console.log(`[Fix Broken Tracks] Playlist: ${playlistName}`);
-
-      // Fetch all tracks
-      let allTracks: any[] = [];
-      let offset = 0;
-      const limit = 100;
-      let hasMore = true;
-
-      while (hasMore) {
-        const response = await this.spotifyApi.getPlaylistTracks(playlistId, {
-          offset,
-          limit,
-        });
-
-        allTracks.push(...response.body.items);
-        offset += limit;
-        hasMore = response.body.next !== null;
-      }
-
-      console.log(`[Fix Broken Tracks] Found ${allTracks.length} total tracks`);
-
-      // Identify unlinked tracks
-      // Track can be unlinked in several ways:
-      // 1. track is null
-      // 2. track.id is null (removed from catalog)
-      // 3. track.is_playable is false (regional restrictions or removed)
-      // 4. track.uri is missing
-      const unlinkedTracks = allTracks.filter((item) => {
-        return (
-          !item.track ||
-          item.track.id === null ||
-          item.track.is_playable === false ||
-          !item.track.uri
-        );
-      });
-
-      console.log(`[Fix Broken Tracks] Found ${unlinkedTracks.length} unlinked tracks`);
-
-      if (unlinkedTracks.length === 0) {
-        return {
-          success: true,
-          total: 0,
-          recovered: 0,
-          failed: 0,
-        };
-      }
+    if (subtractPlaylistIds.length === 0) {
+      return {
+        success: false,
+        error: 'Select at least 1 playlist to subtract',
+      };
+    }
 
-      // Attempt to recover each unlinked track
-      const recoveredUris: string[] = [];
-      const failedTracks: Array<{
-        trackName: string;
-        artistName: string;
-        uri: string;
-        reason: string;
-      }> = [];
-
-      for (const item of unlinkedTracks) {
-        // Try to extract track info from the item
-        const trackName = item.track?.name || 'Unknown';
-        const artistName =
-          item.track?.artists?.[0]?.name || item.track?.album?.artists?.[0]?.name || 'Unknown';
-        const uri = item.track?.uri || '';
-
-        console.log(`[Fix Broken Tracks] Attempting to recover: "${trackName}" by ${artistName}`);
-
-        if (trackName === 'Unknown' || artistName === 'Unknown') {
-          console.log(`[Fix Broken Tracks] Insufficient info, skipping`);
-          failedTracks.push({
-            trackName,
-            artistName,
-            uri,
-            reason: 'Insufficient metadata (track name or artist unknown)',
-          });
-          continue;
-        }
+    try {
+      const { sourceCount, resultUris } = await this.computeSubtract(
+        fromPlaylistId,
+        subtractPlaylistIds
+      );
 
-        try {
-          // Search Spotify for the track
-          const searchQuery = `track:${trackName} artist:${artistName}`;
-          const searchResponse = await this.spotifyApi.searchTracks(searchQuery, { limit: 10 });
+      return {
+        success: true,
+        preview: {
+          sourceCount,
+          resultCount: resultUris.length,
+          removedCount: sourceCount - resultUris.length,
+        },
+      };
+    } catch (error) {
+      console.error('[Subtract] Preview failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to preview subtract',
+      };
+    }
+  }
 
-          if (searchResponse.body.tracks && searchResponse.body.tracks.items.length > 0) {
-            // Sort by popularity and take the most popular
-            const results = searchResponse.body.tracks.items;
-            results.sort((a, b) => (b.popularity || 0) - (a.popularity || 0));
+  /**
+   * Subtract playlists (A - B)
+   * Creates a new playlist with every track of the source playlist
+   * that does not appear in any of the subtracted playlists
+   */
+  async subtractPlaylists(config: SubtractConfig): Promise<{
+    success: boolean;
+    playlistId?: string;
+    trackCount?: number;
+    removedCount?: number;
+    error?: string;
+  }> {
+    const { fromPlaylistId, subtractPlaylistIds, targetName } = config;
 
-            const bestMatch = results[0];
-            console.log(
-              `[Fix Broken Tracks] ✓ Found match: "${bestMatch.name}" by ${bestMatch.artists[0].name} (popularity: ${bestMatch.popularity})`
-            );
+    if (subtractPlaylistIds.length === 0) {
+      return {
+        success: false,
+        error: 'Select at least 1 playlist to subtract',
+      };
+    }
 
-            recoveredUris.push(bestMatch.uri);
-          } else {
-            console.log(`[Fix Broken Tracks] ✗ No matches found`);
-            failedTracks.push({
-              trackName,
-              artistName,
-              uri,
-              reason: 'No matches found on Spotify',
-            });
-          }
-        } catch (error) {
-          console.error(`[Fix Broken Tracks] Search failed:`, error);
-          failedTracks.push({
-            trackName,
-            artistName,
-            uri,
-            reason: `Search error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          });
-        }
+    if (subtractPlaylistIds.includes(fromPlaylistId)) {
+      return {
+        success: false,
+        error: 'Source playlist cannot also be subtracted',
+      };
+    }
 
-        // Add a small delay to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
+    if (!targetName.trim()) {
+      return {
+        success: false,
+        error: 'Target playlist name is required',
+      };
+    }
 
+    try {
       console.log(
-        `[Fix Broken Tracks] Recovery complete: ${recoveredUris.length} recovered, ${failedTracks.length} failed`
+        `[Subtract] Subtracting ${subtractPlaylistIds.length} playlists from ${fromPlaylistId}...`
       );
 
-      // Export failed tracks to CSV
-      let exportFilePath: string | undefined;
-      if (failedTracks.length > 0) {
-        try {
-          const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-          const sanitizedPlaylistName = playlistName.replace(/[^a-z0-9]/gi, '_');
-          const fileName = `${sanitizedPlaylistName}_failed_tracks_${timestamp}.csv`;
-          exportFilePath = join(app.getPath('desktop'), fileName);
-
-          // Create CSV content
-          const csvHeader = 'Track Name,Artist Name,Original URI,Reason\n';
-          const csvRows = failedTracks
-            .map((track) => {
-              // Escape commas and quotes in CSV
-              const escapeCsv = (str: string) => {
-                if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-                  return `"${str.replace(/"/g, '""')}"`;
-                }
-                return str;
-              };
-
-              return [
-                escapeCsv(track.trackName),
-                escapeCsv(track.artistName),
-                escapeCsv(track.uri),
-                escapeCsv(track.reason),
-              ].join(',');
-            })
-            .join('\n');
-
-          const csvContent = csvHeader + csvRows;
-          writeFileSync(exportFilePath, csvContent, 'utf-8');
-
-          console.log(`[Fix Broken Tracks] Exported ${failedTracks.length} failed tracks to: ${exportFilePath}`);
-        } catch (error) {
-          console.error('[Fix Broken Tracks] Failed to export CSV:', error);
-          exportFilePath = undefined;
-        }
-      }
+      const { sourceCount, resultUris } = await this.computeSubtract(
+        fromPlaylistId,
+        subtractPlaylistIds
+      );
+      const removedCount = sourceCount - resultUris.length;
 
-      if (recoveredUris.length === 0) {
+      console.log(`[Subtract] ${resultUris.length} tracks remain, ${removedCount} removed`);
+
+      if (resultUris.length === 0) {
         return {
           success: false,
-          total: unlinkedTracks.length,
-          recovered: 0,
-          failed: failedTracks.length,
-          error: 'No tracks could be recovered',
+          error: 'No tracks left after subtraction',
         };
       }
 
-      // Create new playlist with recovered tracks
-      const newPlaylistName = `${playlistName} - Recovered`;
-      console.log(`[Fix Broken Tracks] Creating playlist "${newPlaylistName}"`);
+      // Create new playlist
+      console.log(`[Subtract] Creating new playlist "${targetName}"...`);
+      const newPlaylistId = await this.createPlaylistWithTracks(
+        targetName,
+        `Tracks of one playlist minus ${subtractPlaylistIds.length} other(s)`,
+        resultUris
+      );
+      console.log(`[Subtract] Created playlist ${newPlaylistId}`);
 
-      const createResponse = await this.spotifyApi.createPlaylist(newPlaylistName, {
-        description: `Recovered ${recoveredUris.length} broken tracks from "${playlistName}"`,
-        public: false,
+      // Log operation to history
+      this.database.logOperation({
+        timestamp: Date.now(),
+        operation_type: 'subtract',
+        playlists_affected: JSON.stringify([fromPlaylistId, ...subtractPlaylistIds, newPlaylistId]),
+        details: JSON.stringify({
+          source_playlist: fromPlaylistId,
+          subtract_playlists: subtractPlaylistIds,
+          target_playlist: newPlaylistId,
+          target_name: targetName,
+          source_count: sourceCount,
+          track_count: resultUris.length,
+          removed_count: removedCount,
+          undo: { created_playlists: [newPlaylistId] },
+        }),
+        can_undo: true,
       });
 
-      const newPlaylistId = createResponse.body.id;
-
-      // Add tracks in batches of 100
-      const batchSize = 100;
-      const batches = Math.ceil(recoveredUris.length / batchSize);
-
-      for (let i = 0; i < batches; i++) {
-        const start = i * batchSize;
-        const end = Math.min(start + batchSize, recoveredUris.length);
-        const batch = recoveredUris.slice(start, end);
-
-        await this.spotifyApi.addTracksToPlaylist(newPlaylistId, batch);
-      }
-
-      console.log(`[Fix Broken Tracks] ✓ Created playlist: ${newPlaylistId}`);
+      console.log('[Subtract] Subtract completed successfully');
 
       return {
         success: true,
         playlistId: newPlaylistId,
-        total: unlinkedTracks.length,
-        recovered: recoveredUris.length,
-        failed: failedTracks.length,
+        trackCount: resultUris.length,
+        removedCount,
       };
     } catch (error) {
-      console.error('[Fix Broken Tracks] Failed:', error);
+      console.error('[Subtract] Subtract failed:', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to fix broken tracks',
+        error: error instanceof Error ? error.message : 'Failed to subtract playlists',
       };
     }
   }
 
   /**
-   * Remove duplicate tracks from a playlist
-   * Creates a new playlist with only unique tracks (first occurrence kept)
+   * Intersect playlists (A ∩ B ∩ ...)
+   * Creates a new playlist with the tracks found in all selected playlists,
+   * or in at least `minCount` of them
    */
-  async removeDuplicates(playlistId: string): Promise<{
+  async intersectPlaylists(config: IntersectConfig): Promise<{
     success: boolean;
     playlistId?: string;
-    originalCount?: number;
-    uniqueCount?: number;
-    duplicatesRemoved?: number;
+    trackCount?: number;
     error?: string;
   }> {
-    try {
-      console.log(`[Remove Duplicates] Starting for playlist ${playlistId}`);
-
-      // Get playlist details
-      const playlistResponse = await this.spotifyApi.getPlaylist(playlistId);
-      const playlist = playlistResponse.body;
-      const playlistName = playlist.name;
-
-      console.log(`[Remove Duplicates] Playlist: ${playlistName}`);
+    const { playlistIds, targetName } = config;
+    const minCount = config.minCount ?? playlistIds.length;
 
-      // Fetch all tracks
-      let allTracks: any[] = [];
-      let offset = 0;
-      const limit = 100;
-      let hasMore = true;
+    if (playlistIds.length < 2) {
+      return {
+        success: false,
+        error: 'Select at least 2 playlists to intersect',
+      };
+    }
 
-      while (hasMore) {
-        const response = await this.spotifyApi.getPlaylistTracks(playlistId, {
-          offset,
-          limit,
-        });
+    if (!Number.isInteger(minCount) || minCount < 2 || minCount > playlistIds.length) {
+      return {
+        success: false,
+        error: `Minimum count must be between 2 and ${playlistIds.length}`,
+      };
+    }
 
-        allTracks.push(...response.body.items);
-        offset += limit;
-        hasMore = response.body.next !== null;
-      }
+    if (!targetName.trim()) {
+      return {
+        success: false,
+        error: 'Target playlist name is required',
+      };
+    }
 
-      console.log(`[Remove Duplicates] Found ${allTracks.length} total tracks`);
+    try {
+      console.log(
+        `[Intersect] Intersecting ${playlistIds.length} playlists (min ${minCount} matches)...`
+      );
 
-      // Track URIs and find duplicates
-      const uniqueUris: string[] = [];
-      const seenUris = new Set<string>();
-      let duplicateCount = 0;
+      // Count in how many playlists each track appears, keeping first-seen order
+      const occurrences = new Map<string, number>();
 
-      for (const item of allTracks) {
-        // Skip null tracks (unlinked/unavailable)
-        if (!item.track || !item.track.uri) {
-          console.log(`[Remove Duplicates] Skipping unlinked track`);
-          continue;
+      for (const playlistId of playlistIds) {
+        console.log(`[Intersect] Fetching tracks from playlist ${playlistId}...`);
+        const items = await this.trackCache.getPlaylistTracks(playlistId);
+        const playlistUris = new Set<string>();
+
+        for (const item of items) {
+          const uri = item.track_uri;
+          if (uri && this.isValidTrackUri(uri)) {
+            playlistUris.add(uri);
+          }
         }
 
-        const uri = item.track.uri;
-
-        if (!seenUris.has(uri)) {
-          // First occurrence, keep it
-          uniqueUris.push(uri);
-          seenUris.add(uri);
-        } else {
-          // Duplicate, skip it
-          duplicateCount++;
+        for (const uri of playlistUris) {
+          occurrences.set(uri, (occurrences.get(uri) || 0) + 1);
         }
       }
 
-      console.log(
-        `[Remove Duplicates] Found ${uniqueUris.length} unique tracks, ${duplicateCount} duplicates`
-      );
+      const resultUris = Array.from(occurrences.entries())
+        .filter(([, count]) => count >= minCount)
+        .map(([uri]) => uri);
 
-      if (duplicateCount === 0) {
+      console.log(`[Intersect] Found ${resultUris.length} matching tracks`);
+
+      if (resultUris.length === 0) {
         return {
           success: false,
-          error: 'No duplicate tracks found in this playlist',
+          error: 'No tracks in common between the selected playlists',
         };
       }
 
-      // Validate all URIs are valid Spotify track URIs
-      const validTrackUris = uniqueUris.filter((uri) => {
-        const isValid = uri && uri.startsWith('spotify:track:') && uri.split(':').length === 3;
-        if (!isValid) {
-          console.log(`[Remove Duplicates] Skipping invalid URI: ${uri}`);
-        }
-        return isValid;
+      // Create new playlist
+      console.log(`[Intersect] Creating new playlist "${targetName}"...`);
+      const newPlaylistId = await this.createPlaylistWithTracks(
+        targetName,
+        minCount === playlistIds.length
+          ? `Tracks common to ${playlistIds.length} playlists`
+          : `Tracks found in at least ${minCount} of ${playlistIds.length} playlists`,
+        resultUris
+      );
+      console.log(`[Intersect] Created playlist ${newPlaylistId}`);
+
+      // Log operation to history
+      this.database.logOperation({
+        timestamp: Date.now(),
+        operation_type: 'intersect',
+        playlists_affected: JSON.stringify([...playlistIds, newPlaylistId]),
+        details: JSON.stringify({
+          source_playlists: playlistIds,
+          target_playlist: newPlaylistId,
+          target_name: targetName,
+          min_count: minCount,
+          track_count: resultUris.length,
+          undo: { created_playlists: [newPlaylistId] },
+        }),
+        can_undo: true,
+      });
+
+      console.log('[Intersect] Intersect completed successfully');
+
+      return {
+        success: true,
+        playlistId: newPlaylistId,
+        trackCount: resultUris.length,
+      };
+    } catch (error) {
+      console.error('[Intersect] Intersect failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to intersect playlists',
+      };
+    }
+  }
+
+  /**
+   * Fix broken/unlinked tracks in a playlist
+   * Searches Spotify for replacements and scores every candidate; the best
+   * one is used when it scores at least the auto-accept score, borderline
+   * ones only when they were picked in review (`options.decisions`)
+   * In 'copy' mode the replacements are collected in a new playlist; in
+   * 'in_place' mode each unlinked item is swapped for its replacement
+   * With dryRun, searches but only returns the candidates and their scores
+   * Every unlinked track is listed in `replacements`, with the reason when
+   * no candidate was found, so callers can report failures
+   */
+  async fixBrokenTracks(
+    playlistId: string,
+    options: BrokenTrackRecoveryOptions = {},
+    dryRun = false,
+    context?: OperationContext
+  ): Promise<{
+    success: boolean;
+    playlistId?: string;
+    total?: number;
+    recovered?: number;
+    failed?: number;
+    replacements?: PlannedReplacement[];
+    plan?: OperationPlan;
+    error?: string;
+  }> {
+    if (isLikedSongs(playlistId)) {
+      return {
+        success: false,
+        error: ERROR_MESSAGES.LIKED_SONGS_READ_ONLY,
+      };
+    }
+
+    const mode = options.mode ?? 'copy';
+    const localPlaylist = this.database.getPlaylistById(playlistId);
+    if (mode === 'in_place' && !(localPlaylist && isEditablePlaylist(localPlaylist))) {
+      return {
+        success: false,
+        error: 'Broken tracks can only be replaced in place in playlists you own',
+      };
+    }
+
+    try {
+      console.log(`[Fix Broken Tracks] Starting for playlist ${playlistId} (${mode})`);
+
+      // Get playlist details
+      const playlistResponse = await this.spotifyApi.getPlaylist(playlistId, {
+        fields: 'name,snapshot_id',
+      });
+      const playlist = playlistResponse.body;
+      const playlistName = playlist.name;
+
+      console.log(`[Fix Broken Tracks] Playlist: ${playlistName}`);
+
+      // Fetch all tracks (from cache if the snapshot is unchanged)
+      const allTracks = await this.trackCache.getPlaylistTracks(playlistId, playlist.snapshot_id);
+
+      console.log(`[Fix Broken Tracks] Found ${allTracks.length} total tracks`);
+
+      // Identify unlinked tracks (flagged when the playlist was cached)
+      const unlinkedTracks = allTracks.filter((item) => item.is_unlinked);
+
+      console.log(`[Fix Broken Tracks] Found ${unlinkedTracks.length} unlinked tracks`);
+
+      if (unlinkedTracks.length === 0) {
+        return {
+          success: true,
+          total: 0,
+          recovered: 0,
+          failed: 0,
+          plan: dryRun ? this.createEmptyPlan() : undefined,
+        };
+      }
+
+      // Attempt to recover each unlinked track
+      const match = options.match ?? DEFAULT_RECOVERY_MATCH_OPTIONS;
+      const market = await this.trackCache.getMarket();
+      const plan = this.createEmptyPlan();
+
+      for (let index = 0; index < unlinkedTracks.length; index++) {
+        const item = unlinkedTracks[index];
+        context?.throwIfCancelled();
+        context?.report('Searching replacements', index, unlinkedTracks.length, playlistName);
+
+        const replacement = await this.findReplacement(item, match, market);
+
+        // A choice made in review overrides the automatic one
+        const decision = options.decisions?.[item.position];
+        if (decision === null) {
+          replacement.candidate = null;
+          replacement.needsReview = false;
+          replacement.reason = 'Rejected in review';
+        } else if (decision !== undefined) {
+          const picked = replacement.alternatives?.find((candidate) => candidate.uri === decision);
+          replacement.candidate = picked ?? { uri: decision, name: null, artist_name: null };
+          replacement.score = picked?.score ?? replacement.score;
+          replacement.needsReview = false;
+          replacement.reason = undefined;
+        }
+
+        plan.replacements.push(replacement);
+      }
+
+      const recoveredUris = plan.replacements
+        .filter(isAcceptedReplacement)
+        .map((replacement) => replacement.candidate!.uri!);
+      const failedCount = unlinkedTracks.length - recoveredUris.length;
+      console.log(
+        `[Fix Broken Tracks] Recovery complete: ${recoveredUris.length} recovered, ${failedCount} failed`
+      );
+
+      const reviewCount = plan.replacements.filter((replacement) => replacement.needsReview).length;
+      if (reviewCount > 0) {
+        plan.warnings.push(`${reviewCount} matches need review and are skipped unless picked`);
+      }
+
+      if (mode === 'in_place') {
+        return this.replaceBrokenTracksInPlace(
+          playlistId,
+          playlistName,
+          playlist.snapshot_id,
+          plan,
+          dryRun,
+          context
+        );
+      }
+
+      if (dryRun) {
+        const newPlaylistName = `${playlistName} - Recovered`;
+        if (recoveredUris.length > 0) {
+          plan.playlistsToCreate = [{ name: newPlaylistName, trackCount: recoveredUris.length }];
+          plan.tracksToAdd = plan.replacements
+            .filter(isAcceptedReplacement)
+            .map((replacement) => replacement.candidate!);
+        }
+        return {
+          success: true,
+          total: unlinkedTracks.length,
+          recovered: recoveredUris.length,
+          failed: failedCount,
+          replacements: plan.replacements,
+          plan,
+        };
+      }
+
+      if (recoveredUris.length === 0) {
+        return {
+          success: false,
+          total: unlinkedTracks.length,
+          recovered: 0,
+          failed: failedCount,
+          replacements: plan.replacements,
+          error: 'No tracks could be recovered',
+        };
+      }
+
+      // Create new playlist with recovered tracks
+      const newPlaylistName = `${playlistName} - Recovered`;
+      console.log(`[Fix Broken Tracks] Creating playlist "${newPlaylistName}"`);
+
+      const newPlaylistId = await this.createPlaylistWithTracks(
+        newPlaylistName,
+        `Recovered ${recoveredUris.length} broken tracks from "${playlistName}"`,
+        recoveredUris,
+        context
+      );
+
+      console.log(`[Fix Broken Tracks] ✓ Created playlist: ${newPlaylistId}`);
+
+      // Log operation to history
+      this.database.logOperation({
+        timestamp: Date.now(),
+        operation_type: 'fix_broken_links',
+        playlists_affected: JSON.stringify([playlistId, newPlaylistId]),
+        details: JSON.stringify({
+          source_playlist: playlistId,
+          new_playlist: newPlaylistId,
+          total: unlinkedTracks.length,
+          recovered: recoveredUris.length,
+          failed: failedCount,
+          undo: { created_playlists: [newPlaylistId] },
+        }),
+        can_undo: true,
+      });
+
+      return {
+        success: true,
+        playlistId: newPlaylistId,
+        total: unlinkedTracks.length,
+        recovered: recoveredUris.length,
+        failed: failedCount,
+        replacements: plan.replacements,
+      };
+    } catch (error) {
+      console.error('[Fix Broken Tracks] Failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fix broken tracks',
+      };
+    }
+  }
+
+  /**
+   * Swap unlinked items for their replacements at the same positions
+   * Positions refer to the cached tracks at `snapshotId`
+   */
+  private async replaceBrokenTracksInPlace(
+    playlistId: string,
+    playlistName: string,
+    snapshotId: string,
+    plan: OperationPlan,
+    dryRun: boolean,
+    context?: OperationContext
+  ): Promise<{
+    success: boolean;
+    playlistId?: string;
+    total?: number;
+    recovered?: number;
+    failed?: number;
+    replacements?: PlannedReplacement[];
+    plan?: OperationPlan;
+    error?: string;
+  }> {
+    // Items Spotify returned without a track can't be removed by URI
+    for (const replacement of plan.replacements) {
+      if (isAcceptedReplacement(replacement) && !replacement.original.uri) {
+        replacement.candidate = null;
+        replacement.reason = 'Unavailable item without a URI, cannot be replaced in place';
+      }
+    }
+
+    const accepted = plan.replacements.filter(isAcceptedReplacement);
+    const total = plan.replacements.length;
+    const failed = total - accepted.length;
+
+    if (dryRun) {
+      plan.tracksToRemove = accepted.map((replacement) => replacement.original);
+      plan.tracksToAdd = accepted.map((replacement) => ({
+        ...replacement.candidate!,
+        position: replacement.original.position,
+      }));
+      return {
+        success: true,
+        playlistId,
+        total,
+        recovered: accepted.length,
+        failed,
+        replacements: plan.replacements,
+        plan,
+      };
+    }
+
+    if (accepted.length === 0) {
+      return {
+        success: false,
+        total,
+        recovered: 0,
+        failed,
+        replacements: plan.replacements,
+        error: 'No tracks could be recovered',
+      };
+    }
+
+    const swaps: TrackSwap[] = accepted.map((replacement) => ({
+      position: replacement.original.position!,
+      fromUri: replacement.original.uri!,
+      toUri: replacement.candidate!.uri!,
+    }));
+    const swapped: TrackSwap[] = [];
+
+    context?.report('Replacing tracks', 0, swaps.length, playlistName);
+    try {
+      await this.swapTracksAtPositions(playlistId, snapshotId, swaps, swapped, context);
+    } finally {
+      // Also when the swap failed partway, so the tracks that were replaced can be undone
+      if (swapped.length > 0) {
+        this.database.clearUnlinkedTracks(
+          playlistId,
+          swapped.map((swap) => swap.fromUri)
+        );
+
+        // Log operation to history
+        this.database.logOperation({
+          timestamp: Date.now(),
+          operation_type: 'fix_broken_links',
+          playlists_affected: JSON.stringify([playlistId]),
+          details: JSON.stringify({
+            source_playlist: playlistId,
+            mode: 'in_place',
+            total,
+            recovered: swapped.length,
+            failed: total - swapped.length,
+            undo: {
+              replaced_tracks: swapped.map((swap) => ({
+                playlist_id: playlistId,
+                position: swap.position,
+                original_uri: swap.fromUri,
+                replacement_uri: swap.toUri,
+              })),
+            },
+          }),
+          can_undo: true,
+        });
+      }
+    }
+    context?.report('Replacing tracks', swaps.length, swaps.length, playlistName);
+
+    console.log(`[Fix Broken Tracks] ✓ Replaced ${swaps.length} tracks in "${playlistName}"`);
+
+    return {
+      success: true,
+      playlistId,
+      total,
+      recovered: swaps.length,
+      failed,
+      replacements: plan.replacements,
+    };
+  }
+
+  /**
+   * Remove duplicate tracks from a playlist
+   * In 'copy' mode creates a new playlist with only one version of every
+   * track; in 'in_place' mode deletes the other versions from the playlist.
+   * The first version is kept unless another one was picked in review.
+   * With dryRun, returns the duplicate groups found without changing anything
+   */
+  async removeDuplicates(
+    playlistId: string,
+    options: DuplicateRemovalOptions = {},
+    dryRun = false,
+    context?: OperationContext
+  ): Promise<{
+    success: boolean;
+    playlistId?: string;
+    originalCount?: number;
+    uniqueCount?: number;
+    duplicatesRemoved?: number;
+    plan?: OperationPlan;
+    error?: string;
+  }> {
+    const mode = options.mode ?? 'copy';
+
+    try {
+      console.log(`[Remove Duplicates] Starting for playlist ${playlistId} (${mode})`);
+
+      const localPlaylist = this.database.getPlaylistById(playlistId);
+      if (mode === 'in_place' && !(localPlaylist && isEditablePlaylist(localPlaylist))) {
+        return {
+          success: false,
+          error: 'Duplicates can only be removed in place from playlists you own',
+        };
+      }
+
+      // Get playlist details
+      const playlist = await this.fetchPlaylistSummary(playlistId);
+      const playlistName = playlist.name;
+
+      console.log(`[Remove Duplicates] Playlist: ${playlistName}`);
+      context?.report('Fetching tracks', 0, 1, playlistName);
+
+      // Fetch all tracks (from cache if the snapshot is unchanged)
+      const allTracks = await this.trackCache.getPlaylistTracks(playlistId, playlist.snapshot_id);
+
+      console.log(`[Remove Duplicates] Found ${allTracks.length} total tracks`);
+
+      // Skip null tracks (unlinked/unavailable)
+      const linkedTracks = allTracks.filter((item) => item.track_uri);
+      if (linkedTracks.length < allTracks.length) {
+        console.log(
+          `[Remove Duplicates] Skipping ${allTracks.length - linkedTracks.length} unlinked tracks`
+        );
+      }
+
+      // Keep one version per group, the one picked in review if any
+      const keepPositions = new Set(options.keep || []);
+      const duplicateGroups: PlannedDuplicateGroup[] = [];
+      const duplicates: PlannedTrack[] = [];
+      const removedPositions = new Set<number>();
+
+      for (const group of findDuplicateGroups(linkedTracks, options.match)) {
+        const items = group.map((index) => linkedTracks[index]);
+        const kept = items.find((item) => keepPositions.has(item.position)) ?? items[0];
+
+        duplicateGroups.push({
+          tracks: items.map((item) => this.toPlannedTrack(item)),
+          keep: kept.position,
+        });
+
+        for (const item of items) {
+          if (item !== kept) {
+            duplicates.push(this.toPlannedTrack(item));
+            removedPositions.add(item.position);
+          }
+        }
+      }
+
+      duplicates.sort((a, b) => a.position! - b.position!);
+      const duplicateCount = duplicates.length;
+      const uniqueUris = linkedTracks
+        .filter((item) => !removedPositions.has(item.position))
+        .map((item) => item.track_uri!);
+
+      console.log(
+        `[Remove Duplicates] Found ${uniqueUris.length} unique tracks, ${duplicateCount} duplicates ` +
+          `in ${duplicateGroups.length} groups`
+      );
+
+      if (duplicateCount === 0) {
+        return {
+          success: false,
+          error: 'No duplicate tracks found in this playlist',
+        };
+      }
+
+      if (mode === 'in_place') {
+        const result = await this.removeDuplicatesInPlace(
+          playlistId,
+          playlistName,
+          playlist.snapshot_id,
+          allTracks.length,
+          duplicates,
+          dryRun,
+          context
+        );
+        if (result.plan) {
+          result.plan.duplicateGroups = duplicateGroups;
+        }
+        return result;
+      }
+
+      // Validate all URIs are valid Spotify track URIs
+      const validTrackUris = uniqueUris.filter((uri) => {
+        const isValid = uri && uri.startsWith('spotify:track:') && uri.split(':').length === 3;
+        if (!isValid) {
+          console.log(`[Remove Duplicates] Skipping invalid URI: ${uri}`);
+        }
+        return isValid;
       });
 
       console.log(`[Remove Duplicates] Validated ${validTrackUris.length} track URIs`);
 
+      if (dryRun) {
+        const plan = this.createEmptyPlan();
+        const newPlaylistName = `${playlistName} - No Duplicates`;
+        plan.duplicates = duplicates;
+        plan.duplicateGroups = duplicateGroups;
+        if (validTrackUris.length > 0) {
+          plan.playlistsToCreate = [{ name: newPlaylistName, trackCount: validTrackUris.length }];
+        }
+        return {
+          success: true,
+          originalCount: allTracks.length,
+          uniqueCount: validTrackUris.length,
+          duplicatesRemoved: duplicateCount,
+          plan,
+        };
+      }
+
       if (validTrackUris.length === 0) {
         return {
           success: false,
@@ -598,27 +1183,14 @@ export class PlaylistOperations {
       const newPlaylistName = `${playlistName} - No Duplicates`;
       console.log(`[Remove Duplicates] Creating playlist "${newPlaylistName}"`);
 
-      const createResponse = await this.spotifyApi.createPlaylist(newPlaylistName, {
-        description: `Duplicate-free version of "${playlistName}" (removed ${duplicateCount} duplicates)`,
-        public: false,
-      });
-
-      const newPlaylistId = createResponse.body.id;
+      const newPlaylistId = await this.createPlaylistWithTracks(
+        newPlaylistName,
+        `Duplicate-free version of "${playlistName}" (removed ${duplicateCount} duplicates)`,
+        validTrackUris,
+        context
+      );
       console.log(`[Remove Duplicates] Created playlist ${newPlaylistId}`);
 
-      // Add tracks in batches of 100 (Spotify API limit)
-      const batchSize = 100;
-      const batches = Math.ceil(validTrackUris.length / batchSize);
-
-      for (let i = 0; i < batches; i++) {
-        const start = i * batchSize;
-        const end = Math.min(start + batchSize, validTrackUris.length);
-        const batch = validTrackUris.slice(start, end);
-
-        console.log(`[Remove Duplicates] Adding batch ${i + 1}/${batches} (${batch.length} tracks)...`);
-        await this.spotifyApi.addTracksToPlaylist(newPlaylistId, batch);
-      }
-
       console.log(`[Remove Duplicates] Successfully added ${validTrackUris.length} unique tracks`);
 
       // Log operation to history
@@ -632,8 +1204,9 @@ export class PlaylistOperations {
           original_count: allTracks.length,
           unique_count: validTrackUris.length,
           duplicates_removed: duplicateCount,
+          undo: { created_playlists: [newPlaylistId] },
         }),
-        can_undo: false,
+        can_undo: true,
       });
 
       console.log('[Remove Duplicates] Completed successfully');
@@ -653,4 +1226,956 @@ export class PlaylistOperations {
       };
     }
   }
+
+  /**
+   * Delete duplicate versions from the playlist itself
+   * Removal is position-specific, so the kept version of every track and
+   * the order of the playlist stay intact
+   */
+  private async removeDuplicatesInPlace(
+    playlistId: string,
+    playlistName: string,
+    snapshotId: string,
+    originalCount: number,
+    duplicates: PlannedTrack[],
+    dryRun: boolean,
+    context?: OperationContext
+  ): Promise<{
+    success: boolean;
+    playlistId?: string;
+    originalCount?: number;
+    uniqueCount?: number;
+    duplicatesRemoved?: number;
+    plan?: OperationPlan;
+    error?: string;
+  }> {
+    // Local files can't be removed by URI
+    const removable = duplicates.filter(
+      (track) => this.isValidTrackUri(track.uri) && track.position !== undefined
+    );
+    const uniqueCount = originalCount - removable.length;
+
+    if (dryRun) {
+      const plan = this.createEmptyPlan();
+      plan.duplicates = duplicates;
+      plan.tracksToRemove = removable;
+      if (removable.length < duplicates.length) {
+        plan.warnings.push(
+          `${duplicates.length - removable.length} duplicates are local files and will be kept`
+        );
+      }
+      return {
+        success: true,
+        playlistId,
+        originalCount,
+        uniqueCount,
+        duplicatesRemoved: removable.length,
+        plan,
+      };
+    }
+
+    if (removable.length === 0) {
+      return {
+        success: false,
+        error: 'No removable duplicates (all duplicates are local files)',
+      };
+    }
+
+    const removedCount = removable.length;
+    await this.removeTracksAtPositions(
+      playlistId,
+      snapshotId,
+      removable.map((track) => ({ uri: track.uri!, position: track.position! })),
+      (removed) => {
+        context?.report('Removing duplicates', removed, removedCount, playlistName);
+        if (removed > 0) {
+          console.log(
+            `[Remove Duplicates] Removed ${removed}/${removedCount} duplicates from "${playlistName}"`
+          );
+        }
+      },
+      context
+    );
+    this.database.updateTrackCount(playlistId, uniqueCount);
+
+    // Log operation to history
+    this.database.logOperation({
+      timestamp: Date.now(),
+      operation_type: 'remove_duplicates',
+      playlists_affected: JSON.stringify([playlistId]),
+      details: JSON.stringify({
+        source_playlist: playlistId,
+        mode: 'in_place',
+        original_count: originalCount,
+        unique_count: uniqueCount,
+        duplicates_removed: removedCount,
+        undo: {
+          removed_tracks: removable.map((track) => ({
+            playlist_id: playlistId,
+            uri: track.uri!,
+            position: track.position!,
+          })),
+        },
+      }),
+      can_undo: true,
+    });
+
+    console.log('[Remove Duplicates] Completed successfully');
+
+    return {
+      success: true,
+      playlistId,
+      originalCount,
+      uniqueCount,
+      duplicatesRemoved: removedCount,
+    };
+  }
+
+  /**
+   * Delete the unlinked tracks from a playlist the user owns
+   * Removal is position-specific, so playable copies of the same track stay
+   */
+  async removeUnlinkedTracks(
+    playlistId: string,
+    context?: OperationContext
+  ): Promise<{
+    success: boolean;
+    removed?: number;
+    error?: string;
+  }> {
+    const localPlaylist = this.database.getPlaylistById(playlistId);
+    if (!(localPlaylist && isEditablePlaylist(localPlaylist))) {
+      return {
+        success: false,
+        error: 'Unlinked tracks can only be removed from playlists you own',
+      };
+    }
+
+    try {
+      console.log(`[Remove Unlinked] Starting for playlist ${playlistId}`);
+
+      const playlist = await this.fetchPlaylistSummary(playlistId);
+      context?.report('Fetching tracks', 0, 1, playlist.name);
+
+      const allTracks = await this.trackCache.getPlaylistTracks(playlistId, playlist.snapshot_id);
+      // Items without a track can't be removed by URI
+      const unlinked = allTracks.filter((item) => item.is_unlinked && item.track_uri);
+
+      if (unlinked.length === 0) {
+        this.database.clearUnlinkedTracks(playlistId);
+        return { success: false, error: 'No removable unlinked tracks in this playlist' };
+      }
+
+      const removedTracks = unlinked.map((item) => ({
+        playlist_id: playlistId,
+        uri: item.track_uri!,
+        position: item.position,
+      }));
+
+      await this.removeTracksAtPositions(
+        playlistId,
+        playlist.snapshot_id,
+        removedTracks,
+        (removed) =>
+          context?.report('Removing unlinked tracks', removed, removedTracks.length, playlist.name),
+        context
+      );
+
+      this.database.updateTrackCount(playlistId, allTracks.length - removedTracks.length);
+      this.database.clearUnlinkedTracks(playlistId);
+
+      console.log(
+        `[Remove Unlinked] ✓ Removed ${removedTracks.length} tracks from "${playlist.name}"`
+      );
+
+      // Log operation to history
+      this.database.logOperation({
+        timestamp: Date.now(),
+        operation_type: 'remove_unlinked',
+        playlists_affected: JSON.stringify([playlistId]),
+        details: JSON.stringify({
+          source_playlist: playlistId,
+          removed: removedTracks.length,
+          undo: { removed_tracks: removedTracks },
+        }),
+        can_undo: true,
+      });
+
+      return { success: true, removed: removedTracks.length };
+    } catch (error) {
+      console.error('[Remove Unlinked] Failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to remove unlinked tracks',
+      };
+    }
+  }
+
+  /**
+   * Like every track of the given playlists
+   * Tracks already in Liked Songs are skipped, so an interrupted run can simply be repeated
+   */
+  async likeTracks(
+    playlistIds: string[],
+    context?: OperationContext
+  ): Promise<{
+    success: boolean;
+    liked?: number;
+    alreadyLiked?: number;
+    error?: string;
+  }> {
+    const sourceIds = playlistIds.filter((playlistId) => !isLikedSongs(playlistId));
+    if (sourceIds.length === 0) {
+      return {
+        success: false,
+        error: 'Select at least 1 playlist other than Liked Songs',
+      };
+    }
+
+    const liked: string[] = [];
+    try {
+      const likedTracks = await this.trackCache.getPlaylistTracks(LIKED_SONGS.ID);
+      const likedUris = new Set(likedTracks.map((item) => item.track_uri));
+
+      // Tracks to like, in source order
+      const toLike = new Set<string>();
+      const alreadyLiked = new Set<string>();
+      for (let index = 0; index < sourceIds.length; index++) {
+        context?.throwIfCancelled();
+        context?.report(
+          'Fetching tracks',
+          index,
+          sourceIds.length,
+          this.database.getPlaylistById(sourceIds[index])?.name
+        );
+
+        for (const item of await this.trackCache.getPlaylistTracks(sourceIds[index])) {
+          const uri = item.track_uri;
+          // Local files and unavailable tracks can't be liked
+          if (!uri || item.is_unlinked || !uri.startsWith('spotify:track:')) continue;
+
+          if (likedUris.has(uri)) {
+            alreadyLiked.add(uri);
+          } else {
+            toLike.add(uri);
+          }
+        }
+      }
+
+      console.log(
+        `[Like] Liking ${toLike.size} tracks from ${sourceIds.length} playlists ` +
+          `(${alreadyLiked.size} already liked)`
+      );
+
+      try {
+        await this.setTracksLiked(Array.from(toLike), true, liked, context);
+      } finally {
+        // Logged even when interrupted, so the tracks liked so far can be undone
+        if (liked.length > 0) {
+          this.database.updateTrackCount(LIKED_SONGS.ID, likedTracks.length + liked.length);
+          this.database.logOperation({
+            timestamp: Date.now(),
+            operation_type: 'like',
+            playlists_affected: JSON.stringify([...sourceIds, LIKED_SONGS.ID]),
+            details: JSON.stringify({
+              source_playlists: sourceIds,
+              liked: liked.length,
+              already_liked: alreadyLiked.size,
+              undo: { liked_uris: liked },
+            }),
+            can_undo: true,
+          });
+        }
+      }
+
+      console.log(`[Like] Liked ${liked.length} tracks`);
+
+      return { success: true, liked: liked.length, alreadyLiked: alreadyLiked.size };
+    } catch (error) {
+      console.error('[Like] Failed:', error);
+      return {
+        success: false,
+        liked: liked.length,
+        error: error instanceof Error ? error.message : 'Failed to like tracks',
+      };
+    }
+  }
+
+  /**
+   * Unlike every liked track that is also in the given playlist
+   */
+  async unlikeTracks(
+    playlistId: string,
+    context?: OperationContext
+  ): Promise<{
+    success: boolean;
+    unliked?: number;
+    error?: string;
+  }> {
+    if (isLikedSongs(playlistId)) {
+      return {
+        success: false,
+        error: 'Pick a playlist other than Liked Songs',
+      };
+    }
+
+    const playlistName = this.database.getPlaylistById(playlistId)?.name ?? playlistId;
+    context?.report('Fetching tracks', 0, 1, playlistName);
+
+    const unliked: string[] = [];
+    try {
+      const playlistUris = new Set(
+        (await this.trackCache.getPlaylistTracks(playlistId)).map((item) => item.track_uri)
+      );
+      const likedTracks = await this.trackCache.getPlaylistTracks(LIKED_SONGS.ID);
+      const toUnlike = likedTracks
+        .map((item) => item.track_uri)
+        .filter((uri): uri is string => !!uri && playlistUris.has(uri));
+
+      console.log(`[Unlike] Unliking ${toUnlike.length} tracks found in "${playlistName}"`);
+
+      try {
+        await this.setTracksLiked(toUnlike, false, unliked, context);
+      } finally {
+        // Logged even when interrupted, so the tracks unliked so far can be liked again
+        if (unliked.length > 0) {
+          this.database.updateTrackCount(LIKED_SONGS.ID, likedTracks.length - unliked.length);
+          this.database.logOperation({
+            timestamp: Date.now(),
+            operation_type: 'unlike',
+            playlists_affected: JSON.stringify([playlistId, LIKED_SONGS.ID]),
+            details: JSON.stringify({
+              playlist_name: playlistName,
+              unliked: unliked.length,
+              undo: { unliked_uris: unliked },
+            }),
+            can_undo: true,
+          });
+        }
+      }
+
+      console.log(`[Unlike] Unliked ${unliked.length} tracks`);
+
+      return { success: true, unliked: unliked.length };
+    } catch (error) {
+      console.error('[Unlike] Failed:', error);
+      return {
+        success: false,
+        unliked: unliked.length,
+        error: error instanceof Error ? error.message : 'Failed to unlike tracks',
+      };
+    }
+  }
+
+  /**
+   * Format every track of a playlist (or Liked Songs) as CSV
+   */
+  async exportTracksCsv(playlistId: string): Promise<{ csv: string; trackCount: number }> {
+    const items = await this.trackCache.getPlaylistTracks(playlistId);
+
+    const header = [
+      'Position',
+      'Track Name',
+      'Artists',
+      'Album',
+      'Duration (ms)',
+      'Release Date',
+      'ISRC',
+      'Added At',
+      'URI',
+    ];
+    const rows = items.map((item) => [
+      item.position + 1,
+      item.name,
+      (JSON.parse(item.artists || '[]') as string[]).join('; ') || item.artist_name,
+      item.album_name,
+      item.duration_ms,
+      item.release_date,
+      item.isrc,
+      item.added_at,
+      item.track_uri,
+    ]);
+
+    return { csv: toCsv(header, rows), trackCount: items.length };
+  }
+
+  /**
+   * Undo an operation using the inverse data stored in its history entry
+   * Every step is attempted; failed steps are reported but the entry is
+   * still marked as undone so successful steps aren't applied twice
+   */
+  async undoOperation(operationId: number): Promise<{
+    success: boolean;
+    failed: string[];
+    error?: string;
+  }> {
+    const operation = this.database.getOperation(operationId);
+    if (!operation) {
+      return { success: false, failed: [], error: 'Operation not found' };
+    }
+
+    if (!operation.can_undo) {
+      return { success: false, failed: [], error: 'This operation cannot be undone' };
+    }
+
+    const undo: OperationUndoData = JSON.parse(operation.details).undo || {};
+    const failed: string[] = [];
+
+    console.log(`[Undo] Undoing ${operation.operation_type} #${operationId}...`);
+
+    // Re-follow deleted playlists and restore their local rows (including tags)
+    for (const playlist of undo.deleted_playlists || []) {
+      try {
+        await this.spotifyApi.followPlaylist(playlist.spotify_id);
+        this.database.upsertPlaylist(playlist);
+        this.database.updateTags(playlist.spotify_id, playlist.tags);
+        console.log(`[Undo] Restored playlist "${playlist.name}"`);
+      } catch (error) {
+        console.error(`[Undo] Failed to restore playlist ${playlist.spotify_id}:`, error);
+        failed.push(playlist.spotify_id);
+      }
+    }
+
+    // Re-insert removed tracks at their original positions
+    for (const group of this.groupRemovedTracks(undo.removed_tracks || [])) {
+      try {
+        await this.spotifyApi.addTracksToPlaylist(group.playlistId, group.uris, {
+          position: group.position,
+        });
+      } catch (error) {
+        console.error(`[Undo] Failed to re-add tracks to ${group.playlistId}:`, error);
+        failed.push(group.playlistId);
+      }
+    }
+
+    // Swap replaced tracks back, where the replacement is still at its position
+    const replacedByPlaylist = new Map<string, NonNullable<OperationUndoData['replaced_tracks']>>();
+    for (const track of undo.replaced_tracks || []) {
+      replacedByPlaylist.set(track.playlist_id, [
+        ...(replacedByPlaylist.get(track.playlist_id) || []),
+        track,
+      ]);
+    }
+    for (const [playlistId, replaced] of replacedByPlaylist) {
+      try {
+        const items = await this.trackCache.getPlaylistTracks(playlistId);
+        const uriAt = new Map(items.map((item) => [item.position, item.track_uri]));
+        const unchanged = replaced.filter(
+          (track) => uriAt.get(track.position) === track.replacement_uri
+        );
+
+        await this.swapTracksAtPositions(
+          playlistId,
+          this.database.getCachedSnapshotId(playlistId)!,
+          unchanged.map((track) => ({
+            position: track.position,
+            fromUri: track.replacement_uri,
+            toUri: track.original_uri,
+          }))
+        );
+
+        if (unchanged.length < replaced.length) {
+          console.warn(
+            `[Undo] ${replaced.length - unchanged.length} replaced tracks in ${playlistId} were moved or removed`
+          );
+          failed.push(playlistId);
+        }
+      } catch (error) {
+        console.error(`[Undo] Failed to swap back tracks in ${playlistId}:`, error);
+        failed.push(playlistId);
+      }
+    }
+
+    // Restore old names
+    for (const rename of undo.renamed || []) {
+      try {
+        await this.spotifyApi.changePlaylistDetails(rename.id, { name: rename.old_name });
+        this.database.updateName(rename.id, rename.old_name);
+      } catch (error) {
+        console.error(`[Undo] Failed to restore name of ${rename.id}:`, error);
+        failed.push(rename.id);
+      }
+    }
+
+    // Restore old tags (local only)
+    for (const tag of undo.tags || []) {
+      this.database.updateTags(tag.id, tag.old_tags);
+    }
+
+    // Remove playlists the operation created
+    for (const playlistId of undo.created_playlists || []) {
+      try {
+        await this.spotifyApi.unfollowPlaylist(playlistId);
+        this.database.deletePlaylist(playlistId);
+      } catch (error) {
+        console.error(`[Undo] Failed to remove created playlist ${playlistId}:`, error);
+        failed.push(playlistId);
+      }
+    }
+
+    // Unlike tracks the operation liked, and like again the ones it unliked
+    for (const [uris, liked] of [
+      [undo.liked_uris || [], false],
+      [undo.unliked_uris || [], true],
+    ] as const) {
+      const done: string[] = [];
+      try {
+        await this.setTracksLiked([...uris], liked, done);
+      } catch (error) {
+        console.error(`[Undo] Failed to ${liked ? 'like' : 'unlike'} tracks:`, error);
+        failed.push(...uris.filter((uri) => !done.includes(uri)));
+      }
+    }
+
+    this.database.markOperationUndone(operationId);
+
+    // Log operation to history
+    this.database.logOperation({
+      timestamp: Date.now(),
+      operation_type: 'undo',
+      playlists_affected: operation.playlists_affected,
+      details: JSON.stringify({
+        undone_operation: operationId,
+        undone_type: operation.operation_type,
+        failed: failed.length,
+      }),
+      can_undo: false,
+    });
+
+    console.log(`[Undo] Completed with ${failed.length} failed step(s)`);
+
+    return {
+      success: failed.length === 0,
+      failed,
+      error: failed.length > 0 ? `Failed to undo ${failed.length} step(s)` : undefined,
+    };
+  }
+
+  /**
+   * Like or unlike tracks in batches
+   * Every batch that went through is appended to `done`, so callers can tell
+   * how far an interrupted run got
+   */
+  private async setTracksLiked(
+    uris: string[],
+    liked: boolean,
+    done: string[],
+    context?: OperationContext
+  ): Promise<void> {
+    const batchSize = SPOTIFY_API_LIMITS.SAVED_TRACKS_PER_REQUEST;
+    const label = liked ? 'Liking tracks' : 'Unliking tracks';
+
+    for (let i = 0; i < uris.length; i += batchSize) {
+      context?.throwIfCancelled();
+      context?.report(label, i, uris.length);
+
+      const batch = uris.slice(i, i + batchSize);
+      // The library endpoints take track IDs rather than URIs
+      const ids = batch.map((uri) => uri.split(':')[2]);
+      if (liked) {
+        await this.spotifyApi.addToMySavedTracks(ids);
+      } else {
+        await this.spotifyApi.removeFromMySavedTracks(ids);
+      }
+      done.push(...batch);
+    }
+
+    context?.report(label, uris.length, uris.length);
+  }
+
+  /**
+   * Get a playlist's name and current snapshot_id (Liked Songs included)
+   */
+  private async fetchPlaylistSummary(
+    playlistId: string
+  ): Promise<{ name: string; snapshot_id: string }> {
+    if (isLikedSongs(playlistId)) {
+      const { snapshotId } = await this.trackCache.fetchLikedSongsSummary();
+      return { name: LIKED_SONGS.NAME, snapshot_id: snapshotId };
+    }
+
+    const response = await this.spotifyApi.getPlaylist(playlistId, {
+      fields: 'name,snapshot_id',
+    });
+    return response.body;
+  }
+
+  /**
+   * Remove the tracks at the given positions, in batches of 100
+   * Removal is position-specific against `snapshotId`; `onBatch` is called
+   * with the number removed so far before each batch and once at the end
+   */
+  private async removeTracksAtPositions(
+    playlistId: string,
+    snapshotId: string,
+    tracks: Array<{ uri: string; position: number }>,
+    onBatch?: (removed: number) => void,
+    context?: OperationContext
+  ): Promise<void> {
+    // Remove from the end so earlier positions don't shift between batches
+    const sorted = [...tracks].sort((a, b) => b.position - a.position);
+    let currentSnapshotId = snapshotId;
+
+    for (let i = 0; i < sorted.length; i += 100) {
+      context?.throwIfCancelled();
+      onBatch?.(i);
+
+      const positionsByUri = new Map<string, number[]>();
+      for (const track of sorted.slice(i, i + 100)) {
+        positionsByUri.set(track.uri, [...(positionsByUri.get(track.uri) || []), track.position]);
+      }
+
+      const response = await this.spotifyApi.removeTracksFromPlaylist(
+        playlistId,
+        Array.from(positionsByUri, ([uri, positions]) => ({ uri, positions })),
+        { snapshot_id: currentSnapshotId }
+      );
+      currentSnapshotId = response.body.snapshot_id;
+    }
+
+    onBatch?.(sorted.length);
+  }
+
+  /**
+   * Replace the tracks at the given positions with other tracks
+   * Removal is position-specific against `snapshotId`, then the new tracks
+   * are inserted at the same indices. Cancellation is only checked before
+   * the first removal; if a request fails after it, the removed tracks whose
+   * replacement wasn't inserted are put back before rethrowing. Every swap
+   * that went through is appended to `done`
+   */
+  private async swapTracksAtPositions(
+    playlistId: string,
+    snapshotId: string,
+    swaps: TrackSwap[],
+    done: TrackSwap[] = [],
+    context?: OperationContext
+  ): Promise<void> {
+    context?.throwIfCancelled();
+
+    // Removal starts from the last position, so the first `removedCount` of these are gone
+    const byPositionDesc = [...swaps].sort((a, b) => b.position - a.position);
+    const swapAt = new Map(swaps.map((swap) => [swap.position, swap]));
+    let removedCount = 0;
+    const inserted = new Set<TrackSwap>();
+
+    try {
+      await this.removeTracksAtPositions(
+        playlistId,
+        snapshotId,
+        byPositionDesc.map((swap) => ({ uri: swap.fromUri, position: swap.position })),
+        (removed) => {
+          removedCount = removed;
+        }
+      );
+
+      // Runs are inserted in ascending order, so every track lands at its old index
+      const runs = this.groupRemovedTracks(
+        swaps.map((swap) => ({ playlist_id: playlistId, uri: swap.toUri, position: swap.position }))
+      );
+      for (const run of runs) {
+        await this.spotifyApi.addTracksToPlaylist(playlistId, run.uris, { position: run.position });
+
+        const runSwaps = run.uris.map((_, i) => swapAt.get(run.position + i)!);
+        runSwaps.forEach((swap) => inserted.add(swap));
+        done.push(...runSwaps);
+      }
+    } catch (error) {
+      // Every position before a missing track is intact again, so putting
+      // them back in ascending order restores their old indices
+      const missing = byPositionDesc
+        .slice(0, removedCount)
+        .filter((swap) => !inserted.has(swap));
+
+      if (missing.length > 0) {
+        console.warn(
+          `[Swap] Failed after removing tracks from ${playlistId}, putting back ${missing.length}`
+        );
+        try {
+          const runs = this.groupRemovedTracks(
+            missing.map((swap) => ({
+              playlist_id: playlistId,
+              uri: swap.fromUri,
+              position: swap.position,
+            }))
+          );
+          for (const run of runs) {
+            await this.spotifyApi.addTracksToPlaylist(playlistId, run.uris, {
+              position: run.position,
+            });
+          }
+        } catch (restoreError) {
+          console.error(
+            `[Swap] Failed to put back tracks in ${playlistId}:`,
+            missing.map((swap) => swap.fromUri),
+            restoreError
+          );
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Group removed tracks into runs of consecutive positions (max 100 per request)
+   * Runs are in ascending position order, so re-inserting them one after the
+   * other puts every track back at its original index
+   */
+  private groupRemovedTracks(
+    removedTracks: NonNullable<OperationUndoData['removed_tracks']>
+  ): Array<{ playlistId: string; position: number; uris: string[] }> {
+    const sorted = [...removedTracks].sort(
+      (a, b) => a.playlist_id.localeCompare(b.playlist_id) || a.position - b.position
+    );
+    const groups: Array<{ playlistId: string; position: number; uris: string[] }> = [];
+
+    for (const track of sorted) {
+      const last = groups[groups.length - 1];
+      if (
+        last &&
+        last.playlistId === track.playlist_id &&
+        last.position + last.uris.length === track.position &&
+        last.uris.length < 100
+      ) {
+        last.uris.push(track.uri);
+      } else {
+        groups.push({ playlistId: track.playlist_id, position: track.position, uris: [track.uri] });
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Compute the track URIs of the source playlist that are not present
+   * in any of the subtracted playlists (source order is kept)
+   */
+  private async computeSubtract(
+    fromPlaylistId: string,
+    subtractPlaylistIds: string[]
+  ): Promise<{ sourceCount: number; resultUris: string[] }> {
+    const subtractUris = new Set<string>();
+    for (const playlistId of subtractPlaylistIds) {
+      const items = await this.trackCache.getPlaylistTracks(playlistId);
+      for (const item of items) {
+        if (item.track_uri) {
+          subtractUris.add(item.track_uri);
+        }
+      }
+    }
+
+    const sourceUris = (await this.trackCache.getPlaylistTracks(fromPlaylistId))
+      .map((item) => item.track_uri)
+      .filter((uri): uri is string => this.isValidTrackUri(uri));
+
+    return {
+      sourceCount: sourceUris.length,
+      resultUris: sourceUris.filter((uri) => !subtractUris.has(uri)),
+    };
+  }
+
+  /**
+   * Create a private playlist and add tracks to it
+   * When resuming from a checkpoint, the playlist created by the interrupted
+   * run is reused and only the batches that weren't added yet are sent
+   */
+  private async createPlaylistWithTracks(
+    name: string,
+    description: string,
+    uris: string[],
+    context?: OperationContext
+  ): Promise<string> {
+    const checkpoint = context?.checkpoint as PlaylistFillCheckpoint | null | undefined;
+
+    if (checkpoint?.playlistId) {
+      console.log(
+        `[Batch] Resuming ${checkpoint.playlistId} at ${checkpoint.addedCount}/${checkpoint.uris.length} tracks`
+      );
+      await this.addTracksInBatches(
+        checkpoint.playlistId,
+        checkpoint.uris,
+        context,
+        name,
+        checkpoint.addedCount
+      );
+      return checkpoint.playlistId;
+    }
+
+    const createResponse = await this.spotifyApi.createPlaylist(name, {
+      description,
+      public: false,
+    });
+
+    const playlistId = createResponse.body.id;
+    context?.saveCheckpoint({ playlistId, uris, addedCount: 0 });
+
+    await this.addTracksInBatches(playlistId, uris, context, name);
+    return playlistId;
+  }
+
+  /**
+   * Add tracks to a playlist in batches of 100 (Spotify API limit)
+   * Reports progress, checkpoints each batch and stops between batches when cancelled
+   */
+  private async addTracksInBatches(
+    playlistId: string,
+    uris: string[],
+    context?: OperationContext,
+    playlistName?: string,
+    startIndex = 0
+  ): Promise<void> {
+    const batchSize = 100;
+    const batches = Math.ceil(uris.length / batchSize);
+
+    for (let i = Math.floor(startIndex / batchSize); i < batches; i++) {
+      context?.throwIfCancelled();
+      context?.report('Adding tracks', i * batchSize, uris.length, playlistName);
+
+      const batch = uris.slice(i * batchSize, (i + 1) * batchSize);
+      console.log(`[Batch] Adding batch ${i + 1}/${batches} (${batch.length} tracks) to ${playlistId}`);
+      await this.spotifyApi.addTracksToPlaylist(playlistId, batch);
+      context?.saveCheckpoint({ addedCount: i * batchSize + batch.length });
+    }
+
+    context?.report('Adding tracks', uris.length, uris.length, playlistName);
+  }
+
+  private createEmptyPlan(): OperationPlan {
+    return {
+      playlistsToCreate: [],
+      playlistsToDelete: [],
+      tracksToAdd: [],
+      tracksToRemove: [],
+      duplicates: [],
+      replacements: [],
+      warnings: [],
+    };
+  }
+
+  private toPlannedTrack(item: PlaylistTrackItem): PlannedTrack {
+    return {
+      uri: item.track_uri,
+      name: item.name,
+      artist_name: item.artist_name,
+      album_name: item.album_name,
+      duration_ms: item.duration_ms,
+      position: item.position,
+    };
+  }
+
+  /**
+   * Search Spotify for replacements of an unlinked track and score them
+   * Searches by ISRC first (same recording), then by title and artist, for
+   * tracks playable in `market`
+   */
+  private async findReplacement(
+    item: PlaylistTrackItem,
+    match: RecoveryMatchOptions,
+    market: string
+  ): Promise<PlannedReplacement> {
+    const original = this.toPlannedTrack(item);
+    const trackName = item.name || 'Unknown';
+    const artistName = item.artist_name || 'Unknown';
+
+    console.log(`[Fix Broken Tracks] Attempting to recover: "${trackName}" by ${artistName}`);
+
+    if (trackName === 'Unknown' || artistName === 'Unknown') {
+      console.log(`[Fix Broken Tracks] Insufficient info, skipping`);
+      return {
+        original,
+        candidate: null,
+        score: 0,
+        reason: 'Insufficient metadata (track name or artist unknown)',
+      };
+    }
+
+    const queries = [`track:${trackName} artist:${artistName}`];
+    if (item.isrc) queries.unshift(`isrc:${item.isrc}`);
+
+    const results = new Map<string, SpotifyApi.TrackObjectFull>();
+    try {
+      for (const query of queries) {
+        const searchResponse = await this.spotifyApi.searchTracks(query, { limit: 10, market });
+        for (const track of searchResponse.body.tracks?.items || []) {
+          // The original URI is the unavailable track itself
+          if (
+            track.uri !== item.track_uri &&
+            track.linked_from?.uri !== item.track_uri &&
+            track.is_playable !== false
+          ) {
+            results.set(track.uri, track);
+          }
+        }
+      }
+    } catch (error) {
+      console.error(`[Fix Broken Tracks] Search failed:`, error);
+      return {
+        original,
+        candidate: null,
+        score: 0,
+        reason: `Search error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+
+    const originalArtists: string[] = JSON.parse(item.artists || '[]');
+    const alternatives: ScoredCandidate[] = Array.from(results.values())
+      .map((track) => ({
+        uri: track.uri,
+        name: track.name,
+        artist_name: track.artists[0]?.name || null,
+        album_name: track.album.name,
+        duration_ms: track.duration_ms,
+        score: scoreReplacement(
+          {
+            name: item.name,
+            artists: originalArtists.length > 0 ? originalArtists : [artistName],
+            album_name: item.album_name,
+            duration_ms: item.duration_ms,
+            isrc: item.isrc,
+          },
+          {
+            name: track.name,
+            artists: track.artists.map((artist) => artist.name),
+            album_name: track.album.name,
+            duration_ms: track.duration_ms,
+            isrc: track.external_ids?.isrc || null,
+          }
+        ),
+      }))
+      .filter((candidate) => candidate.score >= match.minScore)
+      .sort((a, b) => b.score - a.score);
+
+    if (alternatives.length === 0) {
+      console.log(`[Fix Broken Tracks] ✗ No close matches found (${results.size} results)`);
+      return {
+        original,
+        candidate: null,
+        score: 0,
+        reason: results.size > 0 ? 'No close match on Spotify' : 'No matches found on Spotify',
+      };
+    }
+
+    const { score, ...best } = alternatives[0];
+    const needsReview = score < match.autoAcceptScore;
+    console.log(
+      `[Fix Broken Tracks] ${needsReview ? '?' : '✓'} Best match: "${best.name}" by ${best.artist_name} (score: ${score})`
+    );
+
+    return {
+      original,
+      candidate: best,
+      score,
+      needsReview,
+      reason: needsReview ? 'Needs review' : undefined,
+      alternatives,
+    };
+  }
+
+  /**
+   * Check that a URI is a valid Spotify track URI (excludes local files and episodes)
+   */
+  private isValidTrackUri(uri: string | undefined | null): boolean {
+    return !!uri && uri.startsWith('spotify:track:') && uri.split(':').length === 3;
+  }
 }
@@ -5,24 +5,36 @@
  */
 
 import SpotifyWebApi from 'spotify-web-api-node';
-import type { LocalPlaylist } from '@shared/types';
+import type { SyncedPlaylist, SyncResult } from '@shared/types';
 import { PlaylistDatabase } from './database';
-import { SPOTIFY_API_LIMITS } from '@shared/constants';
+import { TrackCacheService } from './track-cache';
+import { OperationContext } from './operation-progress';
+import { LIKED_SONGS, SPOTIFY_API_LIMITS } from '@shared/constants';
+
+interface CurrentUser {
+  id: string;
+  display_name?: string;
+}
 
 export class PlaylistSyncService {
   constructor(
     private spotifyApi: SpotifyWebApi,
-    private database: PlaylistDatabase
+    private database: PlaylistDatabase,
+    private trackCache: TrackCacheService
   ) {}
 
   /**
    * Sync all playlists from Spotify to local database
+   * Only new playlists and playlists whose snapshot_id changed are written;
+   * playlists no longer in the library (unfollowed or deleted) are removed
+   * Liked Songs are synced alongside as a pseudo-playlist
    */
-  async syncAllPlaylists(): Promise<{ total: number; synced: number }> {
-    // Get current user ID for ownership checks
-    const currentUserId = await this.getCurrentUserId();
+  async syncAllPlaylists(): Promise<SyncResult> {
+    // Get current user for ownership checks
+    const currentUser = await this.getCurrentUser();
+    const currentUserId = currentUser.id;
 
-    let allPlaylists: LocalPlaylist[] = [];
+    let allPlaylists: SyncedPlaylist[] = [];
     let offset = 0;
     const limit = SPOTIFY_API_LIMITS.PLAYLISTS_PER_REQUEST;
     let hasMore = true;
@@ -51,14 +63,50 @@ export class PlaylistSyncService {
       hasMore = response.body.next !== null;
     }
 
-    // Store in database
+    allPlaylists.push(
+      this.convertToLocalPlaylist(await this.fetchLikedSongsMetadata(currentUser), currentUserId)
+    );
+
+    // Compare with cached snapshots
+    const cachedSnapshots = new Map(
+      this.database.getAllPlaylists().map((p) => [p.spotify_id, p.snapshot_id])
+    );
+    let added = 0;
+    let changed = 0;
+
     for (const playlist of allPlaylists) {
+      const cachedSnapshot = cachedSnapshots.get(playlist.spotify_id);
+
+      if (cachedSnapshot === undefined) {
+        added++;
+      } else if (cachedSnapshot !== playlist.snapshot_id) {
+        changed++;
+      } else {
+        continue;
+      }
+
       this.database.upsertPlaylist(playlist);
     }
 
+    // Remove playlists that were unfollowed or deleted remotely
+    const remoteIds = new Set(allPlaylists.map((p) => p.spotify_id));
+    let removed = 0;
+
+    for (const id of cachedSnapshots.keys()) {
+      if (!remoteIds.has(id)) {
+        this.database.deletePlaylist(id);
+        removed++;
+      }
+    }
+
+    console.log(`[Sync] ${added} added, ${changed} changed, ${removed} removed`);
+
     return {
       total: allPlaylists.length,
-      synced: allPlaylists.length,
+      synced: added + changed,
+      added,
+      changed,
+      removed,
     };
   }
 
@@ -66,8 +114,8 @@ export class PlaylistSyncService {
    * Sync detailed information for specific playlists
    */
   async syncPlaylistDetails(playlistIds: string[]): Promise<void> {
-    // Get current user ID for ownership checks
-    const currentUserId = await this.getCurrentUserId();
+    // Get current user for ownership checks
+    const currentUser = await this.getCurrentUser();
 
     // Fetch in batches to respect API limits
     const batches = this.chunkArray(playlistIds, SPOTIFY_API_LIMITS.MAX_CONCURRENT_REQUESTS);
@@ -76,40 +124,7 @@ export class PlaylistSyncService {
       await Promise.all(
         batch.map(async (id) => {
           try {
-            const response = await this.spotifyApi.getPlaylist(id);
-            const playlist = response.body;
-
-            // Calculate total duration and count unlinked tracks
-            let duration = 0;
-            let unlinkedCount = 0;
-            if (playlist.tracks.items) {
-              for (const item of playlist.tracks.items) {
-                // Check if track is unlinked/unavailable
-                // Track can be unlinked in several ways:
-                // 1. track is null
-                // 2. track.id is null (removed from catalog)
-                // 3. track.is_playable is false (regional restrictions or removed)
-                // 4. track.uri is missing
-                const isUnlinked =
-                  !item.track ||
-                  item.track.id === null ||
-                  item.track.is_playable === false ||
-                  !item.track.uri;
-
-                if (isUnlinked) {
-                  unlinkedCount++;
-                } else if (item.track && item.track.duration_ms) {
-                  duration += item.track.duration_ms;
-                }
-              }
-            }
-
-            const localPlaylist = this.convertToLocalPlaylist(
-              playlist,
-              currentUserId,
-              duration,
-              unlinkedCount
-            );
+            const localPlaylist = await this.fetchPlaylistDetails(id, currentUser);
             this.database.upsertPlaylist(localPlaylist);
           } catch (error) {
             console.error(`Failed to sync playlist ${id}:`, error);
@@ -120,34 +135,29 @@ export class PlaylistSyncService {
   }
 
   /**
-   * Background job to fetch playlist details slowly to avoid rate limiting
-   * Fetches playlists in small batches with delays between them
+   * Background job to fetch playlist details
+   * Fetches playlists in small batches; pacing is left to the request scheduler
    */
   async syncPlaylistDetailsBackground(
-    progressCallback?: (current: number, total: number) => void
+    context?: OperationContext
   ): Promise<{ total: number; synced: number; failed: number }> {
-    // Get all playlists from database
-    const allPlaylists = this.database.getAllPlaylists();
-
-    // Filter playlists that don't have duration data yet
-    const playlistsToSync = allPlaylists.filter((p) => p.duration_ms === 0);
+    // Only playlists that are new or changed since their tracks were cached
+    const playlistsToSync = this.database.getPlaylistsNeedingDetails();
 
     console.log(
       `[Background Sync] Starting background detail fetch for ${playlistsToSync.length} playlists`
     );
 
     if (playlistsToSync.length === 0) {
-      console.log('[Background Sync] All playlists already have duration data');
+      console.log('[Background Sync] All playlist details are up to date');
       return { total: 0, synced: 0, failed: 0 };
     }
 
-    const currentUserId = await this.getCurrentUserId();
+    const currentUser = await this.getCurrentUser();
     const playlistIds = playlistsToSync.map((p) => p.spotify_id);
 
-    // Process in small batches with delays (5 playlists per batch, 5 second delay)
-    // Increased delay to avoid Spotify rate limits
+    // Process in small batches so progress is reported regularly
     const BATCH_SIZE = 5;
-    const DELAY_MS = 5000;
 
     const batches = this.chunkArray(playlistIds, BATCH_SIZE);
     let synced = 0;
@@ -156,45 +166,15 @@ export class PlaylistSyncService {
     for (let i = 0; i < batches.length; i++) {
       const batch = batches[i];
 
+      // Stop between batches when cancelled or paused; a resumed run picks up
+      // the playlists that still need details
+      context?.throwIfCancelled();
+
       // Process batch
       await Promise.all(
         batch.map(async (id) => {
           try {
-            const response = await this.spotifyApi.getPlaylist(id);
-            const playlist = response.body;
-
-            // Calculate total duration and count unlinked tracks
-            let duration = 0;
-            let unlinkedCount = 0;
-            if (playlist.tracks.items) {
-              for (let trackIndex = 0; trackIndex < playlist.tracks.items.length; trackIndex++) {
-                const item = playlist.tracks.items[trackIndex];
-                // Check if track is unlinked/unavailable
-                // Track can be unlinked in several ways:
-                // 1. track is null
-                // 2. track.id is null (removed from catalog)
-                // 3. track.is_playable is false (regional restrictions or removed)
-                // 4. track.uri is missing
-                const isUnlinked =
-                  !item.track ||
-                  item.track.id === null ||
-                  item.track.is_playable === false ||
-                  !item.track.uri;
-
-                if (isUnlinked) {
-                  unlinkedCount++;
-                } else if (item.track && item.track.duration_ms) {
-                  duration += item.track.duration_ms;
-                }
-              }
-            }
-
-            const localPlaylist = this.convertToLocalPlaylist(
-              playlist,
-              currentUserId,
-              duration,
-              unlinkedCount
-            );
+            const localPlaylist = await this.fetchPlaylistDetails(id, currentUser);
             this.database.upsertPlaylist(localPlaylist);
             synced++;
           } catch (error) {
@@ -206,18 +186,16 @@ export class PlaylistSyncService {
 
       // Report progress
       const current = (i + 1) * BATCH_SIZE;
-      if (progressCallback) {
-        progressCallback(Math.min(current, playlistIds.length), playlistIds.length);
-      }
+      context?.report(
+        'Fetching playlist details',
+        Math.min(current, playlistIds.length),
+        playlistIds.length,
+        playlistsToSync[Math.min(current, playlistIds.length) - 1]?.name
+      );
 
       console.log(
         `[Background Sync] Progress: ${Math.min(current, playlistIds.length)}/${playlistIds.length}`
       );
-
-      // Delay between batches (except for the last one)
-      if (i < batches.length - 1) {
-        await this.delay(DELAY_MS);
-      }
     }
 
     console.log(
@@ -228,21 +206,88 @@ export class PlaylistSyncService {
   }
 
   /**
-   * Helper to delay execution
+   * Fetch playlist metadata and its full track list (via the track cache),
+   * compute total duration and unlinked count over all tracks and record
+   * the unlinked ones
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private async fetchPlaylistDetails(
+    id: string,
+    currentUser: CurrentUser
+  ): Promise<SyncedPlaylist> {
+    const playlist =
+      id === LIKED_SONGS.ID
+        ? await this.fetchLikedSongsMetadata(currentUser)
+        : (
+            await this.spotifyApi.getPlaylist(id, {
+              fields: 'id,name,owner(id,display_name),followers(total),tracks(total),snapshot_id',
+            })
+          ).body;
+
+    const items = await this.trackCache.getPlaylistTracks(id, playlist.snapshot_id);
+
+    let duration = 0;
+    let unlinkedCount = 0;
+    let firstAddedAt = '';
+    for (const item of items) {
+      if (item.is_unlinked) {
+        unlinkedCount++;
+      } else {
+        duration += item.duration_ms;
+      }
+      if (item.added_at && (!firstAddedAt || item.added_at < firstAddedAt)) {
+        firstAddedAt = item.added_at;
+      }
+    }
+
+    // Items without any track left can't be recovered or removed, so only
+    // the ones with a URI are recorded
+    const detectedAt = Date.now();
+    this.database.setUnlinkedTracks(
+      id,
+      items
+        .filter((item) => item.is_unlinked && item.track_uri)
+        .map((item) => ({
+          playlist_id: id,
+          track_uri: item.track_uri!,
+          track_name: item.name,
+          artist_name: item.artist_name,
+          detected_at: detectedAt,
+        }))
+    );
+
+    // Spotify has no creation date, the first track added is the closest to it
+    return {
+      ...this.convertToLocalPlaylist(playlist, currentUser.id, duration, unlinkedCount),
+      created_at: id === LIKED_SONGS.ID ? '' : firstAddedAt,
+    };
+  }
+
+  /**
+   * Describe Liked Songs in the shape of a Spotify playlist
+   */
+  private async fetchLikedSongsMetadata(currentUser: CurrentUser) {
+    const { total, snapshotId } = await this.trackCache.fetchLikedSongsSummary();
+
+    return {
+      id: LIKED_SONGS.ID,
+      name: LIKED_SONGS.NAME,
+      owner: currentUser,
+      tracks: { total },
+      snapshot_id: snapshotId,
+    };
   }
 
   /**
    * Convert Spotify playlist to local format
+   * Duration and unlinked count are left undefined when they weren't
+   * computed, so the cached values are kept on upsert
    */
   private convertToLocalPlaylist(
     spotifyPlaylist: any,
     currentUserId: string,
     duration?: number,
     unlinkedCount?: number
-  ): LocalPlaylist {
+  ): SyncedPlaylist {
     const isOwner = spotifyPlaylist.owner?.id === currentUserId;
 
     return {
@@ -250,15 +295,14 @@ export class PlaylistSyncService {
       name: spotifyPlaylist.name,
       owner: spotifyPlaylist.owner?.display_name || spotifyPlaylist.owner?.id || 'Unknown',
       track_count: spotifyPlaylist.tracks?.total || 0,
-      duration_ms: duration || 0,
-      followers: spotifyPlaylist.followers?.total || 0,
+      duration_ms: duration,
+      followers: spotifyPlaylist.followers?.total,
       is_owner: isOwner,
-      created_at: '', // Spotify doesn't provide this
+      created_at: '', // Spotify doesn't provide this, estimated when details are fetched
       modified_at: '', // Will use snapshot_id to detect changes
-      tags: '',
       last_synced: Date.now(),
       snapshot_id: spotifyPlaylist.snapshot_id,
-      unlinked_count: unlinkedCount || 0,
+      unlinked_count: unlinkedCount,
     };
   }
 
@@ -266,8 +310,15 @@ export class PlaylistSyncService {
    * Get current user ID
    */
   async getCurrentUserId(): Promise<string> {
+    return (await this.getCurrentUser()).id;
+  }
+
+  /**
+   * Get current user ID and display name
+   */
+  private async getCurrentUser(): Promise<CurrentUser> {
     const response = await this.spotifyApi.getMe();
-    return response.body.id;
+    return { id: response.body.id, display_name: response.body.display_name };
   }
 
   /**
@@ -6,7 +6,33 @@
  */
 
 import { contextBridge, ipcRenderer } from 'electron';
-import type { ApiResponse } from '@shared/types';
+import type {
+  ApiResponse,
+  AppSettings,
+  BrokenTrackRecoveryOptions,
+  DryRunRequest,
+  DuplicateMatchOptions,
+  DuplicateRemovalOptions,
+  IntersectConfig,
+  Job,
+  LibraryUnlinkedTrack,
+  MarketAvailabilityReport,
+  OperationHistory,
+  OperationHistoryFilter,
+  OperationPlan,
+  OperationProgress,
+  OverlapReport,
+  OverlapReportOptions,
+  RenameConfig,
+  PlannedTrack,
+  RequestSchedulerState,
+  SmartPlaylist,
+  SmartPlaylistRules,
+  SmartPlaylistUpdateResult,
+  SubtractConfig,
+  SubtractPreview,
+  SyncResult,
+} from '@shared/types';
 
 // Define the API that will be exposed to the renderer
 const api = {
@@ -27,13 +53,106 @@ const api = {
   spotify: {
     getUserPlaylists: (): Promise<ApiResponse<any>> =>
       ipcRenderer.invoke('spotify:get-user-playlists'),
+    getSchedulerState: (): Promise<ApiResponse<RequestSchedulerState>> =>
+      ipcRenderer.invoke('spotify:get-scheduler-state'),
+    onSchedulerState: (callback: (state: RequestSchedulerState) => void): (() => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, state: RequestSchedulerState) =>
+        callback(state);
+      ipcRenderer.on('spotify:scheduler-state', listener);
+      return () => ipcRenderer.removeListener('spotify:scheduler-state', listener);
+    },
     // Add more methods as implemented
   },
 
+  // Long-running operation progress
+  operations: {
+    onProgress: (callback: (progress: OperationProgress) => void): (() => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, progress: OperationProgress) =>
+        callback(progress);
+      ipcRenderer.on('operation:progress', listener);
+      return () => ipcRenderer.removeListener('operation:progress', listener);
+    },
+    cancel: (jobId: string): Promise<ApiResponse<{ cancelled: boolean }>> =>
+      ipcRenderer.invoke('operation:cancel', jobId),
+  },
+
+  // Persistent job queue
+  jobs: {
+    list: (): Promise<ApiResponse<Job[]>> => ipcRenderer.invoke('jobs:list'),
+    pause: (jobId: number): Promise<ApiResponse<void>> => ipcRenderer.invoke('jobs:pause', jobId),
+    resume: (jobId: number): Promise<ApiResponse<void>> =>
+      ipcRenderer.invoke('jobs:resume', jobId),
+    retry: (jobId: number): Promise<ApiResponse<void>> => ipcRenderer.invoke('jobs:retry', jobId),
+    remove: (jobId: number): Promise<ApiResponse<void>> =>
+      ipcRenderer.invoke('jobs:remove', jobId),
+    onUpdated: (callback: () => void): (() => void) => {
+      const listener = () => callback();
+      ipcRenderer.on('jobs:updated', listener);
+      return () => ipcRenderer.removeListener('jobs:updated', listener);
+    },
+  },
+
+  // Operation history
+  history: {
+    list: (filter: OperationHistoryFilter): Promise<ApiResponse<OperationHistory[]>> =>
+      ipcRenderer.invoke('history:list', filter),
+    export: (
+      filter: OperationHistoryFilter,
+      format: 'csv' | 'json'
+    ): Promise<ApiResponse<{ filePath: string | null; count: number }>> =>
+      ipcRenderer.invoke('history:export', filter, format),
+    getLastUndoable: (): Promise<ApiResponse<OperationHistory | null>> =>
+      ipcRenderer.invoke('history:get-last-undoable'),
+    undo: (operationId: number): Promise<ApiResponse<{ failed: string[] }>> =>
+      ipcRenderer.invoke('history:undo', operationId),
+  },
+
+  // Unlinked tracks recorded by sync
+  unlinked: {
+    list: (): Promise<ApiResponse<LibraryUnlinkedTrack[]>> => ipcRenderer.invoke('unlinked:list'),
+    export: (): Promise<ApiResponse<{ filePath: string | null; count: number }>> =>
+      ipcRenderer.invoke('unlinked:export'),
+  },
+
+  // App settings
+  settings: {
+    get: (): Promise<ApiResponse<{ settings: AppSettings; databasePath: string }>> =>
+      ipcRenderer.invoke('settings:get'),
+    update: (
+      changes: Partial<AppSettings>
+    ): Promise<ApiResponse<{ settings: AppSettings; restartRequired: boolean }>> =>
+      ipcRenderer.invoke('settings:update', changes),
+    chooseDatabasePath: (): Promise<ApiResponse<{ filePath: string | null }>> =>
+      ipcRenderer.invoke('settings:choose-database-path'),
+  },
+
+  // Market used for playability checks
+  market: {
+    get: (): Promise<ApiResponse<{ market: string; setting: string | null }>> =>
+      ipcRenderer.invoke('market:get'),
+  },
+
+  // Smart playlists
+  smartPlaylists: {
+    list: (): Promise<ApiResponse<SmartPlaylist[]>> => ipcRenderer.invoke('smart:list'),
+    save: (input: {
+      id?: number;
+      name: string;
+      rules: SmartPlaylistRules;
+    }): Promise<ApiResponse<SmartPlaylist>> => ipcRenderer.invoke('smart:save', input),
+    delete: (id: number, deletePlaylist: boolean): Promise<ApiResponse<void>> =>
+      ipcRenderer.invoke('smart:delete', id, deletePlaylist),
+    update: (ids?: number[]): Promise<ApiResponse<SmartPlaylistUpdateResult[]>> =>
+      ipcRenderer.invoke('smart:update', ids),
+    preview: (
+      rules: SmartPlaylistRules
+    ): Promise<ApiResponse<{ trackCount: number; tracks: PlannedTrack[] }>> =>
+      ipcRenderer.invoke('smart:preview', rules),
+  },
+
   // Playlist operations
   playlists: {
-    sync: (): Promise<ApiResponse<{ total: number; synced: number }>> =>
-      ipcRenderer.invoke('playlist:sync'),
+    sync: (): Promise<ApiResponse<SyncResult>> => ipcRenderer.invoke('playlist:sync'),
     syncDetailsBackground: (): Promise<
       ApiResponse<{ total: number; synced: number; failed: number }>
     > => ipcRenderer.invoke('playlist:sync-details-background'),
@@ -49,24 +168,71 @@ const api = {
       append: boolean
     ): Promise<ApiResponse<{ updated: number }>> =>
       ipcRenderer.invoke('playlist:update-tags', playlistIds, tags, append),
+    renameBulk: (
+      playlistIds: string[],
+      config: RenameConfig
+    ): Promise<ApiResponse<{ renamed: number; skipped: number; failed: string[] }>> =>
+      ipcRenderer.invoke('playlist:rename-bulk', playlistIds, config),
     merge: (
       playlistIds: string[],
       targetName: string,
       removeDuplicates: boolean,
-      deleteSource: boolean
+      deleteSource: boolean,
+      duplicateMatch?: DuplicateMatchOptions
     ): Promise<ApiResponse<{ playlistId: string; trackCount: number }>> =>
-      ipcRenderer.invoke('playlist:merge', playlistIds, targetName, removeDuplicates, deleteSource),
+      ipcRenderer.invoke(
+        'playlist:merge',
+        playlistIds,
+        targetName,
+        removeDuplicates,
+        deleteSource,
+        duplicateMatch
+      ),
     fixBrokenLinks: (
-      playlistId: string
+      playlistId: string,
+      options: BrokenTrackRecoveryOptions = {}
     ): Promise<ApiResponse<{ playlistId: string; total: number; recovered: number; failed: number }>> =>
-      ipcRenderer.invoke('playlist:fix-broken-links', playlistId),
+      ipcRenderer.invoke('playlist:fix-broken-links', playlistId, options),
     removeDuplicates: (
-      playlistId: string
+      playlistId: string,
+      options: DuplicateRemovalOptions = {}
     ): Promise<ApiResponse<{ playlistId: string; originalCount: number; uniqueCount: number; duplicatesRemoved: number }>> =>
-      ipcRenderer.invoke('playlist:remove-duplicates', playlistId),
+      ipcRenderer.invoke('playlist:remove-duplicates', playlistId, options),
+    dryRun: (request: DryRunRequest): Promise<ApiResponse<OperationPlan>> =>
+      ipcRenderer.invoke('playlist:dry-run', request),
+    overlapReport: (options?: OverlapReportOptions): Promise<ApiResponse<OverlapReport>> =>
+      ipcRenderer.invoke('playlist:overlap-report', options),
+    likeTracks: (
+      playlistIds: string[]
+    ): Promise<ApiResponse<{ liked: number; alreadyLiked: number }>> =>
+      ipcRenderer.invoke('playlist:like-tracks', playlistIds),
+    unlikeTracks: (playlistId: string): Promise<ApiResponse<{ unliked: number }>> =>
+      ipcRenderer.invoke('playlist:unlike-tracks', playlistId),
+    checkMarket: (
+      playlistId: string,
+      targetMarket: string
+    ): Promise<ApiResponse<MarketAvailabilityReport>> =>
+      ipcRenderer.invoke('playlist:check-market', playlistId, targetMarket),
+    removeUnlinked: (playlistId: string): Promise<ApiResponse<{ removed: number }>> =>
+      ipcRenderer.invoke('playlist:remove-unlinked', playlistId),
+    exportCsv: (
+      playlistId: string
+    ): Promise<ApiResponse<{ filePath: string | null; count: number }>> =>
+      ipcRenderer.invoke('playlist:export-csv', playlistId),
+    previewSubtract: (
+      fromPlaylistId: string,
+      subtractPlaylistIds: string[]
+    ): Promise<ApiResponse<SubtractPreview>> =>
+      ipcRenderer.invoke('playlist:subtract-preview', fromPlaylistId, subtractPlaylistIds),
+    subtract: (
+      config: SubtractConfig
+    ): Promise<ApiResponse<{ playlistId: string; trackCount: number; removedCount: number }>> =>
+      ipcRenderer.invoke('playlist:subtract', config),
+    intersect: (
+      config: IntersectConfig
+    ): Promise<ApiResponse<{ playlistId: string; trackCount: number }>> =>
+      ipcRenderer.invoke('playlist:intersect', config),
     // TODO: Add more playlist operation methods
-    // subtract: (config: SubtractConfig) => ipcRenderer.invoke('playlist:subtract', config),
-    // intersect: (config: IntersectConfig) => ipcRenderer.invoke('playlist:intersect', config),
     // etc.
   },
 };
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import SpotifyWebApi from 'spotify-web-api-node';
+import { SPOTIFY_API_LIMITS } from '@shared/constants';
+import { SpotifyRequestScheduler, createScheduledSpotifyApi } from './request-scheduler';
+
+function rateLimitError(retryAfterSeconds: number) {
+  return { statusCode: 429, headers: { 'retry-after': String(retryAfterSeconds) } };
+}
+
+describe('SpotifyRequestScheduler', () => {
+  let scheduler: SpotifyRequestScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter, so retry delays are exact
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    scheduler = new SpotifyRequestScheduler();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('waits for Retry-After before retrying a rate limited request', async () => {
+    const request = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimitError(5))
+      .mockResolvedValueOnce('ok');
+
+    const result = scheduler.schedule(request);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState().backoffUntil).toBe(Date.now() + 5000);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(scheduler.getState().backoffUntil).toBeNull();
+  });
+
+  it('pauses other queued requests during the backoff', async () => {
+    const limited = vi.fn().mockRejectedValueOnce(rateLimitError(5)).mockResolvedValueOnce('ok');
+    const other = vi.fn().mockResolvedValue('other');
+
+    scheduler.schedule(limited);
+    await vi.advanceTimersByTimeAsync(0);
+    const result = scheduler.schedule(other);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(other).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await expect(result).resolves.toBe('other');
+  });
+
+  it('rejects once the retries are used up', async () => {
+    const error = { statusCode: 503 };
+    const request = vi.fn().mockRejectedValue(error);
+
+    const result = scheduler.schedule(request);
+    const assertion = expect(result).rejects.toBe(error);
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(request).toHaveBeenCalledTimes(SPOTIFY_API_LIMITS.MAX_RETRIES + 1);
+  });
+
+  it('passes a Retry-After over the cap through without retrying', async () => {
+    const error = rateLimitError(SPOTIFY_API_LIMITS.MAX_RETRY_AFTER_MS / 1000 + 1);
+    const request = vi.fn().mockRejectedValue(error);
+
+    const result = scheduler.schedule(request);
+    const assertion = expect(result).rejects.toBe(error);
+    await vi.advanceTimersByTimeAsync(0);
+
+    await assertion;
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const error = { statusCode: 404 };
+    const request = vi.fn().mockRejectedValue(error);
+
+    await expect(scheduler.schedule(request)).rejects.toBe(error);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends a burst, then refills tokens at the configured rate', async () => {
+    const request = vi.fn().mockResolvedValue('ok');
+
+    for (let i = 0; i < SPOTIFY_API_LIMITS.BURST_SIZE + 1; i++) {
+      scheduler.schedule(request);
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(SPOTIFY_API_LIMITS.BURST_SIZE);
+
+    await vi.advanceTimersByTimeAsync(1000 / SPOTIFY_API_LIMITS.REQUESTS_PER_SECOND);
+    expect(request).toHaveBeenCalledTimes(SPOTIFY_API_LIMITS.BURST_SIZE + 1);
+  });
+});
+
+describe('createScheduledSpotifyApi', () => {
+  it('schedules request methods and passes credential methods through', async () => {
+    const scheduler = new SpotifyRequestScheduler();
+    const schedule = vi.spyOn(scheduler, 'schedule');
+    const spotifyApi = new SpotifyWebApi();
+    vi.spyOn(spotifyApi, 'getMe').mockResolvedValue({ body: { id: 'dj' } } as never);
+
+    const scheduled = createScheduledSpotifyApi(spotifyApi, scheduler);
+    scheduled.setAccessToken('token');
+    expect(schedule).not.toHaveBeenCalled();
+    expect(spotifyApi.getAccessToken()).toBe('token');
+
+    await expect(scheduled.getMe()).resolves.toEqual({ body: { id: 'dj' } });
+    expect(schedule).toHaveBeenCalledTimes(1);
+  });
+});
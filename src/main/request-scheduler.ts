@@ -0,0 +1,207 @@
+/**
+ * Spotify request scheduler
+ *
+ * Single gateway for every Spotify Web API request:
+ * - Concurrency limit
+ * - Token bucket rate limiting
+ * - Automatic retry on 429 (honouring Retry-After) and 5xx, with jitter
+ */
+
+import SpotifyWebApi from 'spotify-web-api-node';
+import type { RequestSchedulerState } from '@shared/types';
+import { SPOTIFY_API_LIMITS } from '@shared/constants';
+import { checkRateLimit } from './rate-limit-handler';
+
+interface QueuedRequest {
+  run: () => Promise<void>;
+}
+
+// Methods that only touch local credentials and never hit the network
+const CREDENTIAL_METHODS =
+  /^((get|set|reset)(Credentials|ClientId|ClientSecret|AccessToken|RefreshToken|RedirectURI)|createAuthorizeURL)$/;
+
+export class SpotifyRequestScheduler {
+  private queue: QueuedRequest[] = [];
+  private active = 0;
+  private tokens: number = SPOTIFY_API_LIMITS.BURST_SIZE;
+  private lastRefill = Date.now();
+  private backoffUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(state: RequestSchedulerState) => void>();
+
+  /**
+   * Schedule a request, retrying it on rate limit and server errors
+   */
+  async schedule<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.enqueue(request);
+      } catch (error) {
+        const retryDelayMs = this.getRetryDelay(error, attempt);
+        if (retryDelayMs === null) {
+          throw error;
+        }
+
+        if (checkRateLimit(error).isRateLimited) {
+          // Pause the whole queue, not just this request
+          this.backoffUntil = Math.max(this.backoffUntil, Date.now() + retryDelayMs);
+          console.warn(
+            `[Scheduler] Rate limited, pausing requests for ${Math.ceil(retryDelayMs / 1000)}s`
+          );
+          this.emitState();
+        } else {
+          console.warn(`[Scheduler] Request failed, retrying in ${retryDelayMs}ms`);
+          await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+        }
+      }
+    }
+  }
+
+  /**
+   * Current queue depth and backoff state
+   */
+  getState(): RequestSchedulerState {
+    return {
+      queueDepth: this.queue.length,
+      active: this.active,
+      backoffUntil: this.backoffUntil > Date.now() ? this.backoffUntil : null,
+    };
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  onStateChange(listener: (state: RequestSchedulerState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private enqueue<T>(request: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ run: () => request().then(resolve, reject) });
+      this.pump();
+    });
+  }
+
+  /**
+   * Start as many queued requests as the concurrency limit, token bucket
+   * and backoff allow; schedules itself again when it has to wait
+   */
+  private pump(): void {
+    if (this.timer) {
+      this.emitState();
+      return;
+    }
+
+    while (this.queue.length > 0 && this.active < SPOTIFY_API_LIMITS.MAX_CONCURRENT_REQUESTS) {
+      const now = Date.now();
+
+      if (now < this.backoffUntil) {
+        this.wait(this.backoffUntil - now);
+        break;
+      }
+
+      this.refillTokens(now);
+      if (this.tokens < 1) {
+        this.wait(((1 - this.tokens) / SPOTIFY_API_LIMITS.REQUESTS_PER_SECOND) * 1000);
+        break;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      const next = this.queue.shift()!;
+      next.run().finally(() => {
+        this.active--;
+        this.pump();
+      });
+    }
+
+    this.emitState();
+  }
+
+  private wait(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.ceil(ms));
+  }
+
+  private refillTokens(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      SPOTIFY_API_LIMITS.BURST_SIZE,
+      this.tokens + elapsedSeconds * SPOTIFY_API_LIMITS.REQUESTS_PER_SECOND
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Delay before retrying, or null if the error shouldn't be retried
+   */
+  private getRetryDelay(error: any, attempt: number): number | null {
+    if (attempt >= SPOTIFY_API_LIMITS.MAX_RETRIES) {
+      return null;
+    }
+
+    const exponentialMs = SPOTIFY_API_LIMITS.RATE_LIMIT_RETRY_MS * 2 ** attempt;
+    const rateLimitInfo = checkRateLimit(error);
+
+    if (rateLimitInfo.isRateLimited) {
+      const retryAfterMs = rateLimitInfo.retryAfterSeconds
+        ? rateLimitInfo.retryAfterSeconds * 1000
+        : exponentialMs;
+
+      // Very long bans won't clear in a retry loop: let the caller report them
+      if (retryAfterMs > SPOTIFY_API_LIMITS.MAX_RETRY_AFTER_MS) {
+        return null;
+      }
+      return this.withJitter(retryAfterMs);
+    }
+
+    if (error?.statusCode >= 500) {
+      return this.withJitter(exponentialMs);
+    }
+
+    return null;
+  }
+
+  /**
+   * Add up to 20% random jitter so parallel retries don't fire together
+   */
+  private withJitter(ms: number): number {
+    return Math.round(ms * (1 + Math.random() * 0.2));
+  }
+
+  private emitState(): void {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+}
+
+/**
+ * Wrap a SpotifyWebApi instance so every request method goes through the scheduler
+ * Credential getters/setters are passed through untouched
+ */
+export function createScheduledSpotifyApi(
+  spotifyApi: SpotifyWebApi,
+  scheduler: SpotifyRequestScheduler
+): SpotifyWebApi {
+  return new Proxy(spotifyApi, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      if (typeof value !== 'function' || typeof prop !== 'string') {
+        return value;
+      }
+
+      // Bound to the wrapped instance, so the private helpers they call aren't scheduled
+      if (CREDENTIAL_METHODS.test(prop)) {
+        return value.bind(target);
+      }
+
+      return (...args: unknown[]) => scheduler.schedule(() => value.apply(target, args));
+    },
+  });
+}
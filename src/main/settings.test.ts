@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS } from '@shared/constants';
+import type { Platform, SecureStore } from './platform';
+import { SETTINGS_SCHEMA_VERSION, SettingsStore, getDatabasePath } from './settings';
+
+/**
+ * Platform keeping stores in memory, so tests share nothing with the app
+ */
+function createMemoryPlatform(): Platform & { values: Map<string, Record<string, unknown>> } {
+  const values = new Map<string, Record<string, unknown>>();
+
+  return {
+    values,
+    getPath: () => '/data',
+    openExternal: async () => {},
+    showSaveDialog: async () => null,
+    createSecureStore<T extends Record<string, unknown>>(name: string): SecureStore<T> {
+      const data = values.get(name) ?? {};
+      values.set(name, data);
+      return {
+        get: (key) => data[key as string] as T[typeof key] | undefined,
+        set: (key, value) => {
+          data[key as string] = value;
+        },
+        delete: (key) => {
+          delete data[key as string];
+        },
+      };
+    },
+  };
+}
+
+describe('SettingsStore', () => {
+  let platform: ReturnType<typeof createMemoryPlatform>;
+
+  beforeEach(() => {
+    platform = createMemoryPlatform();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('starts from the defaults', () => {
+    expect(new SettingsStore(platform).getAll()).toEqual(DEFAULT_SETTINGS);
+    expect(platform.values.get('settings')).toEqual({ schemaVersion: SETTINGS_SCHEMA_VERSION });
+  });
+
+  it('saves valid changes', () => {
+    new SettingsStore(platform).update({ compactMode: true, market: 'JP' });
+
+    const reloaded = new SettingsStore(platform);
+    expect(reloaded.get('compactMode')).toBe(true);
+    expect(reloaded.get('market')).toBe('JP');
+  });
+
+  it('saves nothing when a change is invalid', () => {
+    const settings = new SettingsStore(platform);
+
+    expect(() => settings.update({ compactMode: true, market: 'Japan' })).toThrow(
+      'Market must be a two-letter country code'
+    );
+    expect(settings.getAll()).toEqual(DEFAULT_SETTINGS);
+    expect(new SettingsStore(platform).get('compactMode')).toBe(false);
+  });
+
+  it('falls back to the default for invalid or unknown stored values', () => {
+    platform.values.set('settings', {
+      schemaVersion: SETTINGS_SCHEMA_VERSION,
+      autoSyncInterval: -5,
+      showDuration: 'no',
+      theme: 'dark',
+      compactMode: true,
+    });
+
+    const settings = new SettingsStore(platform).getAll();
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, compactMode: true });
+    expect(settings).not.toHaveProperty('theme');
+  });
+
+  it('migrates a market stored as entered by version 0', () => {
+    platform.values.set('settings', { market: ' jp ' });
+    expect(new SettingsStore(platform).get('market')).toBe('JP');
+
+    platform.values.set('settings', { market: '  ' });
+    expect(new SettingsStore(platform).get('market')).toBeNull();
+  });
+});
+
+describe('getDatabasePath', () => {
+  it('uses the database location setting, else the userData folder', () => {
+    const platform = createMemoryPlatform();
+    const settings = new SettingsStore(platform);
+    expect(getDatabasePath(platform, settings)).toMatch(/^[\\/]data[\\/].+\.db$/);
+
+    settings.update({ databasePath: '/music/playlists.db' });
+    expect(getDatabasePath(platform, settings)).toBe('/music/playlists.db');
+  });
+});
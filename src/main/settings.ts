@@ -0,0 +1,113 @@
+/**
+ * Persistent app settings, stored in the userData folder
+ *
+ * Shared by the desktop app and the CLI utilities through the platform
+ * adapter, so both use the same database and market. Values are validated
+ * on every write and again on load, since the file can be edited by hand.
+ */
+
+import { join } from 'path';
+import type { AppSettings } from '@shared/types';
+import { DB_CONFIG, DEFAULT_SETTINGS } from '@shared/constants';
+import { SettingKey, isSettingKey, validateSettings } from '@shared/settings';
+import { Platform, SecureStore } from './platform';
+
+// Bump when stored settings need converting, and add a step to MIGRATIONS
+export const SETTINGS_SCHEMA_VERSION = 1;
+
+// Stored values are unchecked until loaded
+type StoredSettings = { [K in SettingKey]?: unknown } & { schemaVersion?: number };
+
+/**
+ * Steps converting stored settings from the version they're keyed by to the next
+ */
+const MIGRATIONS: Record<number, (stored: SecureStore<StoredSettings>) => void> = {
+  // Version 0 only stored the market, as entered
+  0: (stored) => {
+    const market = stored.get('market');
+    if (typeof market === 'string') {
+      stored.set('market', market.trim().toUpperCase() || null);
+    }
+  },
+};
+
+export class SettingsStore {
+  private store: SecureStore<StoredSettings>;
+  private settings: AppSettings;
+
+  constructor(platform: Platform) {
+    this.store = platform.createSecureStore<StoredSettings>('settings');
+    this.migrate();
+    this.settings = this.load();
+  }
+
+  getAll(): AppSettings {
+    return { ...this.settings };
+  }
+
+  get<K extends SettingKey>(key: K): AppSettings[K] {
+    return this.settings[key];
+  }
+
+  /**
+   * Validate and save changed settings, returns the updated settings
+   * Nothing is saved when any value is invalid
+   */
+  update(changes: Partial<AppSettings>): AppSettings {
+    const errors = validateSettings(changes);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (isSettingKey(key)) {
+        this.store.set(key, value);
+      }
+    }
+    this.settings = { ...this.settings, ...changes };
+
+    return this.getAll();
+  }
+
+  private migrate(): void {
+    let version = this.store.get('schemaVersion') ?? 0;
+
+    while (version < SETTINGS_SCHEMA_VERSION) {
+      console.log(`[Settings] Migrating settings from version ${version}`);
+      MIGRATIONS[version]?.(this.store);
+      version++;
+    }
+
+    this.store.set('schemaVersion', version);
+  }
+
+  /**
+   * Read stored settings over the defaults
+   * Invalid values are reported and replaced by their default
+   */
+  private load(): AppSettings {
+    const settings: AppSettings = { ...DEFAULT_SETTINGS };
+
+    for (const key of Object.keys(DEFAULT_SETTINGS) as SettingKey[]) {
+      const value = this.store.get(key);
+      if (value === undefined) continue;
+
+      const errors = validateSettings({ [key]: value });
+      if (errors.length > 0) {
+        console.warn(`[Settings] Ignoring stored value: ${errors[0]}`);
+        continue;
+      }
+      Object.assign(settings, { [key]: value });
+    }
+
+    return settings;
+  }
+}
+
+/**
+ * Where the database is opened: the database location setting, else the
+ * default file in the userData folder
+ */
+export function getDatabasePath(platform: Platform, settings: SettingsStore): string {
+  return settings.get('databasePath') || join(platform.getPath('userData'), DB_CONFIG.DB_NAME);
+}
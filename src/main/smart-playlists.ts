@@ -0,0 +1,360 @@
+/**
+ * Smart playlist service
+ *
+ * Evaluates smart playlist rules against the cached tracks of their source
+ * playlists and keeps an owned Spotify playlist in line with the result.
+ * Updates are applied as a diff (remove, insert, move) so unchanged tracks
+ * keep their added_at dates and the playlist isn't rewritten every sync.
+ */
+
+import SpotifyWebApi from 'spotify-web-api-node';
+import type {
+  PlannedTrack,
+  PlaylistTrackItem,
+  SmartCondition,
+  SmartPlaylist,
+  SmartPlaylistRules,
+  SmartPlaylistUpdateResult,
+} from '@shared/types';
+import { parseSmartRules, validateSmartRules } from '@shared/smart-playlists';
+import { PlaylistDatabase } from './database';
+import { TrackCacheService } from './track-cache';
+import { OperationContext } from './operation-progress';
+import { addTracksAt, applyPlaylistDiff } from './playlist-diff';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class SmartPlaylistService {
+  constructor(
+    private spotifyApi: SpotifyWebApi,
+    private database: PlaylistDatabase,
+    private trackCache: TrackCacheService
+  ) {}
+
+  /**
+   * Create or update a smart playlist definition
+   * Renaming also renames the materialized Spotify playlist
+   */
+  async save(input: { id?: number; name: string; rules: SmartPlaylistRules }): Promise<SmartPlaylist> {
+    const error = validateSmartRules(input.name, input.rules);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const name = input.name.trim();
+    const rules = JSON.stringify(input.rules);
+
+    if (input.id === undefined) {
+      const created = this.database.createSmartPlaylist({ name, rules });
+      console.log(`[Smart Playlists] Created "${name}" (#${created.id})`);
+      return created;
+    }
+
+    const existing = this.database.getSmartPlaylist(input.id);
+    if (!existing) {
+      throw new Error('Smart playlist not found');
+    }
+
+    if (existing.spotify_id && existing.name !== name) {
+      await this.spotifyApi.changePlaylistDetails(existing.spotify_id, { name });
+      this.database.updateName(existing.spotify_id, name);
+    }
+
+    this.database.updateSmartPlaylist(input.id, { name, rules });
+    console.log(`[Smart Playlists] Updated "${name}" (#${input.id})`);
+    return this.database.getSmartPlaylist(input.id)!;
+  }
+
+  /**
+   * Delete a smart playlist definition, optionally unfollowing its Spotify playlist
+   */
+  async delete(id: number, deletePlaylist: boolean): Promise<void> {
+    const smartPlaylist = this.database.getSmartPlaylist(id);
+    if (!smartPlaylist) return;
+
+    if (deletePlaylist && smartPlaylist.spotify_id) {
+      await this.spotifyApi.unfollowPlaylist(smartPlaylist.spotify_id);
+      this.database.deletePlaylist(smartPlaylist.spotify_id);
+    }
+
+    this.database.deleteSmartPlaylist(id);
+    console.log(`[Smart Playlists] Deleted "${smartPlaylist.name}" (#${id})`);
+  }
+
+  /**
+   * Evaluate rules without changing anything
+   */
+  async preview(rules: SmartPlaylistRules): Promise<{ trackCount: number; tracks: PlannedTrack[] }> {
+    const items = await this.computeTracks(rules);
+
+    return {
+      trackCount: items.length,
+      tracks: items.slice(0, 50).map((item) => ({
+        uri: item.track_uri,
+        name: item.name,
+        artist_name: item.artist_name,
+        album_name: item.album_name,
+        duration_ms: item.duration_ms,
+      })),
+    };
+  }
+
+  /**
+   * Re-compute smart playlists (all of them when no IDs are given)
+   * Each one is updated independently; failures are stored on the definition
+   */
+  async updateSmartPlaylists(
+    ids?: number[],
+    context?: OperationContext
+  ): Promise<SmartPlaylistUpdateResult[]> {
+    const smartPlaylists = this.database
+      .getSmartPlaylists()
+      .filter((smartPlaylist) => !ids || ids.includes(smartPlaylist.id));
+    const results: SmartPlaylistUpdateResult[] = [];
+
+    console.log(`[Smart Playlists] Updating ${smartPlaylists.length} smart playlists`);
+
+    for (let index = 0; index < smartPlaylists.length; index++) {
+      const smartPlaylist = smartPlaylists[index];
+      context?.throwIfCancelled();
+      context?.report('Updating smart playlists', index, smartPlaylists.length, smartPlaylist.name);
+
+      try {
+        const result = await this.materialize(smartPlaylist, context);
+        this.database.updateSmartPlaylist(smartPlaylist.id, {
+          spotify_id: result.spotifyId,
+          last_updated: Date.now(),
+          last_error: null,
+        });
+        results.push(result);
+
+        console.log(
+          `[Smart Playlists] "${smartPlaylist.name}": ${result.trackCount} tracks ` +
+            `(+${result.added} -${result.removed}, ${result.moved} moved)`
+        );
+      } catch (error) {
+        // Cancellation stops the whole run
+        if (context?.cancelled) throw error;
+
+        const message = error instanceof Error ? error.message : 'Failed to update';
+        console.error(`[Smart Playlists] Failed to update "${smartPlaylist.name}":`, error);
+        this.database.updateSmartPlaylist(smartPlaylist.id, { last_error: message });
+        results.push({
+          id: smartPlaylist.id,
+          spotifyId: smartPlaylist.spotify_id,
+          trackCount: 0,
+          added: 0,
+          removed: 0,
+          moved: 0,
+          error: message,
+        });
+      }
+    }
+
+    context?.report('Updating smart playlists', smartPlaylists.length, smartPlaylists.length);
+    return results;
+  }
+
+  /**
+   * Bring the Spotify playlist of a smart playlist in line with its rules
+   * The playlist is created on the first update, and again if it was deleted
+   */
+  private async materialize(
+    smartPlaylist: SmartPlaylist,
+    context?: OperationContext
+  ): Promise<SmartPlaylistUpdateResult> {
+    const rules = parseSmartRules(smartPlaylist);
+    const targetUris = (await this.computeTracks(rules, smartPlaylist.spotify_id)).map(
+      (item) => item.track_uri!
+    );
+    const result: SmartPlaylistUpdateResult = {
+      id: smartPlaylist.id,
+      spotifyId: smartPlaylist.spotify_id,
+      trackCount: targetUris.length,
+      added: 0,
+      removed: 0,
+      moved: 0,
+    };
+
+    const snapshotId = smartPlaylist.spotify_id
+      ? await this.fetchSnapshotId(smartPlaylist.spotify_id)
+      : null;
+
+    if (!result.spotifyId || !snapshotId) {
+      const createResponse = await this.spotifyApi.createPlaylist(smartPlaylist.name, {
+        description: 'Smart playlist, updated automatically after every sync',
+        public: false,
+      });
+      result.spotifyId = createResponse.body.id;
+      // Saved right away so an interrupted fill doesn't create a second playlist
+      this.database.updateSmartPlaylist(smartPlaylist.id, { spotify_id: result.spotifyId });
+
+      await addTracksAt(this.spotifyApi, result.spotifyId, targetUris, 0, context);
+      result.added = targetUris.length;
+      return result;
+    }
+
+    const playlistId = result.spotifyId;
+    const current = await this.trackCache.getPlaylistTracks(playlistId, snapshotId);
+    Object.assign(
+      result,
+      await applyPlaylistDiff(this.spotifyApi, playlistId, current, targetUris, snapshotId, context)
+    );
+
+    this.database.updateTrackCount(playlistId, targetUris.length);
+    return result;
+  }
+
+  /**
+   * Source tracks that match the rules, sorted and limited
+   * Tracks from several sources are only listed once
+   */
+  private async computeTracks(
+    rules: SmartPlaylistRules,
+    ownPlaylistId?: string | null
+  ): Promise<PlaylistTrackItem[]> {
+    const sourceIds = new Set(rules.sourcePlaylistIds);
+    if (rules.sourceTags.length > 0) {
+      for (const playlist of this.database.getAllPlaylists()) {
+        const tags = playlist.tags.split(/\s+/);
+        if (rules.sourceTags.some((tag) => tags.includes(tag))) {
+          sourceIds.add(playlist.spotify_id);
+        }
+      }
+    }
+    // A smart playlist never feeds itself
+    if (ownPlaylistId) sourceIds.delete(ownPlaylistId);
+
+    const seen = new Set<string>();
+    const items: PlaylistTrackItem[] = [];
+    for (const playlistId of sourceIds) {
+      for (const item of await this.getCachedTracks(playlistId)) {
+        const uri = item.track_uri;
+        // Unavailable tracks and local files can't be added
+        if (!uri || item.is_unlinked || !uri.startsWith('spotify:track:') || seen.has(uri)) {
+          continue;
+        }
+        seen.add(uri);
+        items.push(item);
+      }
+    }
+
+    // Track URIs of playlists used in membership conditions
+    const membership = new Map<string, Set<string>>();
+    for (const condition of [...rules.include, ...rules.exclude]) {
+      if (condition.field === 'playlist' && !membership.has(condition.value)) {
+        const tracks = await this.getCachedTracks(condition.value);
+        membership.set(condition.value, new Set(tracks.map((item) => item.track_uri!)));
+      }
+    }
+
+    const matching = items.filter(
+      (item) =>
+        rules.include.every((condition) => this.matches(item, condition, membership)) &&
+        !rules.exclude.some((condition) => this.matches(item, condition, membership))
+    );
+
+    if (rules.sortBy !== 'source_order') {
+      const direction = rules.sortDirection === 'desc' ? -1 : 1;
+      const key = (item: PlaylistTrackItem): string | number => {
+        switch (rules.sortBy) {
+          case 'added_at':
+            return item.added_at || '';
+          case 'release_date':
+            return item.release_date || '';
+          case 'name':
+            return (item.name || '').toLowerCase();
+          case 'artist':
+            return (item.artist_name || '').toLowerCase();
+          case 'duration':
+            return item.duration_ms;
+          default:
+            return 0;
+        }
+      };
+      matching.sort((a, b) => {
+        const keyA = key(a);
+        const keyB = key(b);
+        return (keyA < keyB ? -1 : keyA > keyB ? 1 : 0) * direction;
+      });
+    }
+
+    return rules.limit ? matching.slice(0, rules.limit) : matching;
+  }
+
+  /**
+   * Check a single condition against a track
+   */
+  private matches(
+    item: PlaylistTrackItem,
+    condition: SmartCondition,
+    membership: Map<string, Set<string>>
+  ): boolean {
+    const value = condition.value.trim();
+
+    switch (condition.field) {
+      case 'artist': {
+        const artists: string[] = JSON.parse(item.artists || '[]');
+        const names = (artists.length > 0 ? artists : [item.artist_name || '']).map((name) =>
+          name.toLowerCase()
+        );
+        const wanted = value.toLowerCase();
+        return condition.operator === 'is'
+          ? names.includes(wanted)
+          : names.some((name) => name.includes(wanted));
+      }
+      case 'added_at': {
+        if (!item.added_at) return false;
+        const addedAt = Date.parse(item.added_at);
+        if (condition.operator === 'within_days') {
+          return Date.now() - addedAt <= Number(value) * DAY_MS;
+        }
+        return condition.operator === 'before'
+          ? addedAt < Date.parse(value)
+          : addedAt > Date.parse(value);
+      }
+      case 'duration': {
+        const seconds = item.duration_ms / 1000;
+        return condition.operator === 'less_than'
+          ? seconds < Number(value)
+          : seconds > Number(value);
+      }
+      case 'release_year': {
+        const year = parseInt(item.release_date || '', 10);
+        if (Number.isNaN(year)) return false;
+        if (condition.operator === 'before') return year < Number(value);
+        if (condition.operator === 'after') return year > Number(value);
+        return year === Number(value);
+      }
+      case 'playlist':
+        return !!item.track_uri && !!membership.get(value)?.has(item.track_uri);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Cached tracks of a playlist, refreshed when its snapshot changed
+   */
+  private async getCachedTracks(playlistId: string): Promise<PlaylistTrackItem[]> {
+    const playlist = this.database.getPlaylistById(playlistId);
+    if (!playlist) {
+      console.warn(`[Smart Playlists] Source playlist ${playlistId} is not in the library`);
+      return [];
+    }
+    return this.trackCache.getPlaylistTracks(playlistId, playlist.snapshot_id || undefined);
+  }
+
+  /**
+   * Current snapshot_id of a playlist, or null if it no longer exists
+   */
+  private async fetchSnapshotId(playlistId: string): Promise<string | null> {
+    try {
+      const response = await this.spotifyApi.getPlaylist(playlistId, { fields: 'snapshot_id' });
+      return response.body.snapshot_id;
+    } catch (error: any) {
+      if (error?.statusCode === 404) return null;
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Track cache service
+ *
+ * Fetches the full contents of playlists (following pagination) into the
+ * local tracks/playlist_tracks tables, and serves them from the cache
+ * for as long as the playlist's snapshot_id hasn't changed
+ *
+ * Liked Songs are cached the same way under LIKED_SONGS.ID, so every
+ * operation that reads tracks through this service can use them as a source
+ *
+ * Tracks are fetched for a market (the user's setting or the account's
+ * country). Only then does Spotify report `is_playable` and relink tracks
+ * to a version available there.
+ */
+
+import SpotifyWebApi from 'spotify-web-api-node';
+import type { CachedTrack, PlaylistTrack, PlaylistTrackItem } from '@shared/types';
+import { PlaylistDatabase } from './database';
+import { LIKED_SONGS, SPOTIFY_API_LIMITS } from '@shared/constants';
+
+/**
+ * Check if a playlist item is unlinked/unavailable
+ * Track can be unlinked in several ways:
+ * 1. track is null
+ * 2. track.id is null (removed from catalog)
+ * 3. track.is_playable is false (regional restrictions or removed)
+ * 4. track.uri is missing
+ */
+export function isUnlinkedItem(item: any): boolean {
+  return (
+    !item.track ||
+    item.track.id === null ||
+    item.track.is_playable === false ||
+    !item.track.uri
+  );
+}
+
+/**
+ * URI of a playlist item as stored in the playlist
+ * When Spotify relinked the track to a version playable in the market, the
+ * playlist still holds the original one (`linked_from`), which is the URI
+ * removals and comparisons have to use
+ */
+export function getPlaylistItemUri(item: any): string | null {
+  return item.track?.linked_from?.uri || item.track?.uri || null;
+}
+
+export class TrackCacheService {
+  constructor(
+    private spotifyApi: SpotifyWebApi,
+    private database: PlaylistDatabase,
+    private getMarketSetting: () => string | null = () => null
+  ) {}
+
+  private accountCountry: Promise<string> | null = null;
+
+  /**
+   * Market tracks are fetched for: the market setting, else the account's country
+   */
+  async getMarket(): Promise<string> {
+    const market = this.getMarketSetting();
+    if (market) return market;
+
+    if (!this.accountCountry) {
+      this.accountCountry = this.spotifyApi.getMe().then((response) => response.body.country);
+      // Ask again next time if the request failed
+      this.accountCountry.catch(() => {
+        this.accountCountry = null;
+      });
+    }
+    return this.accountCountry;
+  }
+
+  /**
+   * Get all items of a playlist, using the cache when it is up to date
+   * Pass the current snapshot_id when it is already known to save a request
+   */
+  async getPlaylistTracks(
+    playlistId: string,
+    currentSnapshotId?: string
+  ): Promise<PlaylistTrackItem[]> {
+    const snapshotId = currentSnapshotId ?? (await this.fetchSnapshotId(playlistId));
+
+    if (this.database.getCachedSnapshotId(playlistId) !== snapshotId) {
+      await this.refreshPlaylistTracks(playlistId, snapshotId);
+    }
+
+    return this.database.getPlaylistTracks(playlistId);
+  }
+
+  /**
+   * Fetch every page of a playlist and replace its cached contents
+   */
+  async refreshPlaylistTracks(playlistId: string, snapshotId: string): Promise<void> {
+    const rawItems = await this.fetchPlaylistItems(playlistId, await this.getMarket());
+    const items: PlaylistTrack[] = [];
+    const tracks = new Map<string, CachedTrack>();
+
+    for (const item of rawItems) {
+      const uri = getPlaylistItemUri(item);
+
+      items.push({
+        playlist_id: playlistId,
+        position: items.length,
+        track_uri: uri,
+        added_at: item.added_at || null,
+        added_by: item.added_by?.id || null,
+        is_unlinked: isUnlinkedItem(item),
+      });
+
+      if (uri && !tracks.has(uri)) {
+        tracks.set(uri, this.convertToCachedTrack(item.track));
+      }
+    }
+
+    this.database.replacePlaylistTracks(playlistId, snapshotId, items, Array.from(tracks.values()));
+    console.log(`[Track Cache] Cached ${items.length} tracks for playlist ${playlistId}`);
+  }
+
+  /**
+   * Whether each item of a playlist is unlinked in the given market, by position
+   * Bypasses the cache, which holds playability for the user's own market
+   */
+  async fetchUnlinkedInMarket(playlistId: string, market: string): Promise<boolean[]> {
+    const items = await this.fetchPlaylistItems(playlistId, market);
+    return items.map((item) => isUnlinkedItem(item));
+  }
+
+  /**
+   * Fetch the raw items of a playlist (or Liked Songs), following pagination
+   */
+  private async fetchPlaylistItems(playlistId: string, market: string): Promise<any[]> {
+    const items: any[] = [];
+    let offset = 0;
+    let hasMore = true;
+
+    const isLikedSongs = playlistId === LIKED_SONGS.ID;
+    const limit = isLikedSongs
+      ? SPOTIFY_API_LIMITS.SAVED_TRACKS_PER_REQUEST
+      : SPOTIFY_API_LIMITS.TRACKS_PER_REQUEST;
+
+    while (hasMore) {
+      const response = isLikedSongs
+        ? await this.spotifyApi.getMySavedTracks({ offset, limit, market })
+        : await this.spotifyApi.getPlaylistTracks(playlistId, { offset, limit, market });
+
+      items.push(...(response.body.items as any[]));
+      offset += limit;
+      hasMore = response.body.next !== null;
+    }
+
+    return items;
+  }
+
+  /**
+   * Get the current snapshot_id of a playlist with a minimal request
+   */
+  private async fetchSnapshotId(playlistId: string): Promise<string> {
+    if (playlistId === LIKED_SONGS.ID) {
+      return (await this.fetchLikedSongsSummary()).snapshotId;
+    }
+
+    const response = await this.spotifyApi.getPlaylist(playlistId, { fields: 'snapshot_id' });
+    return response.body.snapshot_id;
+  }
+
+  /**
+   * Get the number of Liked Songs and a stand-in snapshot_id for them
+   * Saved tracks have no snapshot_id, so one is derived from the total and the
+   * most recent save: liking changes the latest save, unliking changes the total
+   */
+  async fetchLikedSongsSummary(): Promise<{ total: number; snapshotId: string }> {
+    const response = await this.spotifyApi.getMySavedTracks({ limit: 1 });
+    const total = response.body.total;
+    const latest = response.body.items[0]?.added_at || '';
+
+    return { total, snapshotId: `liked:${total}:${latest}` };
+  }
+
+  /**
+   * Convert a Spotify track object to the cached format
+   */
+  private convertToCachedTrack(track: any): CachedTrack {
+    const artists: string[] = (track.artists || []).map((artist: any) => artist.name);
+    const primaryArtist = artists[0] || track.album?.artists?.[0]?.name || null;
+
+    return {
+      uri: track.linked_from?.uri || track.uri,
+      spotify_id: track.linked_from?.id || track.id || null,
+      name: track.name || null,
+      artist_name: primaryArtist,
+      artists: JSON.stringify(artists),
+      album_name: track.album?.name || null,
+      duration_ms: track.duration_ms || 0,
+      isrc: track.external_ids?.isrc || null,
+      release_date: track.album?.release_date || null,
+    };
+  }
+}
@@ -3,14 +3,43 @@ import './styles/app.css';
 import { usePlaylists } from './hooks/usePlaylists';
 import { useDebounce } from './hooks/useDebounce';
 import { useSelection } from './hooks/useSelection';
+import { useRequestScheduler } from './hooks/useRequestScheduler';
+import { useOperationProgress } from './hooks/useOperationProgress';
+import { useJobQueue } from './hooks/useJobQueue';
+import { useSettings } from './hooks/useSettings';
 import { filterPlaylists } from './utils/filterPlaylists';
 import { DeleteConfirmationModal } from './components/DeleteConfirmationModal';
 import { TagModal } from './components/TagModal';
 import { MergeModal } from './components/MergeModal';
+import { RenameModal } from './components/RenameModal';
+import { SubtractModal } from './components/SubtractModal';
+import { IntersectModal } from './components/IntersectModal';
 import { ContextMenu } from './components/ContextMenu';
 import { SetupGuideModal } from './components/SetupGuideModal';
+import { ProgressPanel } from './components/ProgressPanel';
+import { JobQueueModal } from './components/JobQueueModal';
+import { HistoryModal } from './components/HistoryModal';
+import { RecoveryReviewModal } from './components/RecoveryReviewModal';
+import { DuplicateReviewModal } from './components/DuplicateReviewModal';
+import { OverlapReportModal } from './components/OverlapReportModal';
+import { SmartPlaylistsModal } from './components/SmartPlaylistsModal';
+import { UnlinkedTracksModal } from './components/UnlinkedTracksModal';
+import { MarketCheckModal } from './components/MarketCheckModal';
+import { SettingsModal } from './components/SettingsModal';
 import { UI_CONSTANTS } from '@shared/constants';
-import type { LocalPlaylist } from '@shared/types';
+import { getPlaylistUrl, isEditablePlaylist, isLikedSongs } from '@shared/liked-songs';
+import type {
+  BrokenTrackRecoveryOptions,
+  DuplicateMatchOptions,
+  DuplicateRemovalOptions,
+  IntersectConfig,
+  LocalPlaylist,
+  OperationHistory,
+  OperationPlan,
+  RenameConfig,
+  SubtractConfig,
+  SubtractPreview,
+} from '@shared/types';
 
 /**
  * Main application component
@@ -51,6 +80,24 @@ function App() {
   const [playlistsToMerge, setPlaylistsToMerge] = useState<LocalPlaylist[]>([]);
   const [merging, setMerging] = useState(false);
 
+  // Rename modal state
+  const [showRenameModal, setShowRenameModal] = useState(false);
+  const [playlistsToRename, setPlaylistsToRename] = useState<LocalPlaylist[]>([]);
+  const [renaming, setRenaming] = useState(false);
+
+  // Subtract modal state
+  const [showSubtractModal, setShowSubtractModal] = useState(false);
+  const [playlistsToSubtract, setPlaylistsToSubtract] = useState<LocalPlaylist[]>([]);
+  const [subtracting, setSubtracting] = useState(false);
+
+  // Intersect modal state
+  const [showIntersectModal, setShowIntersectModal] = useState(false);
+  const [playlistsToIntersect, setPlaylistsToIntersect] = useState<LocalPlaylist[]>([]);
+  const [intersecting, setIntersecting] = useState(false);
+
+  // Like/unlike state
+  const [liking, setLiking] = useState(false);
+
   // Context menu state
   const [contextMenu, setContextMenu] = useState<{
     playlist: LocalPlaylist;
@@ -61,12 +108,42 @@ function App() {
   // Setup guide modal state
   const [showSetupGuide, setShowSetupGuide] = useState(false);
 
+  // Job queue modal state
+  const [showJobQueue, setShowJobQueue] = useState(false);
+
+  // Undo state
+  const [undoing, setUndoing] = useState(false);
+
+  // History modal state
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Overlap report modal state
+  const [showOverlapReport, setShowOverlapReport] = useState(false);
+
+  // Smart playlists modal state
+  const [showSmartPlaylists, setShowSmartPlaylists] = useState(false);
+  const [showUnlinkedTracks, setShowUnlinkedTracks] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+
+  // Delete dry-run plan (null while loading)
+  const [deletePlan, setDeletePlan] = useState<OperationPlan | null>(null);
+
+  // Fix broken links review state
+  const [recoveryPlaylist, setRecoveryPlaylist] = useState<LocalPlaylist | null>(null);
+  const [marketCheckPlaylist, setMarketCheckPlaylist] = useState<LocalPlaylist | null>(null);
+  const [recovering, setRecovering] = useState(false);
+
+  // Remove duplicates review state
+  const [duplicatesPlaylist, setDuplicatesPlaylist] = useState<LocalPlaylist | null>(null);
+  const [removingDuplicates, setRemovingDuplicates] = useState(false);
+
   // Playlist management
   const {
     playlists,
     loading: playlistsLoading,
     error: playlistsError,
     syncing,
+    lastSyncResult,
     syncPlaylists,
     refreshPlaylists,
   } = usePlaylists();
@@ -81,6 +158,29 @@ function App() {
     clearSelection,
   } = useSelection();
 
+  // Spotify request queue / rate limit state
+  const { state: schedulerState, backoffSeconds } = useRequestScheduler();
+
+  // Long-running operation progress
+  const { jobs, cancelJob } = useOperationProgress();
+
+  // Persistent job queue
+  const { jobs: queuedJobs, activeCount: activeJobCount, runAction: runJobAction } = useJobQueue();
+
+  // App settings
+  const { settings, databasePath, updateSettings } = useSettings();
+
+  // Table columns follow the column visibility settings
+  const tableColumns = [
+    '35px 1fr 70px',
+    settings.showDuration && '80px',
+    settings.showCreatedDate && '90px',
+    settings.showFollowers && '70px',
+    '100px 40px 150px',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
   // Debounce search query
   const debouncedSearch = useDebounce(searchQuery, UI_CONSTANTS.SEARCH_DEBOUNCE_MS);
 
@@ -118,6 +218,25 @@ function App() {
     checkAuthStatus();
   }, []);
 
+  // Refresh the list when queued jobs finish (including resumed ones)
+  const previousActiveJobCount = useRef(0);
+  useEffect(() => {
+    if (activeJobCount < previousActiveJobCount.current) {
+      refreshPlaylists();
+    }
+    previousActiveJobCount.current = activeJobCount;
+  }, [activeJobCount]);
+
+  // Auto sync while authenticated, at the interval from the settings
+  useEffect(() => {
+    if (!authenticated || !settings.autoSyncInterval) return;
+
+    const interval = setInterval(() => {
+      syncPlaylists();
+    }, settings.autoSyncInterval * 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [authenticated, settings.autoSyncInterval, syncPlaylists]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -150,6 +269,54 @@ function App() {
         }
       }
 
+      // Cmd/Ctrl + R to rename playlists
+      if ((e.metaKey || e.ctrlKey) && e.key === 'r') {
+        e.preventDefault();
+        if (selectedIds.size > 0) {
+          handleRenameClick();
+        }
+      }
+
+      // Cmd/Ctrl + - to subtract playlists
+      if ((e.metaKey || e.ctrlKey) && e.key === '-') {
+        e.preventDefault();
+        if (selectedIds.size >= 2) {
+          handleSubtractClick();
+        }
+      }
+
+      // Cmd/Ctrl + & to intersect playlists
+      if ((e.metaKey || e.ctrlKey) && e.key === '&') {
+        e.preventDefault();
+        if (selectedIds.size >= 2) {
+          handleIntersectClick();
+        }
+      }
+
+      // Cmd/Ctrl + Z to undo the last operation (text inputs keep their own undo)
+      if ((e.metaKey || e.ctrlKey) && e.key === 'z' && !(e.target instanceof HTMLInputElement)) {
+        e.preventDefault();
+        handleUndoClick();
+      }
+
+      // Cmd/Ctrl + Y to show the operation history
+      if ((e.metaKey || e.ctrlKey) && e.key === 'y') {
+        e.preventDefault();
+        setShowHistory(true);
+      }
+
+      // Cmd/Ctrl + J to show the job queue
+      if ((e.metaKey || e.ctrlKey) && e.key === 'j') {
+        e.preventDefault();
+        setShowJobQueue(true);
+      }
+
+      // Cmd/Ctrl + , to open settings
+      if ((e.metaKey || e.ctrlKey) && e.key === ',') {
+        e.preventDefault();
+        setShowSettings(true);
+      }
+
       // Escape to clear selection
       if (e.key === 'Escape') {
         clearSelection();
@@ -206,6 +373,89 @@ function App() {
     await syncPlaylists();
   };
 
+  // Undo handlers
+  const undoOperation = async (operation: OperationHistory) => {
+    const when = new Date(operation.timestamp).toLocaleString();
+    if (!confirm(`Undo ${operation.operation_type.replace(/_/g, ' ')} from ${when}?`)) {
+      return;
+    }
+
+    try {
+      setUndoing(true);
+      const result = await window.electronAPI.history.undo(operation.id);
+
+      if (!result.success) {
+        alert(`Failed to undo operation: ${result.error}`);
+      }
+
+      await refreshPlaylists();
+    } catch (err) {
+      console.error('Failed to undo operation:', err);
+      alert('Failed to undo operation');
+    } finally {
+      setUndoing(false);
+    }
+  };
+
+  // Select the playlists of an overlap report entry, clearing filters that could hide them
+  const handleOverlapSelect = (playlistIds: string[]) => {
+    setSearchQuery('');
+    setOwnershipFilter('all');
+    selectAll(playlistIds);
+    setShowOverlapReport(false);
+  };
+
+  // Like every track of the selected playlists
+  const handleLikeClick = async () => {
+    const playlistIds = Array.from(selectedIds).filter((id) => !isLikedSongs(id));
+    if (playlistIds.length === 0) return;
+
+    if (!confirm(`Like all tracks in ${playlistIds.length} playlist(s)?`)) {
+      return;
+    }
+
+    try {
+      setLiking(true);
+      const result = await window.electronAPI.playlists.likeTracks(playlistIds);
+
+      if (result.success && result.data) {
+        alert(
+          `Liked ${result.data.liked} tracks (${result.data.alreadyLiked} were already liked)`
+        );
+        await refreshPlaylists();
+      } else {
+        alert(`Failed to like tracks: ${result.error}`);
+      }
+    } catch (err) {
+      console.error('Failed to like tracks:', err);
+      alert('Failed to like tracks');
+    } finally {
+      setLiking(false);
+    }
+  };
+
+  // Reverses the most recent undoable operation
+  const handleUndoClick = async () => {
+    if (undoing) return;
+
+    try {
+      const lastResult = await window.electronAPI.history.getLastUndoable();
+      if (!lastResult.success) {
+        alert(`Failed to load operation history: ${lastResult.error}`);
+        return;
+      }
+
+      if (!lastResult.data) {
+        alert('Nothing to undo');
+        return;
+      }
+
+      await undoOperation(lastResult.data);
+    } catch (err) {
+      console.error('Failed to load operation history:', err);
+    }
+  };
+
   // Header checkbox handler (select all visible)
   const handleSelectAll = () => {
     if (selectedIds.size === filteredPlaylists.length && filteredPlaylists.length > 0) {
@@ -254,8 +504,30 @@ function App() {
     const result = await window.electronAPI.playlists.getDetails(selectedPlaylistIds);
 
     if (result.success && result.data) {
-      setPlaylistsToDelete(result.data);
-      setShowDeleteModal(true);
+      await openDeleteModal(result.data);
+    }
+  };
+
+  const openDeleteModal = async (playlists: LocalPlaylist[]) => {
+    setPlaylistsToDelete(playlists);
+    setDeletePlan(null);
+    setShowDeleteModal(true);
+
+    // Dry run (only owned playlists can be deleted, the modal explains the rest)
+    if (playlists.every(isEditablePlaylist)) {
+      try {
+        const planResult = await window.electronAPI.playlists.dryRun({
+          operation: 'delete',
+          playlistIds: playlists.map((p) => p.spotify_id),
+        });
+        if (planResult.success && planResult.data) {
+          setDeletePlan(planResult.data);
+        } else {
+          console.error('Delete plan failed:', planResult.error);
+        }
+      } catch (err) {
+        console.error('Delete plan error:', err);
+      }
     }
   };
 
@@ -292,6 +564,7 @@ function App() {
   const handleDeleteCancel = () => {
     setShowDeleteModal(false);
     setPlaylistsToDelete([]);
+    setDeletePlan(null);
   };
 
   // Tag handlers
@@ -360,10 +633,38 @@ function App() {
     }
   };
 
+  const handleMergePreview = async (
+    targetName: string,
+    removeDuplicates: boolean,
+    deleteSource: boolean,
+    duplicateMatch?: DuplicateMatchOptions
+  ): Promise<OperationPlan | null> => {
+    try {
+      const result = await window.electronAPI.playlists.dryRun({
+        operation: 'merge',
+        playlistIds: playlistsToMerge.map((p) => p.spotify_id),
+        targetName,
+        removeDuplicates,
+        deleteSource,
+        duplicateMatch,
+      });
+
+      if (result.success && result.data) {
+        return result.data;
+      }
+
+      console.error('Merge plan failed:', result.error);
+    } catch (err) {
+      console.error('Merge plan error:', err);
+    }
+    return null;
+  };
+
   const handleMergeConfirm = async (
     targetName: string,
     removeDuplicates: boolean,
-    deleteSource: boolean
+    deleteSource: boolean,
+    duplicateMatch?: DuplicateMatchOptions
   ) => {
     setMerging(true);
 
@@ -373,7 +674,8 @@ function App() {
         selectedPlaylistIds,
         targetName,
         removeDuplicates,
-        deleteSource
+        deleteSource,
+        duplicateMatch
       );
 
       if (result.success && result.data) {
@@ -402,6 +704,173 @@ function App() {
     setPlaylistsToMerge([]);
   };
 
+  // Rename handlers
+  const handleRenameClick = async () => {
+    if (selectedIds.size === 0) {
+      return;
+    }
+
+    // Get details for selected playlists
+    const selectedPlaylistIds = Array.from(selectedIds);
+    const result = await window.electronAPI.playlists.getDetails(selectedPlaylistIds);
+
+    if (result.success && result.data) {
+      setPlaylistsToRename(result.data);
+      setShowRenameModal(true);
+    }
+  };
+
+  const handleRenameConfirm = async (config: RenameConfig) => {
+    setRenaming(true);
+
+    try {
+      const selectedPlaylistIds = playlistsToRename.map((p) => p.spotify_id);
+      const result = await window.electronAPI.playlists.renameBulk(selectedPlaylistIds, config);
+
+      if (result.success && result.data) {
+        console.log(
+          `Renamed ${result.data.renamed} playlists (${result.data.skipped} skipped)`
+        );
+
+        // Close modal and refresh playlist list to show new names
+        setShowRenameModal(false);
+        await refreshPlaylists();
+      } else {
+        console.error('Rename failed:', result.error);
+        alert(`Failed to rename playlists: ${result.error}`);
+        await refreshPlaylists();
+      }
+    } catch (err) {
+      console.error('Rename error:', err);
+    } finally {
+      setRenaming(false);
+    }
+  };
+
+  const handleRenameCancel = () => {
+    setShowRenameModal(false);
+    setPlaylistsToRename([]);
+  };
+
+  // Subtract handlers
+  const handleSubtractClick = async () => {
+    if (selectedIds.size < 2) {
+      return;
+    }
+
+    // Get details for selected playlists
+    const selectedPlaylistIds = Array.from(selectedIds);
+    const result = await window.electronAPI.playlists.getDetails(selectedPlaylistIds);
+
+    if (result.success && result.data) {
+      setPlaylistsToSubtract(result.data);
+      setShowSubtractModal(true);
+    }
+  };
+
+  const handleSubtractPreview = async (
+    fromPlaylistId: string,
+    subtractPlaylistIds: string[]
+  ): Promise<SubtractPreview | null> => {
+    try {
+      const result = await window.electronAPI.playlists.previewSubtract(
+        fromPlaylistId,
+        subtractPlaylistIds
+      );
+
+      if (result.success && result.data) {
+        return result.data;
+      }
+
+      console.error('Subtract preview failed:', result.error);
+    } catch (err) {
+      console.error('Subtract preview error:', err);
+    }
+    return null;
+  };
+
+  const handleSubtractConfirm = async (config: SubtractConfig) => {
+    setSubtracting(true);
+
+    try {
+      const result = await window.electronAPI.playlists.subtract(config);
+
+      if (result.success && result.data) {
+        console.log(
+          `Created "${config.targetName}" with ${result.data.trackCount} tracks (${result.data.removedCount} removed)`
+        );
+
+        // Clear selection and close modal
+        clearSelection();
+        setShowSubtractModal(false);
+
+        // Refresh playlist list to show new playlist
+        await refreshPlaylists();
+      } else {
+        console.error('Subtract failed:', result.error);
+        alert(`Failed to subtract playlists: ${result.error}`);
+      }
+    } catch (err) {
+      console.error('Subtract error:', err);
+    } finally {
+      setSubtracting(false);
+    }
+  };
+
+  const handleSubtractCancel = () => {
+    setShowSubtractModal(false);
+    setPlaylistsToSubtract([]);
+  };
+
+  // Intersect handlers
+  const handleIntersectClick = async () => {
+    if (selectedIds.size < 2) {
+      return;
+    }
+
+    // Get details for selected playlists
+    const selectedPlaylistIds = Array.from(selectedIds);
+    const result = await window.electronAPI.playlists.getDetails(selectedPlaylistIds);
+
+    if (result.success && result.data) {
+      setPlaylistsToIntersect(result.data);
+      setShowIntersectModal(true);
+    }
+  };
+
+  const handleIntersectConfirm = async (config: IntersectConfig) => {
+    setIntersecting(true);
+
+    try {
+      const result = await window.electronAPI.playlists.intersect(config);
+
+      if (result.success && result.data) {
+        console.log(
+          `Intersected ${config.playlistIds.length} playlists into "${config.targetName}" (${result.data.trackCount} tracks)`
+        );
+
+        // Clear selection and close modal
+        clearSelection();
+        setShowIntersectModal(false);
+
+        // Refresh playlist list to show new playlist
+        await refreshPlaylists();
+      } else {
+        console.error('Intersect failed:', result.error);
+        alert(`Failed to intersect playlists: ${result.error}`);
+      }
+    } catch (err) {
+      console.error('Intersect error:', err);
+    } finally {
+      setIntersecting(false);
+    }
+  };
+
+  const handleIntersectCancel = () => {
+    setShowIntersectModal(false);
+    setPlaylistsToIntersect([]);
+  };
+
   // Context menu handlers
   const handleContextMenu = (
     playlist: LocalPlaylist,
@@ -421,13 +890,12 @@ function App() {
 
   const handleOpenInSpotify = () => {
     if (!contextMenu) return;
-    const url = `https://open.spotify.com/playlist/${contextMenu.playlist.spotify_id}`;
-    window.open(url, '_blank');
+    window.open(getPlaylistUrl(contextMenu.playlist.spotify_id), '_blank');
   };
 
   const handleCopyLink = async () => {
     if (!contextMenu) return;
-    const url = `https://open.spotify.com/playlist/${contextMenu.playlist.spotify_id}`;
+    const url = getPlaylistUrl(contextMenu.playlist.spotify_id);
     try {
       await navigator.clipboard.writeText(url);
       console.log('Copied playlist link to clipboard');
@@ -448,8 +916,13 @@ function App() {
 
   const handleContextDelete = async () => {
     if (!contextMenu) return;
-    setPlaylistsToDelete([contextMenu.playlist]);
-    setShowDeleteModal(true);
+    await openDeleteModal([contextMenu.playlist]);
+  };
+
+  const handleContextRename = async () => {
+    if (!contextMenu) return;
+    setPlaylistsToRename([contextMenu.playlist]);
+    setShowRenameModal(true);
   };
 
   const handleContextEditTags = async () => {
@@ -458,19 +931,143 @@ function App() {
     setShowTagModal(true);
   };
 
-  const handleFixBrokenLinks = async () => {
+  const handleFixBrokenLinks = () => {
+    if (!contextMenu) return;
+    setRecoveryPlaylist(contextMenu.playlist);
+  };
+
+  const handleCheckMarket = () => {
     if (!contextMenu) return;
+    setMarketCheckPlaylist(contextMenu.playlist);
+  };
 
+  const handleRemoveDuplicates = () => {
+    if (!contextMenu) return;
+    setDuplicatesPlaylist(contextMenu.playlist);
+  };
+
+  // Unlike every liked track that is also in the playlist
+  const handleContextUnlike = async () => {
+    if (!contextMenu || liking) return;
     const playlist = contextMenu.playlist;
+
+    if (!confirm(`Unlike every liked track that is in "${playlist.name}"?`)) {
+      return;
+    }
+
+    try {
+      setLiking(true);
+      const result = await window.electronAPI.playlists.unlikeTracks(playlist.spotify_id);
+
+      if (result.success && result.data) {
+        alert(`Unliked ${result.data.unliked} tracks`);
+        await refreshPlaylists();
+      } else {
+        alert(`Failed to unlike tracks: ${result.error}`);
+      }
+    } catch (err) {
+      console.error('Failed to unlike tracks:', err);
+      alert('Failed to unlike tracks');
+    } finally {
+      setLiking(false);
+    }
+  };
+
+  const handleContextExportCsv = async () => {
+    if (!contextMenu) return;
+
+    try {
+      const result = await window.electronAPI.playlists.exportCsv(contextMenu.playlist.spotify_id);
+
+      if (!result.success) {
+        alert(`Failed to export playlist: ${result.error}`);
+      } else if (result.data?.filePath) {
+        alert(`Exported ${result.data.count} tracks to ${result.data.filePath}`);
+      }
+    } catch (err) {
+      console.error('Failed to export playlist:', err);
+    }
+  };
+
+  const handleRecoveryPreview = async (
+    options: BrokenTrackRecoveryOptions
+  ): Promise<{ plan: OperationPlan | null; error: string | null }> => {
+    if (!recoveryPlaylist) return { plan: null, error: null };
+
+    try {
+      const result = await window.electronAPI.playlists.dryRun({
+        operation: 'fix_broken_links',
+        playlistId: recoveryPlaylist.spotify_id,
+        options,
+      });
+      return {
+        plan: result.data ?? null,
+        error: result.success ? null : result.error || 'Failed to plan operation',
+      };
+    } catch (err) {
+      return { plan: null, error: err instanceof Error ? err.message : 'Failed to plan operation' };
+    }
+  };
+
+  const handleRecoveryConfirm = async (options: BrokenTrackRecoveryOptions) => {
+    if (!recoveryPlaylist) return;
+
+    setRecovering(true);
+    try {
+      await runFixBrokenLinks(recoveryPlaylist, options);
+    } finally {
+      setRecovering(false);
+      setRecoveryPlaylist(null);
+    }
+  };
+
+  const handleDuplicatesPreview = async (
+    options: DuplicateRemovalOptions
+  ): Promise<{ plan: OperationPlan | null; error: string | null }> => {
+    if (!duplicatesPlaylist) return { plan: null, error: null };
+
+    try {
+      const result = await window.electronAPI.playlists.dryRun({
+        operation: 'remove_duplicates',
+        playlistId: duplicatesPlaylist.spotify_id,
+        options,
+      });
+      return {
+        plan: result.data ?? null,
+        error: result.success ? null : result.error || 'Failed to plan operation',
+      };
+    } catch (err) {
+      return { plan: null, error: err instanceof Error ? err.message : 'Failed to plan operation' };
+    }
+  };
+
+  const handleDuplicatesConfirm = async (options: DuplicateRemovalOptions) => {
+    if (!duplicatesPlaylist) return;
+
+    setRemovingDuplicates(true);
+    try {
+      await runRemoveDuplicates(duplicatesPlaylist, options);
+    } finally {
+      setRemovingDuplicates(false);
+      setDuplicatesPlaylist(null);
+    }
+  };
+
+  const runFixBrokenLinks = async (playlist: LocalPlaylist, options: BrokenTrackRecoveryOptions) => {
     console.log(`[Fix Broken Links] Starting for playlist: ${playlist.name}`);
 
     try {
-      const result = await window.electronAPI.playlists.fixBrokenLinks(playlist.spotify_id);
+      const result = await window.electronAPI.playlists.fixBrokenLinks(
+        playlist.spotify_id,
+        options
+      );
 
       if (result.success && result.data) {
         const { recovered, total, failed } = result.data;
         console.log(`[Fix Broken Links] Recovered ${recovered}/${total} tracks`);
-        console.log(`[Fix Broken Links] New playlist: ${result.data.playlistId}`);
+        if (options.mode !== 'in_place') {
+          console.log(`[Fix Broken Links] New playlist: ${result.data.playlistId}`);
+        }
 
         if (failed > 0) {
           console.log(
@@ -480,8 +1077,8 @@ function App() {
           alert(
             `Fixed Broken Links:\n\n` +
             `✓ Recovered: ${recovered} tracks\n` +
-            `✗ Failed: ${failed} tracks\n\n` +
-            `A CSV file with the failed tracks has been saved to your Desktop.`
+            `✗ Not replaced: ${failed} tracks\n\n` +
+            `A CSV file with the tracks that were not replaced has been saved to your Desktop.`
           );
         } else {
           alert(`Successfully recovered all ${recovered} tracks!`);
@@ -502,26 +1099,31 @@ function App() {
     }
   };
 
-  const handleRemoveDuplicates = async () => {
-    if (!contextMenu) return;
-
-    const playlist = contextMenu.playlist;
-    console.log(`[Remove Duplicates] Starting for playlist: ${playlist.name}`);
+  const runRemoveDuplicates = async (playlist: LocalPlaylist, options: DuplicateRemovalOptions) => {
+    const mode = options.mode ?? 'copy';
+    console.log(`[Remove Duplicates] Starting for playlist: ${playlist.name} (${mode})`);
 
     try {
-      const result = await window.electronAPI.playlists.removeDuplicates(playlist.spotify_id);
+      const result = await window.electronAPI.playlists.removeDuplicates(
+        playlist.spotify_id,
+        options
+      );
 
       if (result.success && result.data) {
         const { originalCount, uniqueCount, duplicatesRemoved } = result.data;
         console.log(`[Remove Duplicates] Original: ${originalCount}, Unique: ${uniqueCount}, Removed: ${duplicatesRemoved}`);
-        console.log(`[Remove Duplicates] New playlist: ${result.data.playlistId}`);
+        if (mode === 'copy') {
+          console.log(`[Remove Duplicates] New playlist: ${result.data.playlistId}`);
+        }
 
         alert(
           `Remove Duplicates:\n\n` +
           `Original tracks: ${originalCount}\n` +
           `Unique tracks: ${uniqueCount}\n` +
           `Duplicates removed: ${duplicatesRemoved}\n\n` +
-          `Created new playlist: "${playlist.name} - No Duplicates"`
+          (mode === 'copy'
+            ? `Created new playlist: "${playlist.name} - No Duplicates"`
+            : `Removed from "${playlist.name}" (Cmd/Ctrl+Z to undo)`)
         );
 
         // Refresh playlist list
@@ -630,6 +1232,21 @@ function App() {
         <span>Total tracks: {totalTracks.toLocaleString()}</span>
         <span>Total duration: {durationHours}h {durationMinutes}m</span>
         <span>Avg: {avgTracks} tracks/playlist</span>
+        {schedulerState && schedulerState.queueDepth + schedulerState.active > 0 && (
+          <span title="Spotify requests queued / in flight">
+            API queue: {schedulerState.queueDepth} (+{schedulerState.active} active)
+          </span>
+        )}
+        {backoffSeconds > 0 && (
+          <span style={{ color: 'var(--warning)' }}>
+            ⚠ Rate limited, retrying in {backoffSeconds}s
+          </span>
+        )}
+        {lastSyncResult && (
+          <span title="Changes in the last sync">
+            Last sync: +{lastSyncResult.added} ~{lastSyncResult.changed} -{lastSyncResult.removed}
+          </span>
+        )}
         <div style={{ marginLeft: 'auto', display: 'flex', gap: '8px' }}>
           <span>Show:</span>
           <button
@@ -703,8 +1320,8 @@ function App() {
           </div>
         ) : (
           <div className="playlist-list">
-            <div className="playlist-table">
-              <div className="table-header">
+            <div className={`playlist-table ${settings.compactMode ? 'compact' : ''}`}>
+              <div className="table-header" style={{ gridTemplateColumns: tableColumns }}>
                 <div
                   className="col-checkbox sortable-header"
                   onClick={handleSelectAll}
@@ -724,12 +1341,30 @@ function App() {
                 >
                   TRACKS {sortColumn === 'track_count' && (sortDirection === 'asc' ? '↑' : '↓')}
                 </div>
-                <div
-                  className="col-duration sortable-header"
-                  onClick={() => handleSort('duration_ms')}
-                >
-                  DURATION {sortColumn === 'duration_ms' && (sortDirection === 'asc' ? '↑' : '↓')}
-                </div>
+                {settings.showDuration && (
+                  <div
+                    className="col-duration sortable-header"
+                    onClick={() => handleSort('duration_ms')}
+                  >
+                    DURATION {sortColumn === 'duration_ms' && (sortDirection === 'asc' ? '↑' : '↓')}
+                  </div>
+                )}
+                {settings.showCreatedDate && (
+                  <div
+                    className="col-created sortable-header"
+                    onClick={() => handleSort('created_at')}
+                  >
+                    CREATED {sortColumn === 'created_at' && (sortDirection === 'asc' ? '↑' : '↓')}
+                  </div>
+                )}
+                {settings.showFollowers && (
+                  <div
+                    className="col-followers sortable-header"
+                    onClick={() => handleSort('followers')}
+                  >
+                    FOLLOWERS {sortColumn === 'followers' && (sortDirection === 'asc' ? '↑' : '↓')}
+                  </div>
+                )}
                 <div
                   className="col-owner sortable-header"
                   onClick={() => handleSort('owner')}
@@ -745,6 +1380,7 @@ function App() {
                   <div
                     key={playlist.spotify_id}
                     className={`table-row ${selected ? 'selected' : ''}`}
+                    style={{ gridTemplateColumns: tableColumns }}
                     onClick={(e) => handleRowClick(playlist.spotify_id, e)}
                     onContextMenu={(e) => handleContextMenu(playlist, e)}
                   >
@@ -756,7 +1392,19 @@ function App() {
                     </div>
                     <div className="col-name">{playlist.name}</div>
                     <div className="col-tracks">{playlist.track_count}</div>
-                    <div className="col-duration">{formatDuration(playlist.duration_ms)}</div>
+                    {settings.showDuration && (
+                      <div className="col-duration">{formatDuration(playlist.duration_ms)}</div>
+                    )}
+                    {settings.showCreatedDate && (
+                      <div className="col-created">
+                        {playlist.created_at
+                          ? new Date(playlist.created_at).toLocaleDateString()
+                          : '-'}
+                      </div>
+                    )}
+                    {settings.showFollowers && (
+                      <div className="col-followers">{playlist.followers || '-'}</div>
+                    )}
                     <div className="col-owner" style={{ color: playlist.is_owner ? '#0f0' : '#0a0' }}>
                       {playlist.is_owner ? 'you' : playlist.owner}
                     </div>
@@ -776,6 +1424,8 @@ function App() {
         )}
       </div>
 
+      <ProgressPanel jobs={jobs} onCancel={cancelJob} />
+
       <div className="action-bar">
         <button
           onClick={handleMergeClick}
@@ -783,19 +1433,53 @@ function App() {
         >
           MERGE
         </button>
-        <button disabled>RENAME</button>
+        <button onClick={handleRenameClick} disabled={!authenticated || selectedIds.size === 0}>
+          RENAME
+        </button>
         <button onClick={handleTagClick} disabled={!authenticated || selectedIds.size === 0}>
           TAG
         </button>
-        <button disabled>SUBTRACT</button>
-        <button disabled>INTERSECT</button>
+        <button
+          onClick={handleSubtractClick}
+          disabled={!authenticated || selectedIds.size < 2}
+        >
+          SUBTRACT
+        </button>
+        <button
+          onClick={handleIntersectClick}
+          disabled={!authenticated || selectedIds.size < 2}
+        >
+          INTERSECT
+        </button>
         <button
           onClick={handleDeleteClick}
           disabled={!authenticated || selectedIds.size === 0}
         >
           DELETE
         </button>
-        <button disabled>SETTINGS</button>
+        <button
+          onClick={handleLikeClick}
+          disabled={
+            !authenticated ||
+            liking ||
+            !Array.from(selectedIds).some((id) => !isLikedSongs(id))
+          }
+        >
+          {liking ? 'LIKING...' : 'LIKE'}
+        </button>
+        <button onClick={handleUndoClick} disabled={!authenticated || undoing}>
+          {undoing ? 'UNDOING...' : 'UNDO'}
+        </button>
+        <button onClick={() => setShowSmartPlaylists(true)} disabled={!authenticated}>
+          SMART
+        </button>
+        <button onClick={() => setShowUnlinkedTracks(true)}>UNLINKED</button>
+        <button onClick={() => setShowOverlapReport(true)}>OVERLAP</button>
+        <button onClick={() => setShowHistory(true)}>HISTORY</button>
+        <button onClick={() => setShowJobQueue(true)}>
+          {activeJobCount > 0 ? `JOBS (${activeJobCount})` : 'JOBS'}
+        </button>
+        <button onClick={() => setShowSettings(true)}>SETTINGS</button>
         <button onClick={handleSync} disabled={!authenticated || syncing}>
           {syncing ? 'SYNCING...' : 'SYNC'}
         </button>
@@ -805,6 +1489,7 @@ function App() {
       {showDeleteModal && (
         <DeleteConfirmationModal
           playlists={playlistsToDelete}
+          plan={deletePlan}
           onConfirm={handleDeleteConfirm}
           onCancel={handleDeleteCancel}
           deleting={deleting}
@@ -826,11 +1511,130 @@ function App() {
         <MergeModal
           playlists={playlistsToMerge}
           onConfirm={handleMergeConfirm}
+          onPreview={handleMergePreview}
           onCancel={handleMergeCancel}
           merging={merging}
         />
       )}
 
+      {/* Rename modal */}
+      {showRenameModal && (
+        <RenameModal
+          playlists={playlistsToRename}
+          onConfirm={handleRenameConfirm}
+          onCancel={handleRenameCancel}
+          renaming={renaming}
+        />
+      )}
+
+      {/* Subtract modal */}
+      {showSubtractModal && (
+        <SubtractModal
+          playlists={playlistsToSubtract}
+          onConfirm={handleSubtractConfirm}
+          onPreview={handleSubtractPreview}
+          onCancel={handleSubtractCancel}
+          subtracting={subtracting}
+        />
+      )}
+
+      {/* Intersect modal */}
+      {showIntersectModal && (
+        <IntersectModal
+          playlists={playlistsToIntersect}
+          onConfirm={handleIntersectConfirm}
+          onCancel={handleIntersectCancel}
+          intersecting={intersecting}
+        />
+      )}
+
+      {/* Unlinked tracks browser, below the recovery modal it opens */}
+      {showUnlinkedTracks && (
+        <UnlinkedTracksModal
+          playlists={playlists}
+          onRecover={setRecoveryPlaylist}
+          onRemoved={refreshPlaylists}
+          onClose={() => setShowUnlinkedTracks(false)}
+        />
+      )}
+
+      {/* Fix broken links review modal */}
+      {recoveryPlaylist && (
+        <RecoveryReviewModal
+          playlist={recoveryPlaylist}
+          onPreview={handleRecoveryPreview}
+          onConfirm={handleRecoveryConfirm}
+          onCancel={() => setRecoveryPlaylist(null)}
+          running={recovering}
+        />
+      )}
+
+      {/* Market availability modal */}
+      {marketCheckPlaylist && (
+        <MarketCheckModal
+          playlist={marketCheckPlaylist}
+          onClose={() => setMarketCheckPlaylist(null)}
+        />
+      )}
+
+      {/* Remove duplicates review modal */}
+      {duplicatesPlaylist && (
+        <DuplicateReviewModal
+          playlist={duplicatesPlaylist}
+          onPreview={handleDuplicatesPreview}
+          onConfirm={handleDuplicatesConfirm}
+          onCancel={() => setDuplicatesPlaylist(null)}
+          running={removingDuplicates}
+        />
+      )}
+
+      {/* Overlap report modal */}
+      {showOverlapReport && (
+        <OverlapReportModal
+          playlists={playlists}
+          onSelect={handleOverlapSelect}
+          onClose={() => setShowOverlapReport(false)}
+        />
+      )}
+
+      {/* Smart playlists modal */}
+      {showSmartPlaylists && (
+        <SmartPlaylistsModal
+          playlists={playlists}
+          selectedIds={selectedIds}
+          onClose={() => setShowSmartPlaylists(false)}
+        />
+      )}
+
+      {/* History modal */}
+      {showHistory && (
+        <HistoryModal
+          playlists={playlists}
+          onUndo={undoOperation}
+          onClose={() => setShowHistory(false)}
+          undoing={undoing}
+        />
+      )}
+
+      {/* Job queue modal */}
+      {showJobQueue && (
+        <JobQueueModal
+          jobs={queuedJobs}
+          onAction={runJobAction}
+          onClose={() => setShowJobQueue(false)}
+        />
+      )}
+
+      {/* Settings modal */}
+      {showSettings && (
+        <SettingsModal
+          settings={settings}
+          databasePath={databasePath}
+          onSave={updateSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {/* Context menu */}
       {contextMenu && (
         <ContextMenu
@@ -841,12 +1645,14 @@ function App() {
           onOpenInSpotify={handleOpenInSpotify}
           onCopyLink={handleCopyLink}
           onCopyId={handleCopyId}
-          onRename={() => {}}
+          onRename={handleContextRename}
           onDelete={handleContextDelete}
           onEditTags={handleContextEditTags}
           onFindDuplicates={handleRemoveDuplicates}
           onRecoverUnlinked={handleFixBrokenLinks}
-          onExportCsv={() => {}}
+          onCheckMarket={handleCheckMarket}
+          onUnlikeTracks={handleContextUnlike}
+          onExportCsv={handleContextExportCsv}
         />
       )}
 
@@ -4,6 +4,7 @@
 
 import { useEffect } from 'react';
 import type { LocalPlaylist } from '@shared/types';
+import { isEditablePlaylist, isLikedSongs } from '@shared/liked-songs';
 
 interface ContextMenuProps {
   playlist: LocalPlaylist;
@@ -18,6 +19,8 @@ interface ContextMenuProps {
   onEditTags: () => void;
   onFindDuplicates: () => void;
   onRecoverUnlinked: () => void;
+  onCheckMarket: () => void;
+  onUnlikeTracks: () => void;
   onExportCsv: () => void;
 }
 
@@ -29,10 +32,14 @@ export function ContextMenu({
   onOpenInSpotify,
   onCopyLink,
   onCopyId,
+  onRename,
   onDelete,
   onEditTags,
   onFindDuplicates,
   onRecoverUnlinked,
+  onCheckMarket,
+  onUnlikeTracks,
+  onExportCsv,
 }: ContextMenuProps) {
   // Close on click outside or escape
   useEffect(() => {
@@ -80,10 +87,12 @@ export function ContextMenu({
 
       <div className="context-menu-separator" />
 
-      <div className="context-menu-item context-menu-item-disabled" title="Not yet implemented">
-        Rename (Cmd+R)
-      </div>
-      {playlist.is_owner && (
+      {isEditablePlaylist(playlist) && (
+        <div className="context-menu-item" onClick={handleAction(onRename)}>
+          Rename (Cmd+R)
+        </div>
+      )}
+      {isEditablePlaylist(playlist) && (
         <div className="context-menu-item" onClick={handleAction(onDelete)}>
           Delete (Del)
         </div>
@@ -97,15 +106,24 @@ export function ContextMenu({
       <div className="context-menu-item" onClick={handleAction(onFindDuplicates)}>
         Remove Duplicates
       </div>
-      {playlist.unlinked_count > 0 && (
+      {playlist.unlinked_count > 0 && !isLikedSongs(playlist.spotify_id) && (
         <div className="context-menu-item" onClick={handleAction(onRecoverUnlinked)}>
           Fix Broken Links ({playlist.unlinked_count})
         </div>
       )}
+      <div className="context-menu-item" onClick={handleAction(onCheckMarket)}>
+        Check Availability Abroad
+      </div>
+
+      {!isLikedSongs(playlist.spotify_id) && (
+        <div className="context-menu-item" onClick={handleAction(onUnlikeTracks)}>
+          Unlike Tracks in This Playlist
+        </div>
+      )}
 
       <div className="context-menu-separator" />
 
-      <div className="context-menu-item context-menu-item-disabled" title="Not yet implemented">
+      <div className="context-menu-item" onClick={handleAction(onExportCsv)}>
         Export to CSV
       </div>
     </div>
@@ -2,10 +2,13 @@
  * Delete confirmation modal component
  */
 
-import type { LocalPlaylist } from '@shared/types';
+import type { LocalPlaylist, OperationPlan } from '@shared/types';
+import { isEditablePlaylist, isLikedSongs } from '@shared/liked-songs';
+import { OperationPlanView } from './OperationPlanView';
 
 interface DeleteConfirmationModalProps {
   playlists: LocalPlaylist[];
+  plan: OperationPlan | null; // Dry-run result, null while loading
   onConfirm: () => void;
   onCancel: () => void;
   deleting?: boolean;
@@ -13,12 +16,13 @@ interface DeleteConfirmationModalProps {
 
 export function DeleteConfirmationModal({
   playlists,
+  plan,
   onConfirm,
   onCancel,
   deleting = false,
 }: DeleteConfirmationModalProps) {
-  // Check if any playlists are not owned
-  const notOwned = playlists.filter((p) => !p.is_owner);
+  // Check if any playlists are not owned (Liked Songs can't be deleted either)
+  const notOwned = playlists.filter((p) => !isEditablePlaylist(p));
   const canDelete = notOwned.length === 0;
 
   // Calculate total tracks
@@ -33,12 +37,15 @@ export function DeleteConfirmationModal({
           {!canDelete ? (
             <>
               <p className="error-message">
-                Cannot delete {notOwned.length} playlist(s) you don't own:
+                Cannot delete {notOwned.length} playlist(s):
               </p>
               <div className="playlist-list-box">
                 {notOwned.map((playlist) => (
                   <div key={playlist.spotify_id} className="playlist-item">
-                    • {playlist.name} (owned by {playlist.owner})
+                    • {playlist.name}{' '}
+                    {isLikedSongs(playlist.spotify_id)
+                      ? '(read-only)'
+                      : `(owned by ${playlist.owner})`}
                   </div>
                 ))}
               </div>
@@ -52,17 +59,11 @@ export function DeleteConfirmationModal({
                 Are you sure you want to delete {playlists.length} playlist
                 {playlists.length !== 1 ? 's' : ''}?
               </p>
-              <div className="playlist-list-box">
-                {playlists.map((playlist) => (
-                  <div key={playlist.spotify_id} className="playlist-item">
-                    • {playlist.name} ({playlist.track_count} tracks)
-                  </div>
-                ))}
-              </div>
+              {plan ? <OperationPlanView plan={plan} /> : <p className="info-text">Planning...</p>}
               <p className="stats-text">
                 Total: {playlists.length} playlists, {totalTracks.toLocaleString()} tracks
               </p>
-              <p className="error-message">This action CANNOT be undone.</p>
+              <p className="info-text">Deleted playlists can be restored with UNDO.</p>
             </>
           )}
         </div>
@@ -74,7 +75,7 @@ export function DeleteConfirmationModal({
           {canDelete && (
             <button
               onClick={onConfirm}
-              disabled={deleting}
+              disabled={deleting || !plan}
               className="modal-button modal-button-danger"
             >
               {deleting ? 'Deleting...' : 'Delete'}
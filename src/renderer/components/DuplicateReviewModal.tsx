@@ -0,0 +1,255 @@
+/**
+ * Modal for removing duplicates from a playlist: configure how tracks are
+ * matched, review every duplicate group and pick the version to keep
+ */
+
+import { useState, useEffect } from 'react';
+import type {
+  DuplicateMatchOptions,
+  DuplicateRemovalMode,
+  DuplicateRemovalOptions,
+  LocalPlaylist,
+  OperationPlan,
+  PlannedTrack,
+} from '@shared/types';
+import { DEFAULT_DUPLICATE_MATCH_OPTIONS } from '@shared/duplicates';
+import { UI_CONSTANTS } from '@shared/constants';
+import { isEditablePlaylist } from '@shared/liked-songs';
+import { useDebounce } from '../hooks/useDebounce';
+
+interface DuplicateReviewModalProps {
+  playlist: LocalPlaylist;
+  onPreview: (
+    options: DuplicateRemovalOptions
+  ) => Promise<{ plan: OperationPlan | null; error: string | null }>;
+  onConfirm: (options: DuplicateRemovalOptions) => void;
+  onCancel: () => void;
+  running: boolean;
+}
+
+function formatDuration(durationMs: number | undefined): string {
+  if (!durationMs) return '?:??';
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function formatVersion(track: PlannedTrack): string {
+  return (
+    `#${track.position! + 1} ${track.name || track.uri || 'Unknown'} — ` +
+    `${track.artist_name || 'Unknown'} · ${track.album_name || 'Unknown album'} · ` +
+    formatDuration(track.duration_ms)
+  );
+}
+
+export function DuplicateReviewModal({
+  playlist,
+  onPreview,
+  onConfirm,
+  onCancel,
+  running,
+}: DuplicateReviewModalProps) {
+  const editable = isEditablePlaylist(playlist);
+  const [mode, setMode] = useState<DuplicateRemovalMode>(editable ? 'in_place' : 'copy');
+  const [match, setMatch] = useState<DuplicateMatchOptions>(DEFAULT_DUPLICATE_MATCH_OPTIONS);
+  const [plan, setPlan] = useState<OperationPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [planning, setPlanning] = useState(false);
+  // Kept position per group, keyed by the position of the group's first version
+  const [keep, setKeep] = useState<Record<number, number>>({});
+
+  // Typing a duration tolerance shouldn't plan on every keystroke
+  const debouncedMatch = useDebounce(match, UI_CONSTANTS.SEARCH_DEBOUNCE_MS);
+
+  // Dry-run whenever the options change; picks from the previous plan are reset
+  useEffect(() => {
+    let stale = false;
+    setPlan(null);
+    setError(null);
+    setPlanning(true);
+
+    onPreview({ mode, match: debouncedMatch })
+      .then((result) => {
+        if (stale) return;
+        setPlan(result.plan);
+        setError(result.error);
+        setKeep(
+          Object.fromEntries(
+            (result.plan?.duplicateGroups || []).map((group) => [
+              group.tracks[0].position!,
+              group.keep,
+            ])
+          )
+        );
+      })
+      .finally(() => {
+        if (!stale) setPlanning(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [mode, debouncedMatch]);
+
+  const updateMatch = (changes: Partial<DuplicateMatchOptions>) => {
+    setMatch((prev) => ({ ...prev, ...changes }));
+  };
+
+  const groups = plan?.duplicateGroups || [];
+  const removedCount = groups.reduce((sum, group) => sum + group.tracks.length - 1, 0);
+  const canConfirm = !!plan && removedCount > 0 && !planning && !running;
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm({ mode, match: debouncedMatch, keep: Object.values(keep) });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content duplicate-review-modal">
+        <div className="modal-header">REMOVE DUPLICATES: {playlist.name}</div>
+
+        <div className="modal-body">
+          <div className="form-group">
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={mode === 'in_place'}
+                onChange={() => setMode('in_place')}
+                disabled={running || !editable}
+                style={{ marginRight: '8px', cursor: 'pointer' }}
+              />
+              <span style={{ color: 'var(--text-primary)' }}>Remove from this playlist</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={mode === 'copy'}
+                onChange={() => setMode('copy')}
+                disabled={running}
+                style={{ marginRight: '8px', cursor: 'pointer' }}
+              />
+              <span style={{ color: 'var(--text-primary)' }}>Create a copy without duplicates</span>
+            </label>
+            {!editable && (
+              <p className="info-text">Only playlists you own can be changed in place</p>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label>Match tracks by</label>
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={match.matchIsrc}
+                onChange={(e) => updateMatch({ matchIsrc: e.target.checked })}
+                disabled={running}
+                style={{ marginRight: '8px', cursor: 'pointer' }}
+              />
+              <span style={{ color: 'var(--text-primary)' }}>Same ISRC (same recording)</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={match.matchTitleArtist}
+                onChange={(e) => updateMatch({ matchTitleArtist: e.target.checked })}
+                disabled={running}
+                style={{ marginRight: '8px', cursor: 'pointer' }}
+              />
+              <span style={{ color: 'var(--text-primary)' }}>Same title and primary artist</span>
+            </label>
+            {match.matchTitleArtist && (
+              <div className="duplicate-match-options">
+                <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={match.stripVersionSuffixes}
+                    onChange={(e) => updateMatch({ stripVersionSuffixes: e.target.checked })}
+                    disabled={running}
+                    style={{ marginRight: '8px', cursor: 'pointer' }}
+                  />
+                  <span style={{ color: 'var(--text-primary)' }}>
+                    Ignore "Remastered", "Radio Edit", "Explicit"... in titles
+                  </span>
+                </label>
+                <label>
+                  Max length difference (seconds, empty for any){' '}
+                  <input
+                    type="number"
+                    min={0}
+                    className="text-input duplicate-tolerance"
+                    value={match.durationToleranceSec ?? ''}
+                    onChange={(e) =>
+                      updateMatch({
+                        durationToleranceSec:
+                          e.target.value === '' ? null : Math.max(0, Number(e.target.value)),
+                      })
+                    }
+                    disabled={running}
+                  />
+                </label>
+              </div>
+            )}
+            <p className="info-text">Tracks with the same URI always match</p>
+          </div>
+
+          {error ? (
+            <p className="error-message">{error}</p>
+          ) : planning || !plan ? (
+            <p className="info-text">Planning...</p>
+          ) : (
+            <>
+              <p>Pick the version to keep:</p>
+              <div className="playlist-list-box duplicate-groups">
+                {groups.map((group) => {
+                  const groupKey = group.tracks[0].position!;
+
+                  return (
+                    <div key={groupKey} className="duplicate-group">
+                      {group.tracks.map((track) => (
+                        <label key={track.position} className="playlist-item duplicate-version">
+                          <input
+                            type="radio"
+                            name={`duplicate-group-${groupKey}`}
+                            checked={keep[groupKey] === track.position}
+                            onChange={() =>
+                              setKeep((prev) => ({ ...prev, [groupKey]: track.position! }))
+                            }
+                            disabled={running}
+                          />
+                          {formatVersion(track)}
+                        </label>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="stats-text">
+                {groups.length} groups · {removedCount} tracks will be removed
+                {mode === 'copy' && ` · creates "${playlist.name} - No Duplicates"`}
+              </p>
+              {plan.warnings.map((warning) => (
+                <p key={warning} className="warning-message">
+                  {warning}
+                </p>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" onClick={onCancel} disabled={running} className="modal-button">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+            className="modal-button"
+          >
+            {running ? 'Running...' : mode === 'copy' ? 'Create playlist →' : 'Remove duplicates →'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * Modal for browsing the operation history (audit log)
+ */
+
+import { useState, useMemo } from 'react';
+import type { LocalPlaylist, OperationHistory, OperationHistoryFilter } from '@shared/types';
+import {
+  OPERATION_TYPE_LABELS,
+  type OperationType,
+  parseAffectedPlaylists,
+  parseOperationDetails,
+  summarizeOperation,
+} from '@shared/history';
+import { useOperationHistory } from '../hooks/useOperationHistory';
+
+interface HistoryModalProps {
+  playlists: LocalPlaylist[];
+  onUndo: (operation: OperationHistory) => Promise<void>;
+  onClose: () => void;
+  undoing: boolean;
+}
+
+/**
+ * Format a details value for display
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    return value.length <= 5 && value.every((item) => typeof item === 'string')
+      ? value.join(', ')
+      : `${value.length} items`;
+  }
+  return JSON.stringify(value);
+}
+
+export function HistoryModal({ playlists, onUndo, onClose, undoing }: HistoryModalProps) {
+  const [operationType, setOperationType] = useState<OperationType | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Date inputs are whole days in local time
+  const filter = useMemo<OperationHistoryFilter>(
+    () => ({
+      operationTypes: operationType ? [operationType] : undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined,
+    }),
+    [operationType, fromDate, toDate]
+  );
+
+  const { entries, loading, error, reload, exportHistory } = useOperationHistory(filter);
+
+  const playlistNames = useMemo(
+    () => new Map(playlists.map((p) => [p.spotify_id, p.name])),
+    [playlists]
+  );
+
+  /**
+   * Name of an affected playlist; deleted ones are looked up in the undo data
+   */
+  const getPlaylistName = (operation: OperationHistory, playlistId: string): string => {
+    const deleted = parseOperationDetails(operation).undo?.deleted_playlists?.find(
+      (p) => p.spotify_id === playlistId
+    );
+    return playlistNames.get(playlistId) ?? deleted?.name ?? playlistId;
+  };
+
+  const handleUndo = async (operation: OperationHistory) => {
+    await onUndo(operation);
+    await reload();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content history-modal">
+        <div className="modal-header">OPERATION HISTORY</div>
+
+        <div className="modal-body">
+          <div className="history-filters">
+            <select
+              className="text-input"
+              value={operationType}
+              onChange={(e) => setOperationType(e.target.value as OperationType | '')}
+            >
+              <option value="">All operations</option>
+              {Object.entries(OPERATION_TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <label>
+              From{' '}
+              <input
+                type="date"
+                className="text-input"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </label>
+            <label>
+              To{' '}
+              <input
+                type="date"
+                className="text-input"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </label>
+          </div>
+
+          {error && <p className="error-message">{error}</p>}
+
+          <div className="playlist-list-box history-list">
+            {!loading && entries.length === 0 && (
+              <div className="playlist-item">No operations found</div>
+            )}
+            {entries.map((operation) => {
+              const expanded = expandedId === operation.id;
+              // Inverse data is for undo only, not worth showing
+              const details = Object.entries(parseOperationDetails(operation)).filter(
+                ([key]) => key !== 'undo'
+              );
+
+              return (
+                <div key={operation.id} className="playlist-item history-entry">
+                  <div
+                    className="history-entry-row"
+                    onClick={() => setExpandedId(expanded ? null : operation.id)}
+                  >
+                    <span className="history-time">
+                      {new Date(operation.timestamp).toLocaleString()}
+                    </span>
+                    <span className="history-type">
+                      {OPERATION_TYPE_LABELS[operation.operation_type] ?? operation.operation_type}
+                    </span>
+                    <span className="history-summary">{summarizeOperation(operation)}</span>
+                    {!!operation.can_undo && (
+                      <button
+                        className="job-action"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleUndo(operation);
+                        }}
+                        disabled={undoing}
+                      >
+                        [undo]
+                      </button>
+                    )}
+                  </div>
+
+                  {expanded && (
+                    <div className="history-details">
+                      <div>
+                        Playlists:{' '}
+                        {parseAffectedPlaylists(operation)
+                          .map((id) => getPlaylistName(operation, id))
+                          .join(', ') || '—'}
+                      </div>
+                      {details.map(([key, value]) => (
+                        <div key={key}>
+                          {key.replace(/_/g, ' ')}: {formatValue(value)}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="stats-text">
+            {loading ? 'Loading...' : `${entries.length} operations`}
+          </p>
+        </div>
+
+        <div className="modal-actions">
+          <button
+            type="button"
+            onClick={() => exportHistory('csv')}
+            disabled={entries.length === 0}
+            className="modal-button"
+          >
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={() => exportHistory('json')}
+            disabled={entries.length === 0}
+            className="modal-button"
+          >
+            Export JSON
+          </button>
+          <button type="button" onClick={onClose} className="modal-button">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
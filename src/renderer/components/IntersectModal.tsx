@@ -0,0 +1,148 @@
+/**
+ * Modal for intersecting multiple playlists
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type { IntersectConfig, LocalPlaylist } from '@shared/types';
+
+interface IntersectModalProps {
+  playlists: LocalPlaylist[];
+  onConfirm: (config: IntersectConfig) => void;
+  onCancel: () => void;
+  intersecting: boolean;
+}
+
+export function IntersectModal({
+  playlists,
+  onConfirm,
+  onCancel,
+  intersecting,
+}: IntersectModalProps) {
+  const [targetName, setTargetName] = useState('');
+  const [atLeastMode, setAtLeastMode] = useState(false);
+  const [minCount, setMinCount] = useState(2);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const total = playlists.length;
+  const isMinCountValid = Number.isInteger(minCount) && minCount >= 2 && minCount <= total;
+
+  // Generate default target name
+  useEffect(() => {
+    if (playlists.length === 0) return;
+
+    setTargetName(
+      playlists.length === 2
+        ? `${playlists[0].name} ∩ ${playlists[1].name}`
+        : `Common to ${playlists.length} playlists`
+    );
+  }, [playlists]);
+
+  // Auto-focus input
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const canSubmit = targetName.trim() && (!atLeastMode || isMinCountValid) && !intersecting;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) {
+      onConfirm({
+        playlistIds: playlists.map((p) => p.spotify_id),
+        targetName: targetName.trim(),
+        minCount: atLeastMode ? minCount : total,
+      });
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">INTERSECT PLAYLISTS</div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="modal-body">
+            <p>Intersecting:</p>
+            <div className="playlist-list-box">
+              {playlists.map((playlist) => (
+                <div key={playlist.spotify_id} className="playlist-item">
+                  • {playlist.name} ({playlist.track_count} tracks)
+                </div>
+              ))}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="intersect-target-name">Target Playlist Name</label>
+              <input
+                ref={inputRef}
+                id="intersect-target-name"
+                type="text"
+                className="text-input"
+                value={targetName}
+                onChange={(e) => setTargetName(e.target.value)}
+                disabled={intersecting}
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="radio-label">
+                <input
+                  type="radio"
+                  name="intersect-mode"
+                  checked={!atLeastMode}
+                  onChange={() => setAtLeastMode(false)}
+                  disabled={intersecting}
+                />
+                <span>Tracks in all {total} playlists</span>
+              </label>
+              {total > 2 && (
+                <label className="radio-label">
+                  <input
+                    type="radio"
+                    name="intersect-mode"
+                    checked={atLeastMode}
+                    onChange={() => setAtLeastMode(true)}
+                    disabled={intersecting}
+                  />
+                  <span>
+                    Tracks in at least{' '}
+                    <input
+                      type="number"
+                      className="text-input"
+                      style={{ width: '60px', display: 'inline-block' }}
+                      min={2}
+                      max={total}
+                      value={minCount}
+                      onChange={(e) => setMinCount(parseInt(e.target.value, 10))}
+                      disabled={intersecting || !atLeastMode}
+                    />{' '}
+                    of {total} playlists
+                  </span>
+                </label>
+              )}
+              {atLeastMode && !isMinCountValid && (
+                <p className="warning-message">Enter a number between 2 and {total}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={intersecting}
+              className="modal-button"
+            >
+              Cancel
+            </button>
+            <button type="submit" disabled={!canSubmit} className="modal-button">
+              {intersecting ? 'Intersecting...' : 'Intersect →'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * Modal listing the persistent job queue
+ */
+
+import type { Job, JobType } from '@shared/types';
+
+interface JobQueueModalProps {
+  jobs: Job[];
+  onAction: (action: 'pause' | 'resume' | 'retry' | 'remove', jobId: number) => void;
+  onClose: () => void;
+}
+
+const JOB_LABELS: Record<JobType, string> = {
+  merge: 'Merge',
+  delete: 'Delete',
+  remove_duplicates: 'Remove duplicates',
+  fix_broken_links: 'Fix broken links',
+  remove_unlinked: 'Remove unlinked tracks',
+  like: 'Like tracks',
+  unlike: 'Unlike tracks',
+  sync: 'Sync',
+  sync_details: 'Sync details',
+  smart_playlists: 'Update smart playlists',
+};
+
+/**
+ * Describe how far an interrupted job got, from its checkpoint
+ */
+function describeCheckpoint(job: Job): string | null {
+  if (!job.checkpoint || job.status === 'done') return null;
+
+  const checkpoint = JSON.parse(job.checkpoint);
+  if (typeof checkpoint.addedCount === 'number' && Array.isArray(checkpoint.uris)) {
+    return `${checkpoint.addedCount}/${checkpoint.uris.length} tracks added`;
+  }
+  return null;
+}
+
+export function JobQueueModal({ jobs, onAction, onClose }: JobQueueModalProps) {
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">JOB QUEUE</div>
+
+        <div className="modal-body">
+          {jobs.length === 0 ? (
+            <p className="info-text">No jobs yet</p>
+          ) : (
+            <div className="playlist-list-box">
+              {jobs.map((job) => {
+                const progress = describeCheckpoint(job);
+
+                return (
+                  <div key={job.id} className="playlist-item job-row">
+                    <span>
+                      #{job.id} {JOB_LABELS[job.type] || job.type}
+                    </span>
+                    <span className={`job-status job-status-${job.status}`}>{job.status}</span>
+                    <span className="job-meta">
+                      {new Date(job.created_at).toLocaleString()}
+                      {job.attempts > 1 && ` · ${job.attempts} attempts`}
+                      {progress && ` · ${progress}`}
+                      {job.error && job.status === 'failed' && ` · ${job.error}`}
+                    </span>
+                    <span className="job-actions">
+                      {(job.status === 'queued' || job.status === 'running') && (
+                        <button className="job-action" onClick={() => onAction('pause', job.id)}>
+                          [pause]
+                        </button>
+                      )}
+                      {job.status === 'paused' && (
+                        <button className="job-action" onClick={() => onAction('resume', job.id)}>
+                          [resume]
+                        </button>
+                      )}
+                      {job.status === 'failed' && (
+                        <button className="job-action" onClick={() => onAction('retry', job.id)}>
+                          [retry]
+                        </button>
+                      )}
+                      {job.status !== 'queued' && job.status !== 'running' && (
+                        <button className="job-action" onClick={() => onAction('remove', job.id)}>
+                          [remove]
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <p className="info-text">
+            Paused and failed jobs continue from their last checkpoint when resumed
+          </p>
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" onClick={onClose} className="modal-button">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
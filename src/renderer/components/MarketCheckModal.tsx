@@ -0,0 +1,182 @@
+/**
+ * Modal checking which tracks of a playlist play in the user's market but
+ * not in another one, and where the user's market is set
+ */
+
+import { useState, useEffect } from 'react';
+import type { LocalPlaylist, MarketAvailabilityReport } from '@shared/types';
+import { MARKET_PATTERN } from '@shared/constants';
+
+interface MarketCheckModalProps {
+  playlist: LocalPlaylist;
+  onClose: () => void;
+}
+
+export function MarketCheckModal({ playlist, onClose }: MarketCheckModalProps) {
+  const [market, setMarket] = useState<string | null>(null);
+  // Market setting as edited, empty to use the account's country
+  const [marketInput, setMarketInput] = useState('');
+  const [savingMarket, setSavingMarket] = useState(false);
+  const [targetMarket, setTargetMarket] = useState('');
+  const [report, setReport] = useState<MarketAvailabilityReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.market.get().then((result) => {
+      if (result.success && result.data) {
+        setMarket(result.data.market);
+        setMarketInput(result.data.setting || '');
+      } else {
+        setError(result.error || 'Failed to get market');
+      }
+    });
+  }, []);
+
+  const normalizedMarket = marketInput.trim().toUpperCase();
+  const normalizedTarget = targetMarket.trim().toUpperCase();
+  const marketValid = normalizedMarket === '' || MARKET_PATTERN.test(normalizedMarket);
+  const targetValid = MARKET_PATTERN.test(normalizedTarget);
+
+  const handleSaveMarket = async () => {
+    if (!marketValid) return;
+
+    try {
+      setSavingMarket(true);
+      setError(null);
+      const result = await window.electronAPI.settings.update({
+        market: normalizedMarket || null,
+      });
+      const current = await window.electronAPI.market.get();
+
+      if (!result.success) {
+        setError(result.error || 'Failed to set market');
+      } else if (current.success && current.data) {
+        // Results were computed for the previous market
+        if (current.data.market !== market) setReport(null);
+        setMarket(current.data.market);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set market');
+    } finally {
+      setSavingMarket(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    if (!targetValid) return;
+
+    try {
+      setChecking(true);
+      setError(null);
+      setReport(null);
+      const result = await window.electronAPI.playlists.checkMarket(
+        playlist.spotify_id,
+        normalizedTarget
+      );
+
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        setError(result.error || 'Failed to check availability');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check availability');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content market-check-modal">
+        <div className="modal-header">CHECK AVAILABILITY: {playlist.name}</div>
+
+        <div className="modal-body">
+          <div className="form-group">
+            <label>
+              Your market{' '}
+              <input
+                type="text"
+                maxLength={2}
+                className="text-input market-input"
+                value={marketInput}
+                placeholder={market || '…'}
+                onChange={(e) => setMarketInput(e.target.value)}
+                disabled={savingMarket}
+              />{' '}
+              <button
+                type="button"
+                onClick={handleSaveMarket}
+                disabled={savingMarket || !marketValid}
+                className="market-save"
+              >
+                {savingMarket ? 'Saving...' : 'Save'}
+              </button>
+            </label>
+            <p className="info-text">
+              Leave empty to use your account's country. Changing it syncs all playlists again
+            </p>
+          </div>
+
+          <div className="form-group">
+            <label>
+              Check against{' '}
+              <input
+                type="text"
+                maxLength={2}
+                className="text-input market-input"
+                value={targetMarket}
+                placeholder="JP"
+                onChange={(e) => setTargetMarket(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCheck()}
+                disabled={checking}
+              />
+            </label>
+          </div>
+
+          {error && <p className="error-message">{error}</p>}
+
+          {checking && <p className="info-text">Checking tracks...</p>}
+
+          {report && (
+            <>
+              {report.unavailable.length > 0 ? (
+                <div className="playlist-list-box recovery-list">
+                  {report.unavailable.map((track) => (
+                    <div key={track.position} className="playlist-item">
+                      #{track.position! + 1} {track.name || track.uri} —{' '}
+                      {track.artist_name || 'Unknown'}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="info-text">Everything that plays in {report.market} plays there too</p>
+              )}
+              <p className="stats-text">
+                {report.unavailable.length} of {report.total} tracks play in {report.market} but
+                not in {report.targetMarket}
+                {report.unavailableInBoth > 0 &&
+                  ` · ${report.unavailableInBoth} unavailable in both`}
+              </p>
+            </>
+          )}
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" onClick={onClose} className="modal-button">
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleCheck}
+            disabled={checking || !targetValid}
+            className="modal-button"
+          >
+            {checking ? 'Checking...' : 'Check →'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
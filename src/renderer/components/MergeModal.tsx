@@ -3,15 +3,24 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import type { LocalPlaylist } from '@shared/types';
+import type { DuplicateMatchOptions, LocalPlaylist, OperationPlan } from '@shared/types';
+import { DEFAULT_DUPLICATE_MATCH_OPTIONS } from '@shared/duplicates';
+import { OperationPlanView } from './OperationPlanView';
 
 interface MergeModalProps {
   playlists: LocalPlaylist[];
   onConfirm: (
     targetName: string,
     removeDuplicates: boolean,
-    deleteSource: boolean
+    deleteSource: boolean,
+    duplicateMatch?: DuplicateMatchOptions
   ) => void;
+  onPreview: (
+    targetName: string,
+    removeDuplicates: boolean,
+    deleteSource: boolean,
+    duplicateMatch?: DuplicateMatchOptions
+  ) => Promise<OperationPlan | null>;
   onCancel: () => void;
   merging: boolean;
 }
@@ -19,12 +28,16 @@ interface MergeModalProps {
 export function MergeModal({
   playlists,
   onConfirm,
+  onPreview,
   onCancel,
   merging,
 }: MergeModalProps) {
   const [targetName, setTargetName] = useState('');
   const [removeDuplicates, setRemoveDuplicates] = useState(false);
+  const [matchVersions, setMatchVersions] = useState(false);
   const [deleteSource, setDeleteSource] = useState(false);
+  const [plan, setPlan] = useState<OperationPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Calculate total tracks
@@ -53,6 +66,28 @@ export function MergeModal({
     setTargetName(defaultName);
   }, [playlists]);
 
+  // Other versions of a song (same ISRC, or same title and artist) count as duplicates
+  const duplicateMatch = matchVersions ? DEFAULT_DUPLICATE_MATCH_OPTIONS : undefined;
+
+  // Dry-run the merge whenever the options change
+  useEffect(() => {
+    let stale = false;
+    setPlan(null);
+    setPlanning(true);
+
+    onPreview(targetName || 'Merged Playlist', removeDuplicates, deleteSource, duplicateMatch)
+      .then((result) => {
+        if (!stale) setPlan(result);
+      })
+      .finally(() => {
+        if (!stale) setPlanning(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [removeDuplicates, deleteSource, matchVersions]);
+
   // Auto-focus input
   useEffect(() => {
     inputRef.current?.focus();
@@ -62,7 +97,7 @@ export function MergeModal({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (targetName.trim() && !merging) {
-      onConfirm(targetName.trim(), removeDuplicates, deleteSource);
+      onConfirm(targetName.trim(), removeDuplicates, deleteSource, duplicateMatch);
     }
   };
 
@@ -112,6 +147,20 @@ export function MergeModal({
                 <span style={{ color: 'var(--text-primary)' }}>Remove duplicates</span>
               </label>
               <p className="info-text">Keep only first occurrence of each track (by URI)</p>
+              {removeDuplicates && (
+                <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={matchVersions}
+                    onChange={(e) => setMatchVersions(e.target.checked)}
+                    disabled={merging}
+                    style={{ marginRight: '8px', cursor: 'pointer' }}
+                  />
+                  <span style={{ color: 'var(--text-primary)' }}>
+                    Also match other versions (same ISRC, or same title and artist)
+                  </span>
+                </label>
+              )}
             </div>
 
             <div className="form-group">
@@ -131,6 +180,26 @@ export function MergeModal({
                 </p>
               )}
             </div>
+
+            <div className="form-group">
+              <label>Plan</label>
+              {planning ? (
+                <p className="info-text">Planning...</p>
+              ) : plan ? (
+                <OperationPlanView
+                  plan={{
+                    ...plan,
+                    // The name is editable after planning
+                    playlistsToCreate: plan.playlistsToCreate.map((p) => ({
+                      ...p,
+                      name: targetName.trim() || p.name,
+                    })),
+                  }}
+                />
+              ) : (
+                <p className="error-message">Could not plan this merge</p>
+              )}
+            </div>
           </div>
 
           <div className="modal-actions">
@@ -144,7 +213,7 @@ export function MergeModal({
             </button>
             <button
               type="submit"
-              disabled={!targetName.trim() || merging}
+              disabled={!targetName.trim() || !plan || merging}
               className="modal-button"
             >
               {merging ? 'Merging...' : 'Merge →'}
@@ -0,0 +1,116 @@
+/**
+ * Read-only view of a dry-run plan (what an operation would change)
+ */
+
+import type { OperationPlan, PlannedTrack } from '@shared/types';
+
+interface OperationPlanViewProps {
+  plan: OperationPlan;
+}
+
+// Long track lists are truncated to keep the modal responsive
+const MAX_LISTED_TRACKS = 50;
+
+function formatTrack(track: PlannedTrack): string {
+  const position = track.position !== undefined ? `#${track.position + 1} ` : '';
+  return `${position}${track.name || track.uri || 'Unknown'} — ${track.artist_name || 'Unknown'}`;
+}
+
+function TrackList({ title, tracks }: { title: string; tracks: PlannedTrack[] }) {
+  if (tracks.length === 0) return null;
+
+  return (
+    <>
+      <p>
+        {title}: {tracks.length}
+      </p>
+      <div className="playlist-list-box">
+        {tracks.slice(0, MAX_LISTED_TRACKS).map((track, index) => (
+          <div key={`${track.uri}-${index}`} className="playlist-item">
+            • {formatTrack(track)}
+          </div>
+        ))}
+        {tracks.length > MAX_LISTED_TRACKS && (
+          <div className="playlist-item">… and {tracks.length - MAX_LISTED_TRACKS} more</div>
+        )}
+      </div>
+    </>
+  );
+}
+
+export function OperationPlanView({ plan }: OperationPlanViewProps) {
+  const isEmpty =
+    plan.playlistsToCreate.length === 0 &&
+    plan.playlistsToDelete.length === 0 &&
+    plan.tracksToAdd.length === 0 &&
+    plan.tracksToRemove.length === 0 &&
+    plan.duplicates.length === 0 &&
+    plan.replacements.length === 0;
+
+  return (
+    <div>
+      {isEmpty && <p className="info-text">Nothing to change</p>}
+
+      {plan.playlistsToCreate.length > 0 && (
+        <>
+          <p>Playlists to create:</p>
+          <div className="playlist-list-box">
+            {plan.playlistsToCreate.map((playlist) => (
+              <div key={playlist.name} className="playlist-item">
+                + {playlist.name} ({playlist.trackCount} tracks)
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {plan.playlistsToDelete.length > 0 && (
+        <>
+          <p>Playlists to delete:</p>
+          <div className="playlist-list-box">
+            {plan.playlistsToDelete.map((playlist) => (
+              <div key={playlist.spotify_id} className="playlist-item">
+                - {playlist.name} ({playlist.track_count} tracks)
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <TrackList title="Tracks to add" tracks={plan.tracksToAdd} />
+      <TrackList title="Tracks to remove" tracks={plan.tracksToRemove} />
+      <TrackList title="Duplicates found" tracks={plan.duplicates} />
+
+      {plan.replacements.length > 0 && (
+        <>
+          <p>Replacement candidates:</p>
+          <div className="playlist-list-box">
+            {plan.replacements.map((replacement, index) => (
+              <div key={index} className="playlist-item">
+                {replacement.candidate ? (
+                  <>
+                    ✓ {formatTrack(replacement.original)} → {formatTrack(replacement.candidate)}{' '}
+                    <span className={replacement.needsReview ? 'warning-message' : ''}>
+                      ({Math.round(replacement.score * 100)}% match
+                      {replacement.needsReview && ', needs review'})
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    ✗ {formatTrack(replacement.original)} ({replacement.reason})
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {plan.warnings.map((warning) => (
+        <p key={warning} className="warning-message">
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
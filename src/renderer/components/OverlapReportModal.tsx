@@ -0,0 +1,208 @@
+/**
+ * Modal showing the library-wide overlap report
+ * Clicking an entry selects the playlists it refers to in the main table
+ */
+
+import { useState, useMemo } from 'react';
+import type { LocalPlaylist, OverlapReportOptions } from '@shared/types';
+import { UI_CONSTANTS } from '@shared/constants';
+import { useDebounce } from '../hooks/useDebounce';
+import { useOverlapReport } from '../hooks/useOverlapReport';
+
+interface OverlapReportModalProps {
+  playlists: LocalPlaylist[];
+  onSelect: (playlistIds: string[]) => void;
+  onClose: () => void;
+}
+
+type ReportSection = 'tracks' | 'pairs' | 'subsets';
+
+const SECTION_LABELS: Record<ReportSection, string> = {
+  tracks: 'Shared tracks',
+  pairs: 'Similar playlists',
+  subsets: 'Near subsets',
+};
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function OverlapReportModal({ playlists, onSelect, onClose }: OverlapReportModalProps) {
+  const [section, setSection] = useState<ReportSection>('pairs');
+  const [minPlaylistsPerTrack, setMinPlaylistsPerTrack] = useState(3);
+  const [minJaccardPercent, setMinJaccardPercent] = useState(50);
+  const [minCoveragePercent, setMinCoveragePercent] = useState(90);
+
+  // Rescanning on every keystroke would be wasteful for large libraries
+  const delay = UI_CONSTANTS.SEARCH_DEBOUNCE_MS;
+  const debouncedPlaylistsPerTrack = useDebounce(minPlaylistsPerTrack, delay);
+  const debouncedJaccard = useDebounce(minJaccardPercent, delay);
+  const debouncedCoverage = useDebounce(minCoveragePercent, delay);
+
+  const options = useMemo<OverlapReportOptions>(
+    () => ({
+      minPlaylistsPerTrack: debouncedPlaylistsPerTrack,
+      minJaccard: debouncedJaccard / 100,
+      minSubsetCoverage: debouncedCoverage / 100,
+    }),
+    [debouncedPlaylistsPerTrack, debouncedJaccard, debouncedCoverage]
+  );
+
+  const { report, loading, error, reload } = useOverlapReport(options);
+
+  const playlistNames = useMemo(
+    () => new Map(playlists.map((p) => [p.spotify_id, p.name])),
+    [playlists]
+  );
+  const getName = (playlistId: string) => playlistNames.get(playlistId) ?? playlistId;
+
+  const entryCount: Record<ReportSection, number> | null = report
+    ? {
+        tracks: report.tracks.length,
+        pairs: report.similarPairs.length,
+        subsets: report.nearSubsets.length,
+      }
+    : null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content overlap-modal">
+        <div className="modal-header">LIBRARY OVERLAP REPORT</div>
+
+        <div className="modal-body">
+          <div className="history-filters">
+            {(Object.keys(SECTION_LABELS) as ReportSection[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                className={`overlap-tab ${section === key ? 'active' : ''}`}
+                onClick={() => setSection(key)}
+              >
+                {SECTION_LABELS[key]}
+                {entryCount && ` (${entryCount[key]})`}
+              </button>
+            ))}
+          </div>
+
+          <div className="history-filters">
+            {section === 'tracks' && (
+              <label>
+                In at least{' '}
+                <input
+                  type="number"
+                  min={2}
+                  className="text-input overlap-threshold"
+                  value={minPlaylistsPerTrack}
+                  onChange={(e) => setMinPlaylistsPerTrack(Math.max(2, Number(e.target.value)))}
+                />{' '}
+                playlists
+              </label>
+            )}
+            {section === 'pairs' && (
+              <label>
+                Overlap (Jaccard) of at least{' '}
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  className="text-input overlap-threshold"
+                  value={minJaccardPercent}
+                  onChange={(e) =>
+                    setMinJaccardPercent(Math.min(100, Math.max(1, Number(e.target.value))))
+                  }
+                />
+                %
+              </label>
+            )}
+            {section === 'subsets' && (
+              <label>
+                At least{' '}
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  className="text-input overlap-threshold"
+                  value={minCoveragePercent}
+                  onChange={(e) =>
+                    setMinCoveragePercent(Math.min(100, Math.max(1, Number(e.target.value))))
+                  }
+                />
+                % of the tracks found in a bigger playlist
+              </label>
+            )}
+          </div>
+
+          {error && <p className="error-message">{error}</p>}
+
+          <div className="playlist-list-box history-list">
+            {loading || !report ? (
+              <div className="playlist-item">Scanning library...</div>
+            ) : section === 'tracks' ? (
+              report.tracks.length === 0 ? (
+                <div className="playlist-item">No tracks found in that many playlists</div>
+              ) : (
+                report.tracks.map((track) => (
+                  <div
+                    key={track.uri}
+                    className="playlist-item overlap-entry"
+                    onClick={() => onSelect(track.playlistIds)}
+                    title={track.playlistIds.map(getName).join('\n')}
+                  >
+                    <span className="overlap-score">{track.playlistIds.length}×</span>
+                    {track.name || track.uri} — {track.artist_name || 'Unknown'}
+                  </div>
+                ))
+              )
+            ) : section === 'pairs' ? (
+              report.similarPairs.length === 0 ? (
+                <div className="playlist-item">No similar playlists</div>
+              ) : (
+                report.similarPairs.map((pair) => (
+                  <div
+                    key={`${pair.playlistA}-${pair.playlistB}`}
+                    className="playlist-item overlap-entry"
+                    onClick={() => onSelect([pair.playlistA, pair.playlistB])}
+                  >
+                    <span className="overlap-score">{formatPercent(pair.jaccard)}</span>
+                    {getName(pair.playlistA)} ↔ {getName(pair.playlistB)} ({pair.shared} shared)
+                  </div>
+                ))
+              )
+            ) : report.nearSubsets.length === 0 ? (
+              <div className="playlist-item">No near subsets</div>
+            ) : (
+              report.nearSubsets.map((subset) => (
+                <div
+                  key={`${subset.subsetId}-${subset.supersetId}`}
+                  className="playlist-item overlap-entry"
+                  onClick={() => onSelect([subset.subsetId, subset.supersetId])}
+                >
+                  <span className="overlap-score">{formatPercent(subset.coverage)}</span>
+                  {getName(subset.subsetId)} ⊂ {getName(subset.supersetId)} ({subset.shared} shared)
+                </div>
+              ))
+            )}
+          </div>
+
+          {report && (
+            <p className="stats-text">
+              {report.scannedPlaylists} playlists scanned
+              {report.staleCachePlaylists > 0 &&
+                ` · ${report.staleCachePlaylists} without up-to-date tracks (sync to include them)`}
+            </p>
+          )}
+          <p className="info-text">Click an entry to select its playlists</p>
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" onClick={reload} disabled={loading} className="modal-button">
+            Refresh
+          </button>
+          <button type="button" onClick={onClose} className="modal-button">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * Progress panel for long-running operations
+ */
+
+import type { OperationProgress } from '@shared/types';
+
+interface ProgressPanelProps {
+  jobs: OperationProgress[];
+  onCancel: (jobId: string) => void;
+}
+
+const OPERATION_LABELS: Record<string, string> = {
+  merge: 'Merge',
+  delete: 'Delete',
+  fix_broken_links: 'Fix broken links',
+  remove_unlinked: 'Remove unlinked tracks',
+  remove_duplicates: 'Remove duplicates',
+  like: 'Like tracks',
+  unlike: 'Unlike tracks',
+  sync: 'Sync',
+  sync_details: 'Sync details',
+  smart_playlists: 'Smart playlists',
+};
+
+export function ProgressPanel({ jobs, onCancel }: ProgressPanelProps) {
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="progress-panel">
+      {jobs.map((job) => {
+        const percent = job.total > 0 ? Math.round((job.current / job.total) * 100) : 0;
+        const width = 20;
+        const filled = Math.round((percent / 100) * width);
+
+        return (
+          <div key={job.jobId} className="progress-row">
+            <span className="progress-label">
+              {OPERATION_LABELS[job.operation] || job.operation}
+            </span>
+            <span className="progress-bar">
+              [{'#'.repeat(filled)}
+              {'.'.repeat(width - filled)}]
+            </span>
+            <span>
+              {job.phase} {job.total > 0 && `${job.current}/${job.total}`}
+              {job.playlistName && ` · ${job.playlistName}`}
+            </span>
+            {job.status === 'running' ? (
+              <button className="progress-cancel" onClick={() => onCancel(job.jobId)}>
+                [cancel]
+              </button>
+            ) : (
+              <span className={job.status === 'done' ? '' : 'warning-message'}>
+                {job.status}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+/**
+ * Modal for fixing broken links in a playlist: choose between swapping
+ * tracks in place and a new playlist, set how closely a replacement has to
+ * match, review borderline matches and pick or reject each replacement
+ */
+
+import { useState, useEffect } from 'react';
+import type {
+  BrokenTrackRecoveryMode,
+  BrokenTrackRecoveryOptions,
+  LocalPlaylist,
+  OperationPlan,
+  PlannedReplacement,
+  PlannedTrack,
+} from '@shared/types';
+import { DEFAULT_RECOVERY_MATCH_OPTIONS } from '@shared/recovery';
+import { UI_CONSTANTS } from '@shared/constants';
+import { isEditablePlaylist } from '@shared/liked-songs';
+import { useDebounce } from '../hooks/useDebounce';
+
+interface RecoveryReviewModalProps {
+  playlist: LocalPlaylist;
+  onPreview: (
+    options: BrokenTrackRecoveryOptions
+  ) => Promise<{ plan: OperationPlan | null; error: string | null }>;
+  onConfirm: (options: BrokenTrackRecoveryOptions) => void;
+  onCancel: () => void;
+  running: boolean;
+}
+
+function formatDuration(durationMs: number | undefined): string {
+  if (!durationMs) return '?:??';
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function formatTrack(track: PlannedTrack): string {
+  return (
+    `${track.name || track.uri || 'Unknown'} — ${track.artist_name || 'Unknown'} · ` +
+    `${track.album_name || 'Unknown album'} · ${formatDuration(track.duration_ms)}`
+  );
+}
+
+function formatScore(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+export function RecoveryReviewModal({
+  playlist,
+  onPreview,
+  onConfirm,
+  onCancel,
+  running,
+}: RecoveryReviewModalProps) {
+  const editable = isEditablePlaylist(playlist);
+  const [mode, setMode] = useState<BrokenTrackRecoveryMode>(editable ? 'in_place' : 'copy');
+  // Thresholds are edited as percentages
+  const [autoAcceptPercent, setAutoAcceptPercent] = useState(
+    Math.round(DEFAULT_RECOVERY_MATCH_OPTIONS.autoAcceptScore * 100)
+  );
+  const [plan, setPlan] = useState<OperationPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [planning, setPlanning] = useState(false);
+  // Replacement URI picked per position, null to leave the track out
+  const [decisions, setDecisions] = useState<Record<number, string | null>>({});
+
+  // Typing a threshold shouldn't search on every keystroke
+  const debouncedPercent = useDebounce(autoAcceptPercent, UI_CONSTANTS.SEARCH_DEBOUNCE_MS);
+  const match = {
+    autoAcceptScore: Math.min(100, Math.max(0, debouncedPercent)) / 100,
+    minScore: Math.min(DEFAULT_RECOVERY_MATCH_OPTIONS.minScore, debouncedPercent / 100),
+  };
+
+  // Dry-run whenever the options change; picks from the previous plan are reset
+  useEffect(() => {
+    let stale = false;
+    setPlan(null);
+    setError(null);
+    setPlanning(true);
+    setDecisions({});
+
+    onPreview({ mode, match })
+      .then((result) => {
+        if (stale) return;
+        setPlan(result.plan);
+        setError(result.error);
+      })
+      .finally(() => {
+        if (!stale) setPlanning(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [mode, debouncedPercent]);
+
+  const replacements = plan?.replacements || [];
+  const review = replacements.filter((replacement) => replacement.needsReview);
+  const accepted = replacements.filter(
+    (replacement) => replacement.candidate && !replacement.needsReview
+  );
+  const unmatched = replacements.filter((replacement) => !replacement.candidate);
+
+  const positionOf = (replacement: PlannedReplacement) => replacement.original.position!;
+  const isUsed = (replacement: PlannedReplacement) => {
+    const decision = decisions[positionOf(replacement)];
+    return decision === undefined ? !replacement.needsReview : decision !== null;
+  };
+  const usedCount = [...accepted, ...review].filter(isUsed).length;
+  const reviewedCount = review.filter(
+    (replacement) => decisions[positionOf(replacement)] !== undefined
+  ).length;
+  const canConfirm = !!plan && usedCount > 0 && !planning && !running;
+
+  const decide = (replacement: PlannedReplacement, uri: string | null) => {
+    setDecisions((prev) => ({ ...prev, [positionOf(replacement)]: uri }));
+  };
+
+  const handleConfirm = () => {
+    if (!canConfirm) return;
+    onConfirm({ mode, match, decisions });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content recovery-review-modal">
+        <div className="modal-header">FIX BROKEN LINKS: {playlist.name}</div>
+
+        <div className="modal-body">
+          <div className="form-group">
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={mode === 'in_place'}
+                onChange={() => setMode('in_place')}
+                disabled={running || !editable}
+                style={{ marginRight: '8px', cursor: 'pointer' }}
+              />
+              <span style={{ color: 'var(--text-primary)' }}>
+                Replace broken tracks in this playlist, keeping their position
+              </span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+              <input
+                type="radio"
+                checked={mode === 'copy'}
+                onChange={() => setMode('copy')}
+                disabled={running}
+                style={{ marginRight: '8px', cursor: 'pointer' }}
+              />
+              <span style={{ color: 'var(--text-primary)' }}>
+                Collect replacements in a new playlist
+              </span>
+            </label>
+            {!editable && (
+              <p className="info-text">Only playlists you own can be changed in place</p>
+            )}
+          </div>
+
+          <div className="form-group">
+            <label>
+              Use matches scoring at least{' '}
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="text-input recovery-threshold"
+                value={autoAcceptPercent}
+                onChange={(e) => setAutoAcceptPercent(Number(e.target.value))}
+                disabled={running}
+              />
+              %
+            </label>
+            <p className="info-text">
+              Scores weigh title, artists, length, album and ISRC. Lower matches above{' '}
+              {formatScore(match.minScore)} are listed for review below
+            </p>
+          </div>
+
+          {error ? (
+            <p className="error-message">{error}</p>
+          ) : planning || !plan ? (
+            <p className="info-text">Searching replacements...</p>
+          ) : (
+            <>
+              {review.length > 0 && (
+                <>
+                  <p>
+                    Needs review ({reviewedCount}/{review.length} reviewed):
+                  </p>
+                  <div className="playlist-list-box recovery-list">
+                    {review.map((replacement) => {
+                      const position = positionOf(replacement);
+
+                      return (
+                        <div key={position} className="recovery-item">
+                          <div className="recovery-original">
+                            #{position + 1} {formatTrack(replacement.original)}
+                          </div>
+                          {(replacement.alternatives || []).map((candidate) => (
+                            <label key={candidate.uri} className="playlist-item recovery-candidate">
+                              <input
+                                type="radio"
+                                name={`recovery-${position}`}
+                                checked={decisions[position] === candidate.uri}
+                                onChange={() => decide(replacement, candidate.uri)}
+                                disabled={running}
+                              />
+                              <span className="recovery-score">{formatScore(candidate.score)}</span>
+                              {formatTrack(candidate)}
+                            </label>
+                          ))}
+                          <label className="playlist-item recovery-candidate">
+                            <input
+                              type="radio"
+                              name={`recovery-${position}`}
+                              checked={decisions[position] === null}
+                              onChange={() => decide(replacement, null)}
+                              disabled={running}
+                            />
+                            Don't replace
+                          </label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </>
+              )}
+
+              {accepted.length > 0 && (
+                <>
+                  <p>Matched ({accepted.length}):</p>
+                  <div className="playlist-list-box recovery-list">
+                    {accepted.map((replacement) => (
+                      <label
+                        key={positionOf(replacement)}
+                        className="playlist-item recovery-candidate"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={isUsed(replacement)}
+                          onChange={(e) =>
+                            decide(replacement, e.target.checked ? replacement.candidate!.uri : null)
+                          }
+                          disabled={running}
+                        />
+                        <span className="recovery-score">{formatScore(replacement.score)}</span>
+                        #{positionOf(replacement) + 1} {replacement.original.name || 'Unknown'} →{' '}
+                        {formatTrack(replacement.candidate!)}
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {unmatched.length > 0 && (
+                <>
+                  <p>No replacement ({unmatched.length}):</p>
+                  <div className="playlist-list-box recovery-list">
+                    {unmatched.map((replacement) => (
+                      <div key={positionOf(replacement)} className="playlist-item">
+                        ✗ #{positionOf(replacement) + 1} {formatTrack(replacement.original)} (
+                        {replacement.reason})
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {replacements.length === 0 && <p className="info-text">No broken tracks found</p>}
+
+              <p className="stats-text">
+                {mode === 'in_place'
+                  ? `${usedCount} tracks will be replaced`
+                  : `${usedCount} tracks will be added to "${playlist.name} - Recovered"`}
+              </p>
+              {plan.warnings.map((warning) => (
+                <p key={warning} className="warning-message">
+                  {warning}
+                </p>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" onClick={onCancel} disabled={running} className="modal-button">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!canConfirm}
+            className="modal-button"
+          >
+            {running ? 'Running...' : mode === 'copy' ? 'Create playlist →' : 'Replace tracks →'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Modal for bulk regex renaming of playlists
+ */
+
+import { useState } from 'react';
+import type { LocalPlaylist, RenameConfig, RenamePlanItem } from '@shared/types';
+import { buildRenamePlan, escapeReplacement } from '@shared/rename';
+
+interface RenameModalProps {
+  playlists: LocalPlaylist[];
+  onConfirm: (config: RenameConfig) => void;
+  onCancel: () => void;
+  renaming: boolean;
+}
+
+const SKIP_LABELS: Record<NonNullable<RenamePlanItem['skipReason']>, string> = {
+  not_owner: 'skipped: not owned',
+  read_only: 'skipped: read-only',
+  unchanged: 'unchanged',
+  empty_name: 'skipped: empty name',
+};
+
+export function RenameModal({ playlists, onConfirm, onCancel, renaming }: RenameModalProps) {
+  const [findPattern, setFindPattern] = useState(playlists.length === 1 ? '^.*$' : '');
+  const [replacePattern, setReplacePattern] = useState(
+    playlists.length === 1 ? escapeReplacement(playlists[0].name) : ''
+  );
+
+  const plan = buildRenamePlan(playlists, { findPattern, replacePattern });
+  const renameCount = plan.items.filter((item) => !item.skipReason).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!plan.error && renameCount > 0 && !renaming) {
+      onConfirm({ findPattern, replacePattern });
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">RENAME PLAYLISTS</div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="modal-body">
+            <div className="form-group">
+              <label htmlFor="rename-find">Find (regex)</label>
+              <input
+                id="rename-find"
+                type="text"
+                className={`text-input ${plan.error && findPattern ? 'search-error' : ''}`}
+                value={findPattern}
+                onChange={(e) => setFindPattern(e.target.value)}
+                placeholder="e.g., ^(\d{2})"
+                autoFocus
+                disabled={renaming}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="rename-replace">Replace with</label>
+              <input
+                id="rename-replace"
+                type="text"
+                className="text-input"
+                value={replacePattern}
+                onChange={(e) => setReplacePattern(e.target.value)}
+                placeholder="e.g., 20$1"
+                disabled={renaming}
+              />
+              <p className="info-text">
+                Use $1, $2... for capture groups and {'{index}'}, {'{track_count}'}, {'{date}'}{' '}
+                for tokens
+              </p>
+            </div>
+
+            {plan.error && findPattern ? (
+              <p className="error-message">{plan.error}</p>
+            ) : (
+              <div className="playlist-list-box">
+                {plan.items.map((item) => (
+                  <div
+                    key={item.spotify_id}
+                    className="playlist-item"
+                    style={item.skipReason ? { color: 'var(--text-tertiary)' } : undefined}
+                  >
+                    • {item.oldName} →{' '}
+                    {item.skipReason === 'not_owner' || item.skipReason === 'read_only'
+                      ? item.oldName
+                      : item.newName}
+                    {item.skipReason && ` (${SKIP_LABELS[item.skipReason]})`}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className="stats-text">
+              {renameCount} of {playlists.length} playlists will be renamed
+            </p>
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={renaming}
+              className="modal-button"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!!plan.error || renameCount === 0 || renaming}
+              className="modal-button"
+            >
+              {renaming ? 'Renaming...' : 'Rename →'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Modal for the app settings: auto sync, table columns and density,
+ * market and database location
+ */
+
+import { useState } from 'react';
+import type { AppSettings } from '@shared/types';
+import { SETTING_LABELS, validateSettings } from '@shared/settings';
+
+interface SettingsModalProps {
+  settings: AppSettings;
+  databasePath: string; // Database currently open
+  onSave: (
+    changes: Partial<AppSettings>
+  ) => Promise<{ restartRequired: boolean; error: string | null }>;
+  onClose: () => void;
+}
+
+const AUTO_SYNC_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'Off' },
+  { value: 1, label: 'Every hour' },
+  { value: 6, label: 'Every 6 hours' },
+  { value: 12, label: 'Every 12 hours' },
+  { value: 24, label: 'Every day' },
+];
+
+type ToggleSetting = 'showDuration' | 'showCreatedDate' | 'showFollowers' | 'compactMode';
+
+const TOGGLES: Array<{ key: ToggleSetting; description: string }> = [
+  { key: 'showDuration', description: 'Total length of each playlist' },
+  { key: 'showCreatedDate', description: 'When the first track was added' },
+  { key: 'showFollowers', description: 'Number of followers' },
+  { key: 'compactMode', description: 'Fit more playlists on screen' },
+];
+
+export function SettingsModal({ settings, databasePath, onSave, onClose }: SettingsModalProps) {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restartRequired, setRestartRequired] = useState(false);
+
+  const change = (changes: Partial<AppSettings>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    setError(null);
+  };
+
+  const changed = (Object.keys(draft) as Array<keyof AppSettings>).filter(
+    (key) => draft[key] !== settings[key]
+  );
+  const validationErrors = validateSettings(
+    Object.fromEntries(changed.map((key) => [key, draft[key]]))
+  );
+
+  // Offer the current interval too when it was set to something else by hand
+  const autoSyncOptions = AUTO_SYNC_OPTIONS.some((option) => option.value === draft.autoSyncInterval)
+    ? AUTO_SYNC_OPTIONS
+    : [...AUTO_SYNC_OPTIONS, { value: draft.autoSyncInterval, label: `Every ${draft.autoSyncInterval} hours` }];
+
+  const handleBrowse = async () => {
+    const result = await window.electronAPI.settings.chooseDatabasePath();
+    if (result.success && result.data?.filePath) {
+      change({ databasePath: result.data.filePath });
+    } else if (!result.success) {
+      setError(result.error || 'Failed to choose database location');
+    }
+  };
+
+  const handleSave = async () => {
+    if (changed.length === 0 || validationErrors.length > 0) return;
+
+    try {
+      setSaving(true);
+      const result = await onSave(Object.fromEntries(changed.map((key) => [key, draft[key]])));
+
+      if (result.error) {
+        setError(result.error);
+      } else if (result.restartRequired) {
+        // Keep the modal open so the restart notice is seen
+        setRestartRequired(true);
+      } else {
+        onClose();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content settings-modal">
+        <div className="modal-header">SETTINGS</div>
+
+        <div className="modal-body">
+          <div className="form-group">
+            <label htmlFor="settings-auto-sync">{SETTING_LABELS.autoSyncInterval}</label>
+            <select
+              id="settings-auto-sync"
+              className="text-input"
+              value={draft.autoSyncInterval ?? ''}
+              onChange={(e) =>
+                change({ autoSyncInterval: e.target.value ? Number(e.target.value) : null })
+              }
+              disabled={saving}
+            >
+              {autoSyncOptions.map((option) => (
+                <option key={option.label} value={option.value ?? ''}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="info-text">Sync the library with Spotify while the app is open</p>
+          </div>
+
+          <div className="form-group">
+            <label>Playlist table</label>
+            {TOGGLES.map(({ key, description }) => (
+              <label key={key} style={{ display: 'flex', alignItems: 'center', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={draft[key]}
+                  onChange={(e) => change({ [key]: e.target.checked })}
+                  disabled={saving}
+                  style={{ marginRight: '8px', cursor: 'pointer' }}
+                />
+                <span style={{ color: 'var(--text-primary)' }}>{SETTING_LABELS[key]}</span>
+                <span className="settings-description">{description}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="settings-market">{SETTING_LABELS.market}</label>
+            <input
+              id="settings-market"
+              type="text"
+              maxLength={2}
+              className="text-input market-input"
+              value={draft.market ?? ''}
+              onChange={(e) => change({ market: e.target.value.trim().toUpperCase() || null })}
+              disabled={saving}
+            />
+            <p className="info-text">
+              Country code tracks are checked for playability in, empty for your account's
+              country. Changing it syncs all playlists again
+            </p>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="settings-database">{SETTING_LABELS.databasePath}</label>
+            <div className="settings-path">
+              <input
+                id="settings-database"
+                type="text"
+                className="text-input"
+                value={draft.databasePath}
+                placeholder={databasePath}
+                onChange={(e) => change({ databasePath: e.target.value.trim() })}
+                disabled={saving}
+              />
+              <button type="button" onClick={handleBrowse} disabled={saving}>
+                Browse...
+              </button>
+              <button
+                type="button"
+                onClick={() => change({ databasePath: '' })}
+                disabled={saving || !draft.databasePath}
+              >
+                Default
+              </button>
+            </div>
+            <p className="info-text">
+              Used after a restart. An existing database there is opened, otherwise a new one is
+              created (sync to fill it)
+            </p>
+          </div>
+
+          {validationErrors.map((message) => (
+            <p key={message} className="error-message">
+              {message}
+            </p>
+          ))}
+          {error && <p className="error-message">{error}</p>}
+          {restartRequired && (
+            <p className="warning-message">Restart the app to use the new database location</p>
+          )}
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" onClick={onClose} disabled={saving} className="modal-button">
+            {restartRequired ? 'Close' : 'Cancel'}
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || changed.length === 0 || validationErrors.length > 0}
+            className="modal-button"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,537 @@
+/**
+ * Modal for managing smart playlists: list the definitions, edit their rules
+ * and preview the tracks they would contain
+ * Saved smart playlists are materialized in the background after every sync
+ */
+
+import { useState, useMemo } from 'react';
+import type {
+  LocalPlaylist,
+  PlannedTrack,
+  SmartCondition,
+  SmartConditionField,
+  SmartPlaylist,
+  SmartPlaylistRules,
+  SmartSortField,
+} from '@shared/types';
+import {
+  DEFAULT_SMART_RULES,
+  SMART_CONDITION_FIELDS,
+  SMART_CONDITION_OPERATORS,
+  SMART_OPERATOR_LABELS,
+  SMART_SORT_FIELDS,
+  parseSmartRules,
+  validateSmartRules,
+} from '@shared/smart-playlists';
+import { useSmartPlaylists } from '../hooks/useSmartPlaylists';
+
+interface SmartPlaylistsModalProps {
+  playlists: LocalPlaylist[];
+  selectedIds: Set<string>;
+  onClose: () => void;
+}
+
+interface EditorState {
+  id?: number;
+  name: string;
+  rules: SmartPlaylistRules;
+}
+
+type ConditionList = 'include' | 'exclude';
+
+export function SmartPlaylistsModal({ playlists, selectedIds, onClose }: SmartPlaylistsModalProps) {
+  const { smartPlaylists, loading, error, reload } = useSmartPlaylists();
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [tagsInput, setTagsInput] = useState('');
+  const [preview, setPreview] = useState<{ trackCount: number; tracks: PlannedTrack[] } | null>(
+    null
+  );
+  const [busy, setBusy] = useState(false);
+  const [editorError, setEditorError] = useState<string | null>(null);
+
+  const playlistNames = useMemo(
+    () => new Map(playlists.map((p) => [p.spotify_id, p.name])),
+    [playlists]
+  );
+  const getName = (playlistId: string) => playlistNames.get(playlistId) ?? playlistId;
+
+  const sortedPlaylists = useMemo(
+    () => [...playlists].sort((a, b) => a.name.localeCompare(b.name)),
+    [playlists]
+  );
+
+  /**
+   * Open the editor, new definitions start from the selected playlists
+   */
+  const openEditor = (smartPlaylist?: SmartPlaylist) => {
+    const rules = smartPlaylist
+      ? parseSmartRules(smartPlaylist)
+      : { ...DEFAULT_SMART_RULES, sourcePlaylistIds: Array.from(selectedIds) };
+
+    setEditor({ id: smartPlaylist?.id, name: smartPlaylist?.name ?? '', rules });
+    setTagsInput(rules.sourceTags.join(' '));
+    setPreview(null);
+    setEditorError(null);
+  };
+
+  const updateRules = (changes: Partial<SmartPlaylistRules>) => {
+    setEditor((current) => current && { ...current, rules: { ...current.rules, ...changes } });
+    setPreview(null);
+  };
+
+  /**
+   * Rules as they'll be saved, with the tags input split into tags
+   */
+  const currentRules = (): SmartPlaylistRules => ({
+    ...editor!.rules,
+    sourceTags: tagsInput.split(/\s+/).filter(Boolean),
+  });
+
+  const addCondition = (list: ConditionList) => {
+    const condition: SmartCondition = { field: 'artist', operator: 'is', value: '' };
+    updateRules({ [list]: [...editor!.rules[list], condition] });
+  };
+
+  const changeCondition = (list: ConditionList, index: number, changes: Partial<SmartCondition>) => {
+    const conditions = editor!.rules[list].map((condition, i) => {
+      if (i !== index) return condition;
+      const updated = { ...condition, ...changes };
+      // Switching fields resets the operator (and value) to something that fits
+      if (changes.field) {
+        updated.operator = SMART_CONDITION_OPERATORS[changes.field][0];
+        updated.value = '';
+      }
+      return updated;
+    });
+    updateRules({ [list]: conditions });
+  };
+
+  const removeCondition = (list: ConditionList, index: number) => {
+    updateRules({ [list]: editor!.rules[list].filter((_, i) => i !== index) });
+  };
+
+  const handlePreview = async () => {
+    const rules = currentRules();
+    const validationError = validateSmartRules(editor!.name || 'Preview', rules);
+    if (validationError) {
+      setEditorError(validationError);
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setEditorError(null);
+      const result = await window.electronAPI.smartPlaylists.preview(rules);
+      if (result.success && result.data) {
+        setPreview(result.data);
+      } else {
+        setEditorError(result.error || 'Failed to preview smart playlist');
+      }
+    } catch (err) {
+      setEditorError(err instanceof Error ? err.message : 'Failed to preview smart playlist');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const rules = currentRules();
+    const validationError = validateSmartRules(editor!.name, rules);
+    if (validationError) {
+      setEditorError(validationError);
+      return;
+    }
+
+    try {
+      setBusy(true);
+      setEditorError(null);
+      const result = await window.electronAPI.smartPlaylists.save({
+        id: editor!.id,
+        name: editor!.name,
+        rules,
+      });
+      if (result.success) {
+        setEditor(null);
+        await reload();
+      } else {
+        setEditorError(result.error || 'Failed to save smart playlist');
+      }
+    } catch (err) {
+      setEditorError(err instanceof Error ? err.message : 'Failed to save smart playlist');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpdate = async (ids?: number[]) => {
+    try {
+      setBusy(true);
+      const result = await window.electronAPI.smartPlaylists.update(ids);
+      if (!result.success) {
+        alert(`Failed to update smart playlists: ${result.error}`);
+      }
+      await reload();
+    } catch (err) {
+      console.error('Failed to update smart playlists:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (smartPlaylist: SmartPlaylist) => {
+    if (!confirm(`Delete smart playlist "${smartPlaylist.name}"?`)) {
+      return;
+    }
+    const deletePlaylist =
+      !!smartPlaylist.spotify_id &&
+      confirm('Also delete its playlist from Spotify? (Cancel keeps it as a regular playlist)');
+
+    try {
+      setBusy(true);
+      const result = await window.electronAPI.smartPlaylists.delete(
+        smartPlaylist.id,
+        deletePlaylist
+      );
+      if (!result.success) {
+        alert(`Failed to delete smart playlist: ${result.error}`);
+      }
+      await reload();
+    } catch (err) {
+      console.error('Failed to delete smart playlist:', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderConditions = (list: ConditionList, title: string) => (
+    <div className="form-group">
+      <label>{title}</label>
+      {editor!.rules[list].map((condition, index) => (
+        <div key={index} className="smart-condition">
+          <select
+            className="text-input"
+            value={condition.field}
+            onChange={(e) =>
+              changeCondition(list, index, { field: e.target.value as SmartConditionField })
+            }
+          >
+            {Object.entries(SMART_CONDITION_FIELDS).map(([field, label]) => (
+              <option key={field} value={field}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="text-input"
+            value={condition.operator}
+            onChange={(e) =>
+              changeCondition(list, index, {
+                operator: e.target.value as SmartCondition['operator'],
+              })
+            }
+          >
+            {SMART_CONDITION_OPERATORS[condition.field].map((operator) => (
+              <option key={operator} value={operator}>
+                {SMART_OPERATOR_LABELS[operator]}
+              </option>
+            ))}
+          </select>
+          {condition.field === 'playlist' ? (
+            <select
+              className="text-input smart-condition-value"
+              value={condition.value}
+              onChange={(e) => changeCondition(list, index, { value: e.target.value })}
+            >
+              <option value="">Choose a playlist...</option>
+              {sortedPlaylists.map((playlist) => (
+                <option key={playlist.spotify_id} value={playlist.spotify_id}>
+                  {playlist.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type="text"
+              className="text-input smart-condition-value"
+              value={condition.value}
+              placeholder={
+                condition.field === 'added_at' && condition.operator !== 'within_days'
+                  ? 'YYYY-MM-DD'
+                  : ''
+              }
+              onChange={(e) => changeCondition(list, index, { value: e.target.value })}
+            />
+          )}
+          <button
+            type="button"
+            className="smart-inline-button"
+            onClick={() => removeCondition(list, index)}
+          >
+            [x]
+          </button>
+        </div>
+      ))}
+      <button type="button" className="smart-inline-button" onClick={() => addCondition(list)}>
+        [+ condition]
+      </button>
+    </div>
+  );
+
+  if (editor) {
+    const { rules } = editor;
+
+    return (
+      <div className="modal-overlay">
+        <div className="modal-content smart-playlists-modal">
+          <div className="modal-header">
+            {editor.id === undefined ? 'NEW SMART PLAYLIST' : 'EDIT SMART PLAYLIST'}
+          </div>
+
+          <div className="modal-body">
+            <div className="form-group">
+              <label htmlFor="smart-name">Name:</label>
+              <input
+                id="smart-name"
+                type="text"
+                className="text-input"
+                value={editor.name}
+                onChange={(e) => setEditor({ ...editor, name: e.target.value })}
+                autoFocus
+              />
+            </div>
+
+            <div className="form-group">
+              <label>Source playlists:</label>
+              <div className="playlist-list-box smart-sources">
+                {rules.sourcePlaylistIds.length === 0 ? (
+                  <div className="playlist-item">None (tags only)</div>
+                ) : (
+                  rules.sourcePlaylistIds.map((playlistId) => (
+                    <div key={playlistId} className="playlist-item">
+                      <button
+                        type="button"
+                        className="smart-inline-button"
+                        onClick={() =>
+                          updateRules({
+                            sourcePlaylistIds: rules.sourcePlaylistIds.filter(
+                              (id) => id !== playlistId
+                            ),
+                          })
+                        }
+                      >
+                        [x]
+                      </button>{' '}
+                      {getName(playlistId)}
+                    </div>
+                  ))
+                )}
+              </div>
+              <select
+                className="text-input"
+                value=""
+                onChange={(e) =>
+                  e.target.value &&
+                  updateRules({ sourcePlaylistIds: [...rules.sourcePlaylistIds, e.target.value] })
+                }
+              >
+                <option value="">Add a source playlist...</option>
+                {sortedPlaylists
+                  .filter((playlist) => !rules.sourcePlaylistIds.includes(playlist.spotify_id))
+                  .map((playlist) => (
+                    <option key={playlist.spotify_id} value={playlist.spotify_id}>
+                      {playlist.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="smart-tags">Source tags (playlists with any of these tags):</label>
+              <input
+                id="smart-tags"
+                type="text"
+                className="text-input"
+                value={tagsInput}
+                placeholder="e.g. workout chill"
+                onChange={(e) => {
+                  setTagsInput(e.target.value);
+                  setPreview(null);
+                }}
+              />
+            </div>
+
+            {renderConditions('include', 'Include tracks matching all of:')}
+            {renderConditions('exclude', 'Exclude tracks matching any of:')}
+
+            <div className="history-filters">
+              <label>
+                Sort by{' '}
+                <select
+                  className="text-input"
+                  value={rules.sortBy}
+                  onChange={(e) => updateRules({ sortBy: e.target.value as SmartSortField })}
+                >
+                  {Object.entries(SMART_SORT_FIELDS).map(([field, label]) => (
+                    <option key={field} value={field}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <select
+                className="text-input"
+                value={rules.sortDirection}
+                disabled={rules.sortBy === 'source_order'}
+                onChange={(e) =>
+                  updateRules({ sortDirection: e.target.value as 'asc' | 'desc' })
+                }
+              >
+                <option value="asc">Ascending</option>
+                <option value="desc">Descending</option>
+              </select>
+              <label>
+                Limit{' '}
+                <input
+                  type="number"
+                  min={1}
+                  className="text-input overlap-threshold"
+                  value={rules.limit ?? ''}
+                  placeholder="none"
+                  onChange={(e) =>
+                    updateRules({ limit: e.target.value ? Number(e.target.value) : null })
+                  }
+                />
+              </label>
+            </div>
+
+            {editorError && <p className="error-message">{editorError}</p>}
+
+            {preview && (
+              <>
+                <p className="stats-text">
+                  {preview.trackCount} tracks
+                  {preview.trackCount > preview.tracks.length &&
+                    ` (showing the first ${preview.tracks.length})`}
+                </p>
+                <div className="playlist-list-box">
+                  {preview.tracks.length === 0 ? (
+                    <div className="playlist-item">No tracks match these rules</div>
+                  ) : (
+                    preview.tracks.map((track, index) => (
+                      <div key={track.uri ?? index} className="playlist-item">
+                        {index + 1}. {track.name || track.uri} — {track.artist_name || 'Unknown'}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              onClick={() => setEditor(null)}
+              disabled={busy}
+              className="modal-button"
+            >
+              Back
+            </button>
+            <button type="button" onClick={handlePreview} disabled={busy} className="modal-button">
+              {busy ? 'Working...' : 'Preview'}
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={busy}
+              className="modal-button"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content smart-playlists-modal">
+        <div className="modal-header">SMART PLAYLISTS</div>
+
+        <div className="modal-body">
+          {error && <p className="error-message">{error}</p>}
+
+          <div className="playlist-list-box history-list">
+            {loading && smartPlaylists.length === 0 ? (
+              <div className="playlist-item">Loading...</div>
+            ) : smartPlaylists.length === 0 ? (
+              <div className="playlist-item">No smart playlists yet</div>
+            ) : (
+              smartPlaylists.map((smartPlaylist) => (
+                <div key={smartPlaylist.id} className="playlist-item smart-entry">
+                  <span className="smart-entry-name">
+                    {smartPlaylist.name}
+                    <span className="smart-entry-status">
+                      {smartPlaylist.last_error
+                        ? ` · failed: ${smartPlaylist.last_error}`
+                        : smartPlaylist.last_updated
+                          ? ` · updated ${new Date(smartPlaylist.last_updated).toLocaleString()}`
+                          : ' · not created yet'}
+                    </span>
+                  </span>
+                  <button
+                    type="button"
+                    className="smart-inline-button"
+                    disabled={busy}
+                    onClick={() => openEditor(smartPlaylist)}
+                  >
+                    [edit]
+                  </button>
+                  <button
+                    type="button"
+                    className="smart-inline-button"
+                    disabled={busy}
+                    onClick={() => handleUpdate([smartPlaylist.id])}
+                  >
+                    [update]
+                  </button>
+                  <button
+                    type="button"
+                    className="smart-inline-button"
+                    disabled={busy}
+                    onClick={() => handleDelete(smartPlaylist)}
+                  >
+                    [delete]
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+
+          <p className="info-text">
+            Smart playlists are updated after every sync. Only changed tracks are added, removed
+            or moved.
+          </p>
+        </div>
+
+        <div className="modal-actions">
+          <button type="button" onClick={onClose} className="modal-button">
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={() => handleUpdate()}
+            disabled={busy || smartPlaylists.length === 0}
+            className="modal-button"
+          >
+            {busy ? 'Working...' : 'Update all'}
+          </button>
+          <button type="button" onClick={() => openEditor()} className="modal-button">
+            New
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
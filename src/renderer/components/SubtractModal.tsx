@@ -0,0 +1,204 @@
+/**
+ * Modal for subtracting playlists (A - B)
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type { LocalPlaylist, SubtractConfig, SubtractPreview } from '@shared/types';
+
+interface SubtractModalProps {
+  playlists: LocalPlaylist[];
+  onConfirm: (config: SubtractConfig) => void;
+  onPreview: (
+    fromPlaylistId: string,
+    subtractPlaylistIds: string[]
+  ) => Promise<SubtractPreview | null>;
+  onCancel: () => void;
+  subtracting: boolean;
+}
+
+export function SubtractModal({
+  playlists,
+  onConfirm,
+  onPreview,
+  onCancel,
+  subtracting,
+}: SubtractModalProps) {
+  const [fromPlaylistId, setFromPlaylistId] = useState(playlists[0]?.spotify_id || '');
+  const [subtractIds, setSubtractIds] = useState<Set<string>>(
+    new Set(playlists.slice(1).map((p) => p.spotify_id))
+  );
+  const [targetName, setTargetName] = useState('');
+  const [preview, setPreview] = useState<SubtractPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  // Bumped by every preview and selection change, so late results are dropped
+  const previewRequest = useRef(0);
+
+  const fromPlaylist = playlists.find((p) => p.spotify_id === fromPlaylistId);
+  const subtractPlaylists = playlists.filter(
+    (p) => p.spotify_id !== fromPlaylistId && subtractIds.has(p.spotify_id)
+  );
+
+  // Generate default target name and reset stale preview when selection changes
+  useEffect(() => {
+    if (!fromPlaylist) return;
+
+    const defaultName =
+      subtractPlaylists.length === 1
+        ? `${fromPlaylist.name} minus ${subtractPlaylists[0].name}`
+        : `${fromPlaylist.name} minus ${subtractPlaylists.length} playlists`;
+    setTargetName(defaultName);
+    previewRequest.current++;
+    setPreview(null);
+    setPreviewing(false);
+  }, [fromPlaylistId, subtractIds]);
+
+  const handleFromChange = (playlistId: string) => {
+    setFromPlaylistId(playlistId);
+    // Everything else becomes a subtract candidate
+    setSubtractIds(
+      new Set(playlists.filter((p) => p.spotify_id !== playlistId).map((p) => p.spotify_id))
+    );
+  };
+
+  const handleToggleSubtract = (playlistId: string) => {
+    setSubtractIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(playlistId)) {
+        next.delete(playlistId);
+      } else {
+        next.add(playlistId);
+      }
+      return next;
+    });
+  };
+
+  const handlePreview = async () => {
+    const requestId = ++previewRequest.current;
+    setPreviewing(true);
+    try {
+      const result = await onPreview(
+        fromPlaylistId,
+        subtractPlaylists.map((p) => p.spotify_id)
+      );
+      if (requestId === previewRequest.current) {
+        setPreview(result);
+      }
+    } finally {
+      if (requestId === previewRequest.current) {
+        setPreviewing(false);
+      }
+    }
+  };
+
+  const canSubmit =
+    !!fromPlaylist && subtractPlaylists.length > 0 && targetName.trim() && !subtracting;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) {
+      onConfirm({
+        fromPlaylistId,
+        subtractPlaylistIds: subtractPlaylists.map((p) => p.spotify_id),
+        targetName: targetName.trim(),
+      });
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content">
+        <div className="modal-header">SUBTRACT PLAYLISTS</div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="modal-body">
+            <div className="form-group">
+              <label>Keep tracks from (A)</label>
+              <div className="playlist-list-box">
+                {playlists.map((playlist) => (
+                  <label key={playlist.spotify_id} className="radio-label">
+                    <input
+                      type="radio"
+                      name="from-playlist"
+                      checked={playlist.spotify_id === fromPlaylistId}
+                      onChange={() => handleFromChange(playlist.spotify_id)}
+                      disabled={subtracting}
+                    />
+                    <span>
+                      {playlist.name} ({playlist.track_count} tracks)
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <label>That are not in (B)</label>
+              <div className="playlist-list-box">
+                {playlists
+                  .filter((p) => p.spotify_id !== fromPlaylistId)
+                  .map((playlist) => (
+                    <label key={playlist.spotify_id} className="radio-label">
+                      <input
+                        type="checkbox"
+                        checked={subtractIds.has(playlist.spotify_id)}
+                        onChange={() => handleToggleSubtract(playlist.spotify_id)}
+                        disabled={subtracting}
+                        style={{ marginRight: '8px', cursor: 'pointer' }}
+                      />
+                      <span>
+                        {playlist.name} ({playlist.track_count} tracks)
+                      </span>
+                    </label>
+                  ))}
+              </div>
+            </div>
+
+            <div className="form-group">
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={subtractPlaylists.length === 0 || previewing || subtracting}
+                className="modal-button"
+              >
+                {previewing ? 'Counting...' : 'Preview count'}
+              </button>
+              {preview && (
+                <p className="stats-text" style={{ marginTop: '8px' }}>
+                  Result: {preview.resultCount} of {preview.sourceCount} tracks (
+                  {preview.removedCount} removed)
+                </p>
+              )}
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="subtract-target-name">Target Playlist Name</label>
+              <input
+                id="subtract-target-name"
+                type="text"
+                className="text-input"
+                value={targetName}
+                onChange={(e) => setTargetName(e.target.value)}
+                disabled={subtracting}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="modal-actions">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={subtracting}
+              className="modal-button"
+            >
+              Cancel
+            </button>
+            <button type="submit" disabled={!canSubmit} className="modal-button">
+              {subtracting ? 'Subtracting...' : 'Subtract →'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
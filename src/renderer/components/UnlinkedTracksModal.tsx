@@ -0,0 +1,235 @@
+/**
+ * Library-wide browser of the unlinked tracks found by sync, grouped by
+ * playlist or by artist
+ * Playlists can be opened for recovery, cleared of their unlinked tracks
+ * (owned playlists only) and the whole list exported to CSV
+ */
+
+import { useState, useMemo } from 'react';
+import type { LibraryUnlinkedTrack, LocalPlaylist } from '@shared/types';
+import { isEditablePlaylist, isLikedSongs } from '@shared/liked-songs';
+import { useUnlinkedTracks } from '../hooks/useUnlinkedTracks';
+
+interface UnlinkedTracksModalProps {
+  playlists: LocalPlaylist[];
+  onRecover: (playlist: LocalPlaylist) => void;
+  onRemoved: () => void;
+  onClose: () => void;
+}
+
+type GroupBy = 'playlist' | 'artist';
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  playlist: 'By playlist',
+  artist: 'By artist',
+};
+
+interface TrackGroup {
+  key: string;
+  label: string;
+  tracks: LibraryUnlinkedTrack[];
+}
+
+function groupTracks(tracks: LibraryUnlinkedTrack[], groupBy: GroupBy): TrackGroup[] {
+  const groups = new Map<string, TrackGroup>();
+
+  for (const track of tracks) {
+    const key =
+      groupBy === 'playlist' ? track.playlist_id : (track.artist_name || '').toLowerCase();
+    const label =
+      groupBy === 'playlist' ? track.playlist_name : track.artist_name || 'Unknown artist';
+    const group = groups.get(key) ?? { key, label, tracks: [] };
+    group.tracks.push(track);
+    groups.set(key, group);
+  }
+
+  // Largest groups first, they are the most worth fixing
+  return Array.from(groups.values()).sort(
+    (a, b) => b.tracks.length - a.tracks.length || a.label.localeCompare(b.label)
+  );
+}
+
+export function UnlinkedTracksModal({
+  playlists,
+  onRecover,
+  onRemoved,
+  onClose,
+}: UnlinkedTracksModalProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('playlist');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const { tracks, loading, error, reload } = useUnlinkedTracks();
+
+  const groups = useMemo(() => groupTracks(tracks, groupBy), [tracks, groupBy]);
+  const playlistsById = useMemo(
+    () => new Map(playlists.map((playlist) => [playlist.spotify_id, playlist])),
+    [playlists]
+  );
+  const playlistCount = new Set(tracks.map((track) => track.playlist_id)).size;
+
+  const toggleExpanded = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleGroupBy = (value: GroupBy) => {
+    setGroupBy(value);
+    setExpanded(new Set());
+  };
+
+  const handleRemove = async (playlist: LocalPlaylist, count: number) => {
+    if (!confirm(`Remove ${count} unlinked tracks from "${playlist.name}"?`)) {
+      return;
+    }
+
+    try {
+      setRemovingId(playlist.spotify_id);
+      const result = await window.electronAPI.playlists.removeUnlinked(playlist.spotify_id);
+
+      if (result.success && result.data) {
+        onRemoved();
+      } else {
+        alert(`Failed to remove unlinked tracks: ${result.error}`);
+      }
+    } catch (err) {
+      console.error('Failed to remove unlinked tracks:', err);
+      alert('Failed to remove unlinked tracks');
+    } finally {
+      setRemovingId(null);
+      await reload();
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const result = await window.electronAPI.unlinked.export();
+
+      if (!result.success) {
+        alert(`Failed to export unlinked tracks: ${result.error}`);
+      } else if (result.data?.filePath) {
+        alert(`Exported ${result.data.count} tracks to ${result.data.filePath}`);
+      }
+    } catch (err) {
+      console.error('Failed to export unlinked tracks:', err);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const renderPlaylistActions = (group: TrackGroup) => {
+    const playlist = playlistsById.get(group.key);
+    if (!playlist || isLikedSongs(playlist.spotify_id)) return null;
+
+    return (
+      <span className="unlinked-actions" onClick={(e) => e.stopPropagation()}>
+        <button type="button" onClick={() => onRecover(playlist)} disabled={removingId !== null}>
+          Recover
+        </button>
+        {isEditablePlaylist(playlist) && (
+          <button
+            type="button"
+            onClick={() => handleRemove(playlist, group.tracks.length)}
+            disabled={removingId !== null}
+          >
+            {removingId === playlist.spotify_id ? 'Removing...' : 'Remove'}
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content unlinked-modal">
+        <div className="modal-header">UNLINKED TRACKS</div>
+
+        <div className="modal-body">
+          <div className="history-filters">
+            {(Object.keys(GROUP_LABELS) as GroupBy[]).map((key) => (
+              <button
+                key={key}
+                type="button"
+                className={`overlap-tab ${groupBy === key ? 'active' : ''}`}
+                onClick={() => handleGroupBy(key)}
+              >
+                {GROUP_LABELS[key]}
+              </button>
+            ))}
+          </div>
+
+          {error && <p className="error-message">{error}</p>}
+
+          <div className="playlist-list-box history-list">
+            {loading && tracks.length === 0 ? (
+              <div className="playlist-item">Loading...</div>
+            ) : groups.length === 0 ? (
+              <div className="playlist-item">No unlinked tracks found</div>
+            ) : (
+              groups.map((group) => (
+                <div key={group.key} className="unlinked-group">
+                  <div
+                    className="playlist-item unlinked-group-header"
+                    onClick={() => toggleExpanded(group.key)}
+                  >
+                    <span className="overlap-score">{group.tracks.length}</span>
+                    <span className="unlinked-group-label">
+                      {expanded.has(group.key) ? '▾' : '▸'} {group.label}
+                    </span>
+                    {groupBy === 'playlist' && renderPlaylistActions(group)}
+                  </div>
+
+                  {expanded.has(group.key) &&
+                    group.tracks.map((track) => (
+                      <div key={track.id} className="playlist-item unlinked-track">
+                        {track.track_name || track.track_uri} —{' '}
+                        {groupBy === 'playlist'
+                          ? track.artist_name || 'Unknown'
+                          : `in "${track.playlist_name}"`}
+                        <span className="unlinked-detected">
+                          since {new Date(track.detected_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              ))
+            )}
+          </div>
+
+          <p className="stats-text">
+            {tracks.length} unlinked tracks in {playlistCount} playlists
+          </p>
+          <p className="info-text">
+            Tracks are recorded when playlists are synced and cleared once they play again
+          </p>
+        </div>
+
+        <div className="modal-actions">
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={exporting || tracks.length === 0}
+            className="modal-button"
+          >
+            {exporting ? 'Exporting...' : 'Export CSV'}
+          </button>
+          <button type="button" onClick={reload} disabled={loading} className="modal-button">
+            Refresh
+          </button>
+          <button type="button" onClick={onClose} className="modal-button">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Custom hook for the persistent job queue
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Job } from '@shared/types';
+
+type JobAction = 'pause' | 'resume' | 'retry' | 'remove';
+
+interface UseJobQueueReturn {
+  jobs: Job[];
+  activeCount: number; // Queued + running jobs
+  runAction: (action: JobAction, jobId: number) => Promise<void>;
+}
+
+export function useJobQueue(): UseJobQueueReturn {
+  const [jobs, setJobs] = useState<Job[]>([]);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.jobs.list();
+      if (result.success && result.data) {
+        setJobs(result.data);
+      }
+    } catch (err) {
+      console.error('Failed to load jobs:', err);
+    }
+  }, []);
+
+  // Load initial list and reload whenever a job changes
+  useEffect(() => {
+    loadJobs();
+    return window.electronAPI.jobs.onUpdated(loadJobs);
+  }, [loadJobs]);
+
+  const runAction = useCallback(async (action: JobAction, jobId: number) => {
+    try {
+      const result = await window.electronAPI.jobs[action](jobId);
+      if (!result.success) {
+        alert(`Failed to ${action} job: ${result.error}`);
+      }
+    } catch (err) {
+      console.error(`Failed to ${action} job:`, err);
+    }
+  }, []);
+
+  const activeCount = jobs.filter(
+    (job) => job.status === 'queued' || job.status === 'running'
+  ).length;
+
+  return { jobs, activeCount, runAction };
+}
@@ -0,0 +1,70 @@
+/**
+ * Custom hook for browsing and exporting the operation history
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { OperationHistory, OperationHistoryFilter } from '@shared/types';
+
+interface UseOperationHistoryReturn {
+  entries: OperationHistory[];
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+  exportHistory: (format: 'csv' | 'json') => Promise<void>;
+}
+
+export function useOperationHistory(filter: OperationHistoryFilter): UseOperationHistoryReturn {
+  const [entries, setEntries] = useState<OperationHistory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load history entries matching the filter
+   */
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await window.electronAPI.history.list(filter);
+
+      if (result.success && result.data) {
+        setEntries(result.data);
+      } else {
+        setError(result.error || 'Failed to load operation history');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load operation history');
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  /**
+   * Export entries matching the filter to a file picked by the user
+   */
+  const exportHistory = useCallback(
+    async (format: 'csv' | 'json') => {
+      try {
+        const result = await window.electronAPI.history.export(filter, format);
+
+        if (!result.success) {
+          alert(`Failed to export history: ${result.error}`);
+        } else if (result.data?.filePath) {
+          alert(`Exported ${result.data.count} operations to:\n${result.data.filePath}`);
+        }
+      } catch (err) {
+        console.error('Failed to export history:', err);
+        alert('Failed to export history');
+      }
+    },
+    [filter]
+  );
+
+  // Reload whenever the filter changes
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { entries, loading, error, reload, exportHistory };
+}
@@ -0,0 +1,54 @@
+/**
+ * Custom hook for tracking progress of long-running operations
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { OperationProgress } from '@shared/types';
+
+// How long finished jobs stay visible in the progress panel
+const FINISHED_JOB_DISPLAY_MS = 3000;
+
+interface UseOperationProgressReturn {
+  jobs: OperationProgress[];
+  cancelJob: (jobId: string) => Promise<void>;
+}
+
+export function useOperationProgress(): UseOperationProgressReturn {
+  const [jobs, setJobs] = useState<Map<string, OperationProgress>>(new Map());
+
+  useEffect(() => {
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+
+    const unsubscribe = window.electronAPI.operations.onProgress((progress) => {
+      setJobs((prev) => new Map(prev).set(progress.jobId, progress));
+
+      // Remove finished jobs after a short delay
+      if (progress.status !== 'running') {
+        timeouts.push(
+          setTimeout(() => {
+            setJobs((prev) => {
+              const next = new Map(prev);
+              next.delete(progress.jobId);
+              return next;
+            });
+          }, FINISHED_JOB_DISPLAY_MS)
+        );
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      timeouts.forEach(clearTimeout);
+    };
+  }, []);
+
+  const cancelJob = useCallback(async (jobId: string) => {
+    try {
+      await window.electronAPI.operations.cancel(jobId);
+    } catch (err) {
+      console.error('Failed to cancel operation:', err);
+    }
+  }, []);
+
+  return { jobs: Array.from(jobs.values()), cancelJob };
+}
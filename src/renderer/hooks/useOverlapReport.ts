@@ -0,0 +1,48 @@
+/**
+ * Custom hook for loading the library-wide overlap report
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { OverlapReport, OverlapReportOptions } from '@shared/types';
+
+interface UseOverlapReportReturn {
+  report: OverlapReport | null;
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+export function useOverlapReport(options: OverlapReportOptions): UseOverlapReportReturn {
+  const [report, setReport] = useState<OverlapReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Build the report from the cached playlist contents
+   */
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await window.electronAPI.playlists.overlapReport(options);
+
+      if (result.success && result.data) {
+        setReport(result.data);
+      } else {
+        setError(result.error || 'Failed to build overlap report');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build overlap report');
+    } finally {
+      setLoading(false);
+    }
+  }, [options]);
+
+  // Rebuild whenever the thresholds change
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { report, loading, error, reload };
+}
@@ -3,13 +3,14 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import type { LocalPlaylist } from '@shared/types';
+import type { LocalPlaylist, SyncResult } from '@shared/types';
 
 interface UsePlaylistsReturn {
   playlists: LocalPlaylist[];
   loading: boolean;
   error: string | null;
   syncing: boolean;
+  lastSyncResult: SyncResult | null;
   syncPlaylists: () => Promise<void>;
   refreshPlaylists: () => Promise<void>;
 }
@@ -19,6 +20,7 @@ export function usePlaylists(): UsePlaylistsReturn {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [syncing, setSyncing] = useState(false);
+  const [lastSyncResult, setLastSyncResult] = useState<SyncResult | null>(null);
 
   /**
    * Load playlists from local database
@@ -53,7 +55,11 @@ export function usePlaylists(): UsePlaylistsReturn {
       const result = await window.electronAPI.playlists.sync();
 
       if (result.success && result.data) {
-        console.log(`Synced ${result.data.synced} of ${result.data.total} playlists`);
+        const { added, changed, removed, total } = result.data;
+        console.log(
+          `Synced ${total} playlists: ${added} added, ${changed} changed, ${removed} removed`
+        );
+        setLastSyncResult(result.data);
         // Refresh local data after sync
         await refreshPlaylists();
       } else {
@@ -76,6 +82,7 @@ export function usePlaylists(): UsePlaylistsReturn {
     loading,
     error,
     syncing,
+    lastSyncResult,
     syncPlaylists,
     refreshPlaylists,
   };
@@ -0,0 +1,41 @@
+/**
+ * Custom hook for tracking the Spotify request scheduler state
+ */
+
+import { useState, useEffect } from 'react';
+import type { RequestSchedulerState } from '@shared/types';
+
+interface UseRequestSchedulerReturn {
+  state: RequestSchedulerState | null;
+  backoffSeconds: number; // Seconds left until requests resume (0 when not backing off)
+}
+
+export function useRequestScheduler(): UseRequestSchedulerReturn {
+  const [state, setState] = useState<RequestSchedulerState | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Load initial state and subscribe to updates
+  useEffect(() => {
+    window.electronAPI.spotify.getSchedulerState().then((result) => {
+      if (result.success && result.data) {
+        setState(result.data);
+      }
+    });
+
+    return window.electronAPI.spotify.onSchedulerState(setState);
+  }, []);
+
+  // Tick once a second while backing off so the countdown updates
+  useEffect(() => {
+    if (!state?.backoffUntil) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state?.backoffUntil]);
+
+  const backoffSeconds = state?.backoffUntil
+    ? Math.max(0, Math.ceil((state.backoffUntil - now) / 1000))
+    : 0;
+
+  return { state, backoffSeconds };
+}
@@ -0,0 +1,59 @@
+/**
+ * Custom hook for reading and changing the app settings
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AppSettings } from '@shared/types';
+import { DEFAULT_SETTINGS } from '@shared/constants';
+
+interface UseSettingsReturn {
+  settings: AppSettings;
+  databasePath: string; // Database currently open
+  loading: boolean;
+  error: string | null;
+  updateSettings: (
+    changes: Partial<AppSettings>
+  ) => Promise<{ restartRequired: boolean; error: string | null }>;
+}
+
+export function useSettings(): UseSettingsReturn {
+  // Defaults until loaded, so the table renders right away
+  const [settings, setSettings] = useState<AppSettings>({ ...DEFAULT_SETTINGS });
+  const [databasePath, setDatabasePath] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.settings
+      .get()
+      .then((result) => {
+        if (result.success && result.data) {
+          setSettings(result.data.settings);
+          setDatabasePath(result.data.databasePath);
+        } else {
+          setError(result.error || 'Failed to load settings');
+        }
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load settings'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateSettings = useCallback(async (changes: Partial<AppSettings>) => {
+    try {
+      const result = await window.electronAPI.settings.update(changes);
+
+      if (result.success && result.data) {
+        setSettings(result.data.settings);
+        return { restartRequired: result.data.restartRequired, error: null };
+      }
+      return { restartRequired: false, error: result.error || 'Failed to save settings' };
+    } catch (err) {
+      return {
+        restartRequired: false,
+        error: err instanceof Error ? err.message : 'Failed to save settings',
+      };
+    }
+  }, []);
+
+  return { settings, databasePath, loading, error, updateSettings };
+}
@@ -0,0 +1,46 @@
+/**
+ * Custom hook for loading smart playlist definitions
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { SmartPlaylist } from '@shared/types';
+
+interface UseSmartPlaylistsReturn {
+  smartPlaylists: SmartPlaylist[];
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+export function useSmartPlaylists(): UseSmartPlaylistsReturn {
+  const [smartPlaylists, setSmartPlaylists] = useState<SmartPlaylist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await window.electronAPI.smartPlaylists.list();
+
+      if (result.success && result.data) {
+        setSmartPlaylists(result.data);
+      } else {
+        setError(result.error || 'Failed to load smart playlists');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load smart playlists');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when a job settles so last update times and errors stay current
+  useEffect(() => {
+    reload();
+    return window.electronAPI.jobs.onUpdated(reload);
+  }, [reload]);
+
+  return { smartPlaylists, loading, error, reload };
+}
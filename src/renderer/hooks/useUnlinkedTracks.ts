@@ -0,0 +1,46 @@
+/**
+ * Custom hook for loading the unlinked tracks recorded across the library
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { LibraryUnlinkedTrack } from '@shared/types';
+
+interface UseUnlinkedTracksReturn {
+  tracks: LibraryUnlinkedTrack[];
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+export function useUnlinkedTracks(): UseUnlinkedTracksReturn {
+  const [tracks, setTracks] = useState<LibraryUnlinkedTrack[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await window.electronAPI.unlinked.list();
+
+      if (result.success && result.data) {
+        setTracks(result.data);
+      } else {
+        setError(result.error || 'Failed to load unlinked tracks');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load unlinked tracks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when a job settles, syncs and fixes change what is unlinked
+  useEffect(() => {
+    reload();
+    return window.electronAPI.jobs.onUpdated(reload);
+  }, [reload]);
+
+  return { tracks, loading, error, reload };
+}
@@ -18,11 +18,22 @@ export const SPOTIFY_REDIRECT_URI = 'http://localhost:8888/callback';
 export const SPOTIFY_API_LIMITS = {
   PLAYLISTS_PER_REQUEST: 50,
   TRACKS_PER_REQUEST: 100,
+  SAVED_TRACKS_PER_REQUEST: 50, // Liked Songs pages and like/unlike batches
   MAX_CONCURRENT_REQUESTS: 5,
-  RATE_LIMIT_RETRY_MS: 2000,
+  REQUESTS_PER_SECOND: 2, // Token bucket refill rate
+  BURST_SIZE: 10, // Token bucket capacity
+  RATE_LIMIT_RETRY_MS: 2000, // Base delay when no Retry-After header is sent
+  MAX_RETRY_AFTER_MS: 5 * 60 * 1000, // Longer bans are surfaced to the user instead
   MAX_RETRIES: 3,
 } as const;
 
+// Liked Songs are synced as a pseudo-playlist row under this ID
+export const LIKED_SONGS = {
+  ID: 'liked-songs',
+  NAME: 'Liked Songs',
+  URL: 'https://open.spotify.com/collection/tracks',
+} as const;
+
 // UI constants
 export const UI_CONSTANTS = {
   SEARCH_DEBOUNCE_MS: 150,
@@ -89,13 +100,19 @@ export const DB_CONFIG = {
 
 // Default settings
 export const DEFAULT_SETTINGS = {
+  spotifyClientId: '', // Empty = VITE_SPOTIFY_CLIENT_ID from the environment
   autoSyncInterval: null,
   showDuration: true,
   showCreatedDate: true,
   showFollowers: true,
   compactMode: false,
+  databasePath: '', // Empty = DB_CONFIG.DB_NAME in the userData folder
+  market: null,
 } as const;
 
+// Spotify markets are ISO 3166-1 alpha-2 country codes
+export const MARKET_PATTERN = /^[A-Z]{2}$/;
+
 // Regex patterns
 export const REGEX_PATTERNS = {
   // Detect if a string contains regex special characters
@@ -123,4 +140,5 @@ export const ERROR_MESSAGES = {
   DB_WRITE_FAILED: 'Failed to save tags. Retry?',
   INVALID_REGEX: 'Invalid regex pattern.',
   CANNOT_DELETE_FOLLOWED: "Cannot delete playlists you don't own.",
+  LIKED_SONGS_READ_ONLY: "Liked Songs can't be changed as a playlist, use like/unlike instead.",
 } as const;
@@ -0,0 +1,84 @@
+/**
+ * CSV formatting shared by exports and reports
+ */
+
+import type { LibraryUnlinkedTrack, PlannedReplacement } from './types';
+import { isAcceptedReplacement } from './recovery';
+
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Quote a value when it contains commas, quotes or line breaks
+ */
+export function escapeCsv(value: CsvValue): string {
+  const str = value === null || value === undefined ? '' : String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n');
+}
+
+/**
+ * Broken track recovery results, one row per unlinked track
+ * Borderline matches are listed for review, tracks without a candidate as
+ * failed with the reason
+ */
+export function formatRecoveryReport(
+  playlists: Array<{ playlistName: string; replacements: PlannedReplacement[] }>
+): string {
+  const rows = playlists.flatMap(({ playlistName, replacements }) =>
+    replacements.map((replacement) => [
+      playlistName,
+      replacement.original.name,
+      replacement.original.artist_name,
+      replacement.original.uri,
+      isAcceptedReplacement(replacement)
+        ? 'recovered'
+        : replacement.needsReview
+          ? 'review'
+          : 'failed',
+      replacement.candidate?.uri,
+      replacement.candidate?.name,
+      replacement.candidate?.artist_name,
+      replacement.candidate ? replacement.score.toFixed(2) : null,
+      replacement.reason,
+    ])
+  );
+
+  return toCsv(
+    [
+      'Playlist',
+      'Track Name',
+      'Artist Name',
+      'Original URI',
+      'Status',
+      'Replacement URI',
+      'Replacement Name',
+      'Replacement Artist',
+      'Score',
+      'Reason',
+    ],
+    rows
+  );
+}
+
+/**
+ * Unlinked tracks of the library, one row per track with the playlist it's in
+ */
+export function formatUnlinkedTracks(tracks: LibraryUnlinkedTrack[]): string {
+  return toCsv(
+    ['Playlist', 'Playlist ID', 'Track Name', 'Artist Name', 'Track URI', 'Detected At'],
+    tracks.map((track) => [
+      track.playlist_name,
+      track.playlist_id,
+      track.track_name,
+      track.artist_name,
+      track.track_uri,
+      new Date(track.detected_at).toISOString(),
+    ])
+  );
+}
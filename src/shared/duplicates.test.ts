@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { DuplicateMatchOptions } from './types';
+import {
+  DEFAULT_DUPLICATE_MATCH_OPTIONS,
+  findDuplicateGroups,
+  normalizeForMatching,
+  type DuplicateMatchTrack,
+} from './duplicates';
+
+function track(overrides: Partial<DuplicateMatchTrack>): DuplicateMatchTrack {
+  return {
+    track_uri: null,
+    name: null,
+    artist_name: null,
+    duration_ms: 200000,
+    isrc: null,
+    ...overrides,
+  };
+}
+
+const titleMatch: DuplicateMatchOptions = {
+  matchIsrc: false,
+  matchTitleArtist: true,
+  durationToleranceSec: 3,
+  stripVersionSuffixes: true,
+};
+
+describe('normalizeForMatching', () => {
+  it('lowercases and reduces to letters and digits', () => {
+    expect(normalizeForMatching('Beyoncé — Halo!')).toBe('beyonce halo');
+  });
+
+  it('drops version and featuring suffixes only when asked', () => {
+    expect(normalizeForMatching('Halo - Remastered 2011', true)).toBe('halo');
+    expect(normalizeForMatching('Halo (feat. Someone)', true)).toBe('halo');
+    expect(normalizeForMatching('Halo [Explicit]', true)).toBe('halo');
+    expect(normalizeForMatching('Halo - Remastered 2011')).toBe('halo remastered 2011');
+  });
+
+  it('keeps suffixes that name a different song', () => {
+    expect(normalizeForMatching('Halo (Part 2)', true)).toBe('halo part 2');
+    expect(normalizeForMatching('Halo - Live at Wembley', true)).toBe('halo live at wembley');
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups identical URIs without options', () => {
+    const tracks = [
+      track({ track_uri: 'spotify:track:a' }),
+      track({ track_uri: 'spotify:track:b' }),
+      track({ track_uri: 'spotify:track:a' }),
+      track({ track_uri: 'spotify:track:a' }),
+    ];
+
+    expect(findDuplicateGroups(tracks)).toEqual([[0, 2, 3]]);
+  });
+
+  it('ignores items without a URI when matching URIs', () => {
+    expect(findDuplicateGroups([track({}), track({})])).toEqual([]);
+  });
+
+  it('matches title and artist after normalization', () => {
+    const tracks = [
+      track({ track_uri: 'spotify:track:a', name: 'Halo', artist_name: 'Beyoncé' }),
+      track({ track_uri: 'spotify:track:b', name: 'HALO - Remastered', artist_name: 'beyonce' }),
+      track({ track_uri: 'spotify:track:c', name: 'Halo (feat. Someone)', artist_name: 'Beyonce' }),
+      track({ track_uri: 'spotify:track:d', name: 'Halo', artist_name: 'Other Artist' }),
+    ];
+
+    expect(findDuplicateGroups(tracks, titleMatch)).toEqual([[0, 1, 2]]);
+  });
+
+  it('matches ISRCs regardless of case', () => {
+    const tracks = [
+      track({ track_uri: 'spotify:track:a', isrc: 'usrc17607839' }),
+      track({ track_uri: 'spotify:track:b', isrc: 'USRC17607839' }),
+    ];
+
+    expect(findDuplicateGroups(tracks, DEFAULT_DUPLICATE_MATCH_OPTIONS)).toEqual([[0, 1]]);
+    expect(findDuplicateGroups(tracks)).toEqual([]);
+  });
+
+  it('matches titles up to the duration tolerance, inclusive', () => {
+    const pair = (durationMs: number) => [
+      track({ track_uri: 'spotify:track:a', name: 'Halo', artist_name: 'Beyonce' }),
+      track({
+        track_uri: 'spotify:track:b',
+        name: 'Halo',
+        artist_name: 'Beyonce',
+        duration_ms: durationMs,
+      }),
+    ];
+
+    expect(findDuplicateGroups(pair(203000), titleMatch)).toEqual([[0, 1]]);
+    expect(findDuplicateGroups(pair(203001), titleMatch)).toEqual([]);
+  });
+
+  it('ignores durations with a null tolerance', () => {
+    const base = { name: 'Halo', artist_name: 'Beyonce' };
+    const tracks = [
+      track({ ...base, track_uri: 'spotify:track:a', duration_ms: 200000 }),
+      track({ ...base, track_uri: 'spotify:track:b', duration_ms: 400000 }),
+    ];
+
+    expect(findDuplicateGroups(tracks, { ...titleMatch, durationToleranceSec: null })).toEqual([
+      [0, 1],
+    ]);
+    expect(findDuplicateGroups(tracks, titleMatch)).toEqual([]);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Duplicate track matching shared by the main process (merge, remove
+ * duplicates) and the renderer (review of the matching rules)
+ */
+
+import type { DuplicateMatchOptions } from './types';
+
+export const DEFAULT_DUPLICATE_MATCH_OPTIONS: DuplicateMatchOptions = {
+  matchIsrc: true,
+  matchTitleArtist: true,
+  durationToleranceSec: 3,
+  stripVersionSuffixes: true,
+};
+
+/**
+ * Track fields used for matching (satisfied by PlaylistTrackItem)
+ */
+export interface DuplicateMatchTrack {
+  track_uri: string | null;
+  name: string | null;
+  artist_name: string | null;
+  duration_ms: number;
+  isrc: string | null;
+}
+
+// Parts of a title that only name a version of the same recording, or its
+// featured artists, which are listed with the artists anyway
+const VERSION_KEYWORDS =
+  /\b(remaster(ed)?|radio edit|single version|album version|explicit|clean|mono|stereo|feat|ft|featuring)\b/i;
+
+/**
+ * Lowercase a title or artist and reduce it to letters and digits
+ * Version suffixes like " - Remastered 2011", "(Radio Edit)", "[Explicit]"
+ * or "(feat. Artist)" are dropped first when stripVersionSuffixes is set
+ */
+export function normalizeForMatching(value: string, stripVersionSuffixes = false): string {
+  let result = value;
+
+  if (stripVersionSuffixes) {
+    result = result
+      .replace(/\s*[([][^)\]]*[)\]]/g, (part) => (VERSION_KEYWORDS.test(part) ? '' : part))
+      .replace(/\s+-\s+.*$/, (part) => (VERSION_KEYWORDS.test(part) ? '' : part));
+  }
+
+  return result
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Group tracks that are the same song
+ * Returns groups of indices into `tracks` (two or more per group, ascending),
+ * ordered by their first index. Without options only identical URIs match.
+ */
+export function findDuplicateGroups(
+  tracks: DuplicateMatchTrack[],
+  options?: DuplicateMatchOptions
+): number[][] {
+  // Union-find over track indices, so matches by different rules chain together
+  const parent = tracks.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  const unionByKey = (getKey: (track: DuplicateMatchTrack) => string | null) => {
+    const firstIndex = new Map<string, number>();
+    tracks.forEach((track, index) => {
+      const key = getKey(track);
+      if (!key) return;
+      const first = firstIndex.get(key);
+      if (first === undefined) {
+        firstIndex.set(key, index);
+      } else {
+        union(first, index);
+      }
+    });
+  };
+
+  unionByKey((track) => track.track_uri);
+
+  if (options?.matchIsrc) {
+    unionByKey((track) => track.isrc?.toUpperCase() || null);
+  }
+
+  if (options?.matchTitleArtist) {
+    const buckets = new Map<string, number[]>();
+    tracks.forEach((track, index) => {
+      if (!track.name || !track.artist_name) return;
+      const title = normalizeForMatching(track.name, options.stripVersionSuffixes);
+      const artist = normalizeForMatching(track.artist_name);
+      if (!title || !artist) return;
+
+      const key = `${title}\u0000${artist}`;
+      buckets.set(key, [...(buckets.get(key) || []), index]);
+    });
+
+    const toleranceMs =
+      options.durationToleranceSec === null ? Infinity : options.durationToleranceSec * 1000;
+
+    for (const indices of buckets.values()) {
+      for (let i = 0; i < indices.length; i++) {
+        for (let j = i + 1; j < indices.length; j++) {
+          const a = tracks[indices[i]];
+          const b = tracks[indices[j]];
+          if (Math.abs(a.duration_ms - b.duration_ms) <= toleranceMs) {
+            union(indices[i], indices[j]);
+          }
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  tracks.forEach((_, index) => {
+    const root = find(index);
+    const group = groups.get(root);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(root, [index]);
+    }
+  });
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .sort((a, b) => a[0] - b[0]);
+}
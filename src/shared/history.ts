@@ -0,0 +1,150 @@
+/**
+ * Operation history helpers shared by the main process (export) and the
+ * renderer (history panel)
+ */
+
+import type { OperationHistory, OperationUndoData } from './types';
+import { toCsv } from './csv';
+
+export type OperationType = OperationHistory['operation_type'];
+
+export const OPERATION_TYPE_LABELS: Record<OperationType, string> = {
+  merge: 'Merge',
+  delete: 'Delete',
+  rename: 'Rename',
+  subtract: 'Subtract',
+  intersect: 'Intersect',
+  tag: 'Tag',
+  remove_duplicates: 'Remove duplicates',
+  fix_broken_links: 'Fix broken links',
+  remove_unlinked: 'Remove unlinked',
+  like: 'Like',
+  unlike: 'Unlike',
+  undo: 'Undo',
+};
+
+/**
+ * Parse the JSON details of an operation (empty object if malformed)
+ */
+export function parseOperationDetails(
+  operation: OperationHistory
+): Record<string, any> & { undo?: OperationUndoData } {
+  try {
+    return JSON.parse(operation.details) || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Parse the JSON list of affected playlist IDs
+ */
+export function parseAffectedPlaylists(operation: OperationHistory): string[] {
+  try {
+    return JSON.parse(operation.playlists_affected) || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * One-line human readable summary of what an operation did
+ */
+export function summarizeOperation(operation: OperationHistory): string {
+  const d = parseOperationDetails(operation);
+
+  switch (operation.operation_type) {
+    case 'merge':
+      return (
+        `Merged ${d.source_playlists?.length ?? '?'} playlists into "${d.target_name}" ` +
+        `(${d.track_count} tracks` +
+        `${d.remove_duplicates ? ', duplicates removed' : ''}` +
+        `${d.delete_source ? ', sources deleted' : ''})`
+      );
+    case 'delete':
+      return `Deleted ${d.deleted} of ${d.total} playlists${d.failed ? ` (${d.failed} failed)` : ''}`;
+    case 'rename': {
+      // Entries logged before undo support kept the list at the top level
+      const renamed = d.undo?.renamed ?? d.renamed ?? [];
+      return (
+        `Renamed ${renamed.length} playlists (/${d.find_pattern}/ → "${d.replace_pattern}")` +
+        `${d.failed ? `, ${d.failed} failed` : ''}`
+      );
+    }
+    case 'subtract':
+      return (
+        `Created "${d.target_name}" with ${d.track_count} of ${d.source_count} tracks ` +
+        `(${d.removed_count} removed by ${d.subtract_playlists?.length ?? '?'} playlists)`
+      );
+    case 'intersect':
+      return (
+        `Created "${d.target_name}" with ${d.track_count} tracks found in at least ` +
+        `${d.min_count} of ${d.source_playlists?.length ?? '?'} playlists`
+      );
+    case 'tag':
+      return `${d.append ? 'Added' : 'Set'} tags "${d.tags}" on ${d.undo?.tags?.length ?? '?'} playlists`;
+    case 'remove_duplicates':
+      return (
+        `Removed ${d.duplicates_removed} duplicates ${d.mode === 'in_place' ? 'in place ' : ''}` +
+        `(${d.unique_count} of ${d.original_count} tracks kept)`
+      );
+    case 'fix_broken_links':
+      return (
+        `Recovered ${d.recovered} of ${d.total} broken tracks ${d.mode === 'in_place' ? 'in place ' : ''}` +
+        `(${d.failed} not found)`
+      );
+    case 'remove_unlinked':
+      return `Removed ${d.removed} unlinked tracks`;
+    case 'like':
+      return (
+        `Liked ${d.liked} tracks from ${d.source_playlists?.length ?? '?'} playlists ` +
+        `(${d.already_liked} already liked)`
+      );
+    case 'unlike':
+      return `Unliked ${d.unliked} tracks found in "${d.playlist_name}"`;
+    case 'undo':
+      return (
+        `Undid ${OPERATION_TYPE_LABELS[d.undone_type as OperationType] ?? d.undone_type} ` +
+        `#${d.undone_operation}${d.failed ? ` (${d.failed} steps failed)` : ''}`
+      );
+    default:
+      return operation.details;
+  }
+}
+
+/**
+ * Format history entries as an audit log file
+ */
+export function formatOperationHistory(
+  operations: OperationHistory[],
+  format: 'csv' | 'json'
+): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      operations.map((operation) => ({
+        id: operation.id,
+        timestamp: new Date(operation.timestamp).toISOString(),
+        operation_type: operation.operation_type,
+        summary: summarizeOperation(operation),
+        playlists_affected: parseAffectedPlaylists(operation),
+        details: parseOperationDetails(operation),
+        can_undo: !!operation.can_undo,
+      })),
+      null,
+      2
+    );
+  }
+
+  return toCsv(
+    ['ID', 'Timestamp', 'Operation', 'Summary', 'Playlists Affected', 'Can Undo', 'Details'],
+    operations.map((operation) => [
+      operation.id,
+      new Date(operation.timestamp).toISOString(),
+      operation.operation_type,
+      summarizeOperation(operation),
+      parseAffectedPlaylists(operation).join(' '),
+      operation.can_undo ? 'yes' : 'no',
+      operation.details,
+    ])
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Liked Songs helpers shared by the main process and the renderer
+ * Liked Songs are listed as a pseudo-playlist: they can be read like any
+ * playlist, but only changed by liking or unliking tracks
+ */
+
+import { LIKED_SONGS } from './constants';
+import type { LocalPlaylist } from './types';
+
+export function isLikedSongs(playlistId: string): boolean {
+  return playlistId === LIKED_SONGS.ID;
+}
+
+/**
+ * Whether a playlist can be renamed, deleted or changed in place
+ */
+export function isEditablePlaylist(playlist: Pick<LocalPlaylist, 'spotify_id' | 'is_owner'>): boolean {
+  return playlist.is_owner && !isLikedSongs(playlist.spotify_id);
+}
+
+/**
+ * Link to a playlist (or the Liked Songs collection) in Spotify
+ */
+export function getPlaylistUrl(playlistId: string): string {
+  return isLikedSongs(playlistId)
+    ? LIKED_SONGS.URL
+    : `https://open.spotify.com/playlist/${playlistId}`;
+}
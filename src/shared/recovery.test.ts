@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RECOVERY_MATCH_OPTIONS,
+  scoreReplacement,
+  type RecoveryMatchTrack,
+} from './recovery';
+
+const original: RecoveryMatchTrack = {
+  name: 'Halo',
+  artists: ['Beyoncé'],
+  album_name: 'I Am... Sasha Fierce',
+  duration_ms: 261000,
+  isrc: 'USSM10804556',
+};
+
+describe('scoreReplacement', () => {
+  it('scores the same ISRC as a certain match', () => {
+    const candidate: RecoveryMatchTrack = {
+      name: 'Something Else',
+      artists: ['Someone'],
+      album_name: null,
+      duration_ms: 100000,
+      isrc: 'USSM10804556',
+    };
+
+    expect(scoreReplacement(original, candidate)).toBe(1);
+  });
+
+  it('auto-accepts the same title, artist and length on another release', () => {
+    const candidate: RecoveryMatchTrack = {
+      name: 'Halo - Remastered',
+      artists: ['Beyonce'],
+      album_name: 'I Am... Sasha Fierce (Deluxe)',
+      duration_ms: 262000,
+      isrc: 'USSM10900001',
+    };
+
+    const score = scoreReplacement(original, candidate);
+    expect(score).toBeGreaterThanOrEqual(DEFAULT_RECOVERY_MATCH_OPTIONS.autoAcceptScore);
+    expect(score).toBeLessThan(1);
+  });
+
+  it('penalizes a live version of a studio original below auto-accept', () => {
+    const candidate: RecoveryMatchTrack = {
+      name: 'Halo (Live)',
+      artists: ['Beyoncé'],
+      album_name: 'I Am... World Tour',
+      duration_ms: 270000,
+      isrc: null,
+    };
+
+    expect(scoreReplacement(original, candidate)).toBeLessThan(
+      DEFAULT_RECOVERY_MATCH_OPTIONS.autoAcceptScore
+    );
+  });
+
+  it('rejects a different song by another artist', () => {
+    const candidate: RecoveryMatchTrack = {
+      name: 'Crazy in Love',
+      artists: ['Someone Else'],
+      album_name: 'Dangerously in Love',
+      duration_ms: 236000,
+      isrc: 'USSM10300001',
+    };
+
+    expect(scoreReplacement(original, candidate)).toBeLessThan(
+      DEFAULT_RECOVERY_MATCH_OPTIONS.minScore
+    );
+  });
+});
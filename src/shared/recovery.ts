@@ -0,0 +1,132 @@
+/**
+ * Replacement matching for unlinked tracks, shared by the main process
+ * (fix broken tracks) and the renderer (review of borderline matches)
+ */
+
+import type { PlannedReplacement, RecoveryMatchOptions } from './types';
+import { normalizeForMatching } from './duplicates';
+
+export const DEFAULT_RECOVERY_MATCH_OPTIONS: RecoveryMatchOptions = {
+  autoAcceptScore: 0.85,
+  minScore: 0.5,
+};
+
+/**
+ * Track fields used for scoring, available for both the original
+ * (from the track cache) and search results
+ */
+export interface RecoveryMatchTrack {
+  name: string | null;
+  artists: string[];
+  album_name: string | null;
+  duration_ms: number;
+  isrc: string | null;
+}
+
+// Share of each signal in the score; the same ISRC always scores 1
+const WEIGHTS = { title: 0.4, artist: 0.3, duration: 0.2, album: 0.1 };
+
+// Words marking a different recording of the same song (checked in titles and albums)
+const VARIANT_KEYWORDS = [
+  'live',
+  'karaoke',
+  'cover',
+  'instrumental',
+  'acoustic',
+  'remix',
+  'demo',
+  'tribute',
+  'originally performed',
+  'sped up',
+  'slowed',
+  'unplugged',
+  'extended',
+  'club mix',
+];
+
+// Candidates that are a different kind of recording keep this share of their score
+const VARIANT_PENALTY = 0.6;
+
+// Length differences up to this are ignored, from the maximum on they score 0
+const DURATION_EXACT_SEC = 2;
+const DURATION_MAX_SEC = 30;
+
+function words(value: string): Set<string> {
+  return new Set(value.split(' ').filter(Boolean));
+}
+
+/**
+ * Dice coefficient of the title words, ignoring version suffixes
+ */
+function titleSimilarity(a: string, b: string): number {
+  const wordsA = words(normalizeForMatching(a, true));
+  const wordsB = words(normalizeForMatching(b, true));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Share of the original artists credited on the candidate
+ */
+function artistOverlap(original: string[], candidate: string[]): number {
+  if (original.length === 0) return 0;
+  const candidateArtists = new Set(candidate.map((artist) => normalizeForMatching(artist)));
+  return (
+    original.filter((artist) => candidateArtists.has(normalizeForMatching(artist))).length /
+    original.length
+  );
+}
+
+function durationSimilarity(a: number, b: number): number {
+  // Unknown length neither helps nor hurts
+  if (!a || !b) return 0.5;
+  const deltaSec = Math.abs(a - b) / 1000;
+  if (deltaSec <= DURATION_EXACT_SEC) return 1;
+  return Math.max(0, 1 - (deltaSec - DURATION_EXACT_SEC) / (DURATION_MAX_SEC - DURATION_EXACT_SEC));
+}
+
+function albumSimilarity(a: string | null, b: string | null): number {
+  if (!a || !b) return 0.5;
+  const albumA = normalizeForMatching(a, true);
+  const albumB = normalizeForMatching(b, true);
+  if (albumA === albumB) return 1;
+  return albumA.includes(albumB) || albumB.includes(albumA) ? 0.5 : 0;
+}
+
+function variantKeywords(track: RecoveryMatchTrack): string[] {
+  const text = ` ${normalizeForMatching(`${track.name || ''} ${track.album_name || ''}`)} `;
+  return VARIANT_KEYWORDS.filter((keyword) => text.includes(` ${keyword} `));
+}
+
+/**
+ * Score how closely a candidate matches the original track (0-1)
+ * Weighs title similarity, artist overlap, length and album; candidates
+ * that are a live version, karaoke, cover... of a studio original are penalized
+ */
+export function scoreReplacement(original: RecoveryMatchTrack, candidate: RecoveryMatchTrack): number {
+  if (original.isrc && candidate.isrc && original.isrc === candidate.isrc) {
+    return 1;
+  }
+
+  let score =
+    WEIGHTS.title * titleSimilarity(original.name || '', candidate.name || '') +
+    WEIGHTS.artist * artistOverlap(original.artists, candidate.artists) +
+    WEIGHTS.duration * durationSimilarity(original.duration_ms, candidate.duration_ms) +
+    WEIGHTS.album * albumSimilarity(original.album_name, candidate.album_name);
+
+  const originalVariants = variantKeywords(original);
+  if (variantKeywords(candidate).some((keyword) => !originalVariants.includes(keyword))) {
+    score *= VARIANT_PENALTY;
+  }
+
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Whether a replacement will be applied (has a candidate that needs no review)
+ */
+export function isAcceptedReplacement(replacement: PlannedReplacement): boolean {
+  return !!replacement.candidate && !replacement.needsReview;
+}
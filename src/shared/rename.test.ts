@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LocalPlaylist } from './types';
+import { LIKED_SONGS } from './constants';
+import { buildRenamePlan, escapeReplacement } from './rename';
+
+function playlist(overrides: Partial<LocalPlaylist>): LocalPlaylist {
+  return {
+    spotify_id: 'playlist1',
+    name: 'Warmup',
+    owner: 'dj',
+    track_count: 12,
+    duration_ms: 0,
+    followers: 0,
+    is_owner: true,
+    created_at: '',
+    modified_at: '',
+    tags: '',
+    last_synced: 0,
+    snapshot_id: 'snapshot1',
+    unlinked_count: 0,
+    ...overrides,
+  };
+}
+
+describe('buildRenamePlan', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-05T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('requires a valid find pattern', () => {
+    const playlists = [playlist({})];
+
+    expect(buildRenamePlan(playlists, { findPattern: '', replacePattern: 'x' })).toEqual({
+      items: [],
+      error: 'Find pattern is required',
+    });
+    expect(buildRenamePlan(playlists, { findPattern: '(', replacePattern: 'x' })).toEqual({
+      items: [],
+      error: 'Invalid regex pattern',
+    });
+  });
+
+  it('replaces capture groups', () => {
+    const plan = buildRenamePlan([playlist({ name: 'House 2023' })], {
+      findPattern: '^(\\w+) (\\d+)$',
+      replacePattern: '$2 $1',
+    });
+
+    expect(plan.items[0]).toMatchObject({ newName: '2023 House', skipReason: undefined });
+  });
+
+  it('expands the index, track count and date tokens', () => {
+    const plan = buildRenamePlan(
+      [
+        playlist({ spotify_id: 'a', track_count: 12 }),
+        playlist({ spotify_id: 'b', track_count: 30 }),
+      ],
+      { findPattern: '^.*$', replacePattern: '{index}. Set ({track_count}) {date}' }
+    );
+
+    expect(plan.items.map((item) => item.newName)).toEqual([
+      '1. Set (12) 2024-03-05',
+      '2. Set (30) 2024-03-05',
+    ]);
+  });
+
+  it('marks playlists that are skipped', () => {
+    const plan = buildRenamePlan(
+      [
+        playlist({ spotify_id: LIKED_SONGS.ID, name: 'Liked Songs' }),
+        playlist({ spotify_id: 'other', name: 'Old Mix', is_owner: false }),
+        playlist({ spotify_id: 'same', name: 'Mix' }),
+        playlist({ spotify_id: 'empty', name: 'Old ' }),
+        playlist({ spotify_id: 'renamed', name: 'Old Set' }),
+      ],
+      { findPattern: 'Old ', replacePattern: '' }
+    );
+
+    expect(plan.items.map((item) => [item.spotify_id, item.newName, item.skipReason])).toEqual([
+      [LIKED_SONGS.ID, 'Liked Songs', 'read_only'],
+      ['other', 'Mix', 'not_owner'],
+      ['same', 'Mix', 'unchanged'],
+      ['empty', '', 'empty_name'],
+      ['renamed', 'Set', undefined],
+    ]);
+  });
+});
+
+describe('escapeReplacement', () => {
+  it('keeps a name with $ literal when used as the replacement', () => {
+    const name = 'Cash $$ $& $1 Mix';
+    const plan = buildRenamePlan([playlist({ name: 'Warmup' })], {
+      findPattern: '^.*$',
+      replacePattern: escapeReplacement(name),
+    });
+
+    expect(plan.items[0].newName).toBe(name);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Bulk rename helpers shared by the main process and the renderer preview
+ */
+
+import type { LocalPlaylist, RenameConfig, RenamePlanItem } from './types';
+import { isLikedSongs } from './liked-songs';
+
+export interface RenamePlan {
+  items: RenamePlanItem[];
+  error: string | null;
+}
+
+/**
+ * Expand {index}, {track_count} and {date} tokens in a replace pattern
+ */
+function expandTokens(replacePattern: string, playlist: LocalPlaylist, index: number): string {
+  const date = new Date().toISOString().split('T')[0];
+
+  return replacePattern
+    .replace(/\{index\}/g, String(index + 1))
+    .replace(/\{track_count\}/g, String(playlist.track_count))
+    .replace(/\{date\}/g, date);
+}
+
+/**
+ * Escape text so a replace pattern inserts it literally
+ * (`$` would otherwise start a capture group reference)
+ */
+export function escapeReplacement(text: string): string {
+  return text.replace(/\$/g, '$$$$');
+}
+
+/**
+ * Compute old name -> new name for every playlist
+ * Playlists the user doesn't own (and Liked Songs) are listed but marked as skipped
+ */
+export function buildRenamePlan(playlists: LocalPlaylist[], config: RenameConfig): RenamePlan {
+  if (!config.findPattern) {
+    return { items: [], error: 'Find pattern is required' };
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(config.findPattern, 'g');
+  } catch (err) {
+    return { items: [], error: 'Invalid regex pattern' };
+  }
+
+  const items = playlists.map((playlist, index): RenamePlanItem => {
+    const replacement = expandTokens(config.replacePattern, playlist, index);
+    const newName = playlist.name.replace(regex, replacement).trim();
+
+    let skipReason: RenamePlanItem['skipReason'];
+    if (isLikedSongs(playlist.spotify_id)) {
+      skipReason = 'read_only';
+    } else if (!playlist.is_owner) {
+      skipReason = 'not_owner';
+    } else if (!newName) {
+      skipReason = 'empty_name';
+    } else if (newName === playlist.name) {
+      skipReason = 'unchanged';
+    }
+
+    return {
+      spotify_id: playlist.spotify_id,
+      oldName: playlist.name,
+      newName,
+      skipReason,
+    };
+  });
+
+  return { items, error: null };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from './constants';
+import { validateSettings } from './settings';
+
+describe('validateSettings', () => {
+  it('accepts the defaults', () => {
+    expect(validateSettings({ ...DEFAULT_SETTINGS })).toEqual([]);
+  });
+
+  it('accepts valid values', () => {
+    expect(
+      validateSettings({
+        spotifyClientId: '0123456789abcdef0123456789ABCDEF',
+        autoSyncInterval: 168,
+        compactMode: true,
+        databasePath: 'C:\\Users\\dj\\playlists.db',
+        market: 'DE',
+      })
+    ).toEqual([]);
+    expect(validateSettings({ databasePath: '/home/dj/playlists.DB' })).toEqual([]);
+  });
+
+  it('reports one message per invalid value', () => {
+    expect(
+      validateSettings({
+        spotifyClientId: 'abc',
+        autoSyncInterval: 0,
+        showFollowers: 'yes',
+        databasePath: 'playlists.db',
+        market: 'de',
+      })
+    ).toEqual([
+      'Spotify client ID must be a 32-character Spotify client ID',
+      'Auto sync must be off or between 1 and 168 hours',
+      'Followers column must be on or off',
+      'Database location must be an absolute path to a .db file',
+      'Market must be a two-letter country code',
+    ]);
+  });
+
+  it('checks the auto sync interval bounds', () => {
+    expect(validateSettings({ autoSyncInterval: 1 })).toEqual([]);
+    expect(validateSettings({ autoSyncInterval: null })).toEqual([]);
+    expect(validateSettings({ autoSyncInterval: 169 })).toHaveLength(1);
+    expect(validateSettings({ autoSyncInterval: 1.5 })).toHaveLength(1);
+  });
+
+  it('rejects unknown settings', () => {
+    expect(validateSettings({ theme: 'dark' })).toEqual(['Unknown setting "theme"']);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * App settings validation, shared by the main process (settings store) and
+ * the renderer (settings form)
+ */
+
+import type { AppSettings } from './types';
+import { DEFAULT_SETTINGS, MARKET_PATTERN } from './constants';
+
+export type SettingKey = keyof AppSettings;
+
+export const MAX_AUTO_SYNC_INTERVAL_HOURS = 7 * 24;
+
+const isBoolean = (value: unknown) => (typeof value === 'boolean' ? null : 'must be on or off');
+
+// Each validator returns why a value is invalid, or null
+const VALIDATORS: Record<SettingKey, (value: unknown) => string | null> = {
+  spotifyClientId: (value) =>
+    typeof value === 'string' && /^([0-9a-f]{32})?$/i.test(value)
+      ? null
+      : 'must be a 32-character Spotify client ID',
+  autoSyncInterval: (value) =>
+    value === null ||
+    (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_AUTO_SYNC_INTERVAL_HOURS)
+      ? null
+      : `must be off or between 1 and ${MAX_AUTO_SYNC_INTERVAL_HOURS} hours`,
+  showDuration: isBoolean,
+  showCreatedDate: isBoolean,
+  showFollowers: isBoolean,
+  compactMode: isBoolean,
+  // Absolute POSIX or Windows path to a .db file
+  databasePath: (value) =>
+    typeof value === 'string' &&
+    (value === '' || (/^(\/|[A-Za-z]:[\\/]|\\\\)/.test(value) && /\.db$/i.test(value)))
+      ? null
+      : 'must be an absolute path to a .db file',
+  market: (value) =>
+    value === null || (typeof value === 'string' && MARKET_PATTERN.test(value))
+      ? null
+      : 'must be a two-letter country code',
+};
+
+export const SETTING_LABELS: Record<SettingKey, string> = {
+  spotifyClientId: 'Spotify client ID',
+  autoSyncInterval: 'Auto sync',
+  showDuration: 'Duration column',
+  showCreatedDate: 'Created column',
+  showFollowers: 'Followers column',
+  compactMode: 'Compact rows',
+  databasePath: 'Database location',
+  market: 'Market',
+};
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_SETTINGS, key);
+}
+
+/**
+ * Check settings (or a partial update), one message per invalid or unknown field
+ */
+export function validateSettings(settings: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(settings)) {
+    if (!isSettingKey(key)) {
+      errors.push(`Unknown setting "${key}"`);
+      continue;
+    }
+
+    const error = VALIDATORS[key](value);
+    if (error) {
+      errors.push(`${SETTING_LABELS[key]} ${error}`);
+    }
+  }
+
+  return errors;
+}
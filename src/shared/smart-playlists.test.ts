@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { SmartCondition, SmartPlaylistRules } from './types';
+import { DEFAULT_SMART_RULES, parseSmartRules, validateSmartRules } from './smart-playlists';
+
+const rules: SmartPlaylistRules = { ...DEFAULT_SMART_RULES, sourcePlaylistIds: ['playlist1'] };
+
+function withCondition(condition: SmartCondition): SmartPlaylistRules {
+  return { ...rules, include: [condition] };
+}
+
+describe('validateSmartRules', () => {
+  it('accepts valid rules', () => {
+    expect(validateSmartRules('Recent', rules)).toBeNull();
+    expect(
+      validateSmartRules('Recent', {
+        ...DEFAULT_SMART_RULES,
+        sourceTags: ['house'],
+        include: [{ field: 'added_at', operator: 'within_days', value: '30' }],
+        exclude: [{ field: 'duration', operator: 'greater_than', value: '600' }],
+        limit: 100,
+      })
+    ).toBeNull();
+  });
+
+  it('requires a name and a source', () => {
+    expect(validateSmartRules('  ', rules)).toBe('Name is required');
+    expect(validateSmartRules('Recent', DEFAULT_SMART_RULES)).toBe(
+      'Pick at least one source playlist or tag'
+    );
+  });
+
+  it('requires a positive whole limit', () => {
+    for (const limit of [0, -1, 2.5]) {
+      expect(validateSmartRules('Recent', { ...rules, limit })).toBe(
+        'Limit must be a positive whole number'
+      );
+    }
+  });
+
+  it('rejects operators that do not fit the field', () => {
+    const condition: SmartCondition = { field: 'artist', operator: 'before', value: 'x' };
+
+    expect(validateSmartRules('Recent', withCondition(condition))).toBe(
+      `"before" can't be used with Artist`
+    );
+  });
+
+  it('checks condition values', () => {
+    expect(
+      validateSmartRules('Recent', withCondition({ field: 'artist', operator: 'is', value: ' ' }))
+    ).toBe('Artist condition needs a value');
+    expect(
+      validateSmartRules(
+        'Recent',
+        withCondition({ field: 'added_at', operator: 'after', value: 'yesterday' })
+      )
+    ).toBe('Added: "yesterday" is not a date (YYYY-MM-DD)');
+    expect(
+      validateSmartRules(
+        'Recent',
+        withCondition({ field: 'release_year', operator: 'after', value: 'nineties' })
+      )
+    ).toBe('Release year: "nineties" is not a number');
+  });
+});
+
+describe('parseSmartRules', () => {
+  it('fills in fields missing from stored rules', () => {
+    const smartPlaylist = {
+      id: 1,
+      name: 'Recent',
+      rules: JSON.stringify({ sourcePlaylistIds: ['playlist1'], include: [], exclude: [] }),
+      spotify_id: null,
+      last_updated: null,
+      last_error: null,
+      created_at: 0,
+      updated_at: 0,
+    };
+
+    expect(parseSmartRules(smartPlaylist)).toEqual(rules);
+    expect(parseSmartRules({ ...smartPlaylist, rules: 'not json' })).toEqual(DEFAULT_SMART_RULES);
+  });
+});
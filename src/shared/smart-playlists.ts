@@ -0,0 +1,115 @@
+/**
+ * Smart playlist rule helpers shared by the main process (evaluation) and
+ * the renderer (rule editor)
+ */
+
+import type {
+  SmartConditionField,
+  SmartConditionOperator,
+  SmartPlaylist,
+  SmartPlaylistRules,
+  SmartSortField,
+} from './types';
+
+export const SMART_CONDITION_FIELDS: Record<SmartConditionField, string> = {
+  artist: 'Artist',
+  added_at: 'Added',
+  duration: 'Duration (seconds)',
+  release_year: 'Release year',
+  playlist: 'In playlist',
+};
+
+// Operators that make sense for each field, the first one is the default
+export const SMART_CONDITION_OPERATORS: Record<SmartConditionField, SmartConditionOperator[]> = {
+  artist: ['is', 'contains'],
+  added_at: ['within_days', 'after', 'before'],
+  duration: ['less_than', 'greater_than'],
+  release_year: ['is', 'after', 'before'],
+  playlist: ['is'],
+};
+
+export const SMART_OPERATOR_LABELS: Record<SmartConditionOperator, string> = {
+  is: 'is',
+  contains: 'contains',
+  before: 'before',
+  after: 'after',
+  within_days: 'within last N days',
+  less_than: 'less than',
+  greater_than: 'greater than',
+};
+
+export const SMART_SORT_FIELDS: Record<SmartSortField, string> = {
+  source_order: 'Source order',
+  added_at: 'Date added',
+  release_date: 'Release date',
+  name: 'Title',
+  artist: 'Artist',
+  duration: 'Duration',
+};
+
+export const DEFAULT_SMART_RULES: SmartPlaylistRules = {
+  sourcePlaylistIds: [],
+  sourceTags: [],
+  include: [],
+  exclude: [],
+  sortBy: 'source_order',
+  sortDirection: 'asc',
+  limit: null,
+};
+
+/**
+ * Parse the stored rules, filling in fields added after they were saved
+ */
+export function parseSmartRules(smartPlaylist: SmartPlaylist): SmartPlaylistRules {
+  try {
+    return { ...DEFAULT_SMART_RULES, ...JSON.parse(smartPlaylist.rules) };
+  } catch {
+    return { ...DEFAULT_SMART_RULES };
+  }
+}
+
+/**
+ * Check rules before they are saved
+ * Returns an error message, or null when the rules are valid
+ */
+export function validateSmartRules(name: string, rules: SmartPlaylistRules): string | null {
+  if (!name.trim()) {
+    return 'Name is required';
+  }
+
+  if (rules.sourcePlaylistIds.length === 0 && rules.sourceTags.length === 0) {
+    return 'Pick at least one source playlist or tag';
+  }
+
+  if (rules.limit !== null && (!Number.isInteger(rules.limit) || rules.limit < 1)) {
+    return 'Limit must be a positive whole number';
+  }
+
+  for (const condition of [...rules.include, ...rules.exclude]) {
+    const label = SMART_CONDITION_FIELDS[condition.field];
+
+    if (!SMART_CONDITION_OPERATORS[condition.field]?.includes(condition.operator)) {
+      return `"${SMART_OPERATOR_LABELS[condition.operator]}" can't be used with ${label}`;
+    }
+
+    const value = condition.value.trim();
+    if (!value) {
+      return `${label} condition needs a value`;
+    }
+
+    const isDate = condition.field === 'added_at' && condition.operator !== 'within_days';
+    if (isDate && Number.isNaN(Date.parse(value))) {
+      return `${label}: "${value}" is not a date (YYYY-MM-DD)`;
+    }
+
+    const isNumber =
+      condition.field === 'duration' ||
+      condition.field === 'release_year' ||
+      condition.operator === 'within_days';
+    if (isNumber && !(Number(value) >= 0)) {
+      return `${label}: "${value}" is not a number`;
+    }
+  }
+
+  return null;
+}
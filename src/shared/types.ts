@@ -56,15 +56,150 @@ export interface LocalPlaylist {
   unlinked_count: number;
 }
 
+/**
+ * Playlist fields written by sync
+ * Local-owned columns (tags) are never included; detail columns
+ * (duration, followers, unlinked count) are only written when they were fetched
+ */
+export type SyncedPlaylist = Omit<
+  LocalPlaylist,
+  'tags' | 'duration_ms' | 'followers' | 'unlinked_count'
+> &
+  Partial<Pick<LocalPlaylist, 'duration_ms' | 'followers' | 'unlinked_count'>>;
+
 export interface OperationHistory {
   id: number;
   timestamp: number;
-  operation_type: 'merge' | 'delete' | 'rename' | 'subtract' | 'intersect' | 'tag' | 'remove_duplicates' | 'fix_broken_links';
+  operation_type: 'merge' | 'delete' | 'rename' | 'subtract' | 'intersect' | 'tag' | 'remove_duplicates' | 'fix_broken_links' | 'remove_unlinked' | 'like' | 'unlike' | 'undo';
   playlists_affected: string; // JSON array
-  details: string; // JSON object
+  details: string; // JSON object, inverse data under `undo` (OperationUndoData)
   can_undo: boolean;
 }
 
+// Dry-run plans returned instead of changing anything
+export interface PlannedTrack {
+  uri: string | null;
+  name: string | null;
+  artist_name: string | null;
+  album_name?: string | null;
+  duration_ms?: number;
+  position?: number; // Position in the source playlist
+}
+
+/**
+ * Versions of the same song found in a playlist, and the one that is kept
+ */
+export interface PlannedDuplicateGroup {
+  tracks: PlannedTrack[];
+  keep: number; // Position of the kept version
+}
+
+export interface ScoredCandidate extends PlannedTrack {
+  score: number; // 0-1, how closely the candidate matches the original
+}
+
+export interface PlannedReplacement {
+  original: PlannedTrack;
+  candidate: PlannedTrack | null;
+  score: number; // 0-1, how closely the candidate matches the original
+  reason?: string; // Why there is no candidate
+  needsReview?: boolean; // Candidate scored below the auto-accept score and wasn't picked in review
+  alternatives?: ScoredCandidate[]; // Every candidate above the minimum score, best first
+}
+
+export interface OperationPlan {
+  playlistsToCreate: Array<{ name: string; trackCount: number }>;
+  playlistsToDelete: Array<{ spotify_id: string; name: string; track_count: number }>;
+  tracksToAdd: PlannedTrack[];
+  tracksToRemove: PlannedTrack[];
+  duplicates: PlannedTrack[];
+  replacements: PlannedReplacement[];
+  duplicateGroups?: PlannedDuplicateGroup[]; // Remove duplicates only, for review
+  warnings: string[];
+}
+
+/**
+ * How duplicates are removed: delete later occurrences from the playlist itself
+ * (owned playlists only) or create a duplicate-free copy
+ */
+export type DuplicateRemovalMode = 'in_place' | 'copy';
+
+/**
+ * Rules for treating different tracks as the same song
+ * Tracks with the same URI are always duplicates
+ */
+export interface DuplicateMatchOptions {
+  matchIsrc: boolean; // Same recording released on a single, album, compilation...
+  matchTitleArtist: boolean; // Same normalized title and primary artist
+  durationToleranceSec: number | null; // Max length difference for title matches (null = any)
+  stripVersionSuffixes: boolean; // Ignore "Remastered", "Radio Edit", etc. in titles
+}
+
+/**
+ * How unlinked tracks are fixed: swap each one for its replacement at the
+ * same position (owned playlists only) or collect the replacements in a new playlist
+ */
+export type BrokenTrackRecoveryMode = 'in_place' | 'copy';
+
+// How replacements for unlinked tracks are picked (scores are 0-1)
+export interface RecoveryMatchOptions {
+  autoAcceptScore: number; // Candidates scoring at least this are used without review
+  minScore: number; // Candidates scoring less are never offered
+}
+
+export interface BrokenTrackRecoveryOptions {
+  mode?: BrokenTrackRecoveryMode; // Defaults to 'copy'
+  match?: RecoveryMatchOptions; // DEFAULT_RECOVERY_MATCH_OPTIONS when omitted
+  // Picked in review, by position: the replacement URI, or null to leave the track out
+  decisions?: Record<number, string | null>;
+}
+
+export interface DuplicateRemovalOptions {
+  mode?: DuplicateRemovalMode; // Defaults to 'copy'
+  match?: DuplicateMatchOptions; // Exact URI matches only when omitted
+  keep?: number[]; // Positions picked in review; the first version is kept otherwise
+}
+
+export type DryRunRequest =
+  | { operation: 'delete'; playlistIds: string[] }
+  | {
+      operation: 'merge';
+      playlistIds: string[];
+      targetName: string;
+      removeDuplicates: boolean;
+      deleteSource: boolean;
+      duplicateMatch?: DuplicateMatchOptions;
+    }
+  | { operation: 'remove_duplicates'; playlistId: string; options: DuplicateRemovalOptions }
+  | { operation: 'fix_broken_links'; playlistId: string; options?: BrokenTrackRecoveryOptions };
+
+export interface OperationHistoryFilter {
+  operationTypes?: OperationHistory['operation_type'][]; // All types when empty
+  from?: number; // Timestamp, inclusive
+  to?: number; // Timestamp, inclusive
+  limit?: number;
+}
+
+/**
+ * Inverse data stored in the details of undoable operations
+ */
+export interface OperationUndoData {
+  created_playlists?: string[]; // Unfollowed on undo
+  deleted_playlists?: LocalPlaylist[]; // Re-followed and restored locally on undo
+  renamed?: Array<{ id: string; old_name: string; new_name: string }>;
+  tags?: Array<{ id: string; old_tags: string; new_tags: string }>;
+  removed_tracks?: Array<{ playlist_id: string; uri: string; position: number }>;
+  // Swapped back on undo
+  replaced_tracks?: Array<{
+    playlist_id: string;
+    position: number;
+    original_uri: string;
+    replacement_uri: string;
+  }>;
+  liked_uris?: string[]; // Unliked on undo
+  unliked_uris?: string[]; // Liked again on undo
+}
+
 export interface UnlinkedTrack {
   id: number;
   playlist_id: string;
@@ -74,6 +209,36 @@ export interface UnlinkedTrack {
   detected_at: number;
 }
 
+// Unlinked track listed in the library-wide browser
+export interface LibraryUnlinkedTrack extends UnlinkedTrack {
+  playlist_name: string;
+}
+
+export interface CachedTrack {
+  uri: string;
+  spotify_id: string | null;
+  name: string | null;
+  artist_name: string | null; // Primary artist
+  artists: string; // JSON array of all artist names
+  album_name: string | null;
+  duration_ms: number;
+  isrc: string | null;
+  release_date: string | null;
+}
+
+export interface PlaylistTrack {
+  playlist_id: string;
+  position: number;
+  track_uri: string | null; // null when Spotify returned no track at all
+  added_at: string | null;
+  added_by: string | null;
+  is_unlinked: boolean;
+}
+
+// Playlist item joined with its cached track data
+export type PlaylistTrackItem = PlaylistTrack &
+  Omit<CachedTrack, 'uri'>;
+
 // UI state types
 export interface PlaylistTableRow extends LocalPlaylist {
   selected: boolean;
@@ -107,18 +272,32 @@ export interface MergeConfig {
 
 export interface RenameConfig {
   findPattern: string;
-  replacePattern: string;
+  replacePattern: string; // Supports $1 capture groups and {index}, {track_count}, {date} tokens
+}
+
+export interface RenamePlanItem {
+  spotify_id: string;
+  oldName: string;
+  newName: string;
+  skipReason?: 'not_owner' | 'read_only' | 'unchanged' | 'empty_name';
 }
 
 export interface SubtractConfig {
   fromPlaylistId: string;
-  subtractPlaylistId: string;
+  subtractPlaylistIds: string[];
   targetName: string;
 }
 
+export interface SubtractPreview {
+  sourceCount: number;
+  resultCount: number;
+  removedCount: number;
+}
+
 export interface IntersectConfig {
   playlistIds: string[];
   targetName: string;
+  minCount?: number; // "at least K of N" mode; defaults to all N playlists
 }
 
 export interface TagConfig {
@@ -134,6 +313,8 @@ export type IpcChannels =
   | 'db:init'
   | 'db:query'
   | 'spotify:get-playlists'
+  | 'spotify:get-scheduler-state'
+  | 'spotify:scheduler-state'
   | 'spotify:get-tracks'
   | 'spotify:create-playlist'
   | 'spotify:delete-playlist'
@@ -142,11 +323,41 @@ export type IpcChannels =
   | 'spotify:remove-tracks'
   | 'playlist:merge'
   | 'playlist:subtract'
+  | 'playlist:subtract-preview'
   | 'playlist:intersect'
   | 'playlist:rename-bulk'
   | 'playlist:update-tags'
   | 'playlist:sync'
-  | 'playlist:export-csv';
+  | 'playlist:export-csv'
+  | 'operation:progress'
+  | 'operation:cancel'
+  | 'jobs:list'
+  | 'jobs:pause'
+  | 'jobs:resume'
+  | 'jobs:retry'
+  | 'jobs:remove'
+  | 'jobs:updated'
+  | 'playlist:dry-run'
+  | 'playlist:overlap-report'
+  | 'playlist:like-tracks'
+  | 'playlist:unlike-tracks'
+  | 'playlist:remove-unlinked'
+  | 'unlinked:list'
+  | 'unlinked:export'
+  | 'playlist:check-market'
+  | 'market:get'
+  | 'settings:get'
+  | 'settings:update'
+  | 'settings:choose-database-path'
+  | 'smart:list'
+  | 'smart:save'
+  | 'smart:delete'
+  | 'smart:update'
+  | 'smart:preview'
+  | 'history:list'
+  | 'history:export'
+  | 'history:get-last-undoable'
+  | 'history:undo';
 
 // Settings types
 export interface AppSettings {
@@ -157,6 +368,170 @@ export interface AppSettings {
   showFollowers: boolean;
   compactMode: boolean;
   databasePath: string;
+  market: string | null; // ISO 3166-1 alpha-2 country code, null = the account's country
+}
+
+// Sync result types
+export interface SyncResult {
+  total: number; // Playlists in the user's library on Spotify
+  synced: number; // Playlists written locally (added + changed)
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+// Tracks of a playlist playable in the user's market but not in another one
+export interface MarketAvailabilityReport {
+  playlistId: string;
+  market: string; // Market the library is synced for
+  targetMarket: string;
+  total: number;
+  unavailable: PlannedTrack[]; // Playable in `market`, unlinked in `targetMarket`
+  unavailableInBoth: number; // Already unlinked in `market`
+}
+
+// Library-wide overlap report, computed from the track cache
+export interface OverlapReportOptions {
+  minPlaylistsPerTrack?: number; // Tracks listed when in at least this many playlists
+  minJaccard?: number; // Playlist pairs listed from this overlap (0-1)
+  minSubsetCoverage?: number; // Share of a playlist found in a bigger one (0-1)
+  minSubsetSize?: number; // Smaller playlists aren't reported as subsets
+  maxResults?: number; // Per section
+}
+
+export interface TrackOverlap {
+  uri: string;
+  name: string | null;
+  artist_name: string | null;
+  playlistIds: string[];
+}
+
+export interface PlaylistPairOverlap {
+  playlistA: string;
+  playlistB: string;
+  shared: number; // Distinct tracks in both
+  jaccard: number; // shared / tracks in either
+}
+
+export interface PlaylistSubset {
+  subsetId: string;
+  supersetId: string;
+  shared: number;
+  coverage: number; // shared / distinct tracks of the subset
+}
+
+export interface OverlapReport {
+  generatedAt: number;
+  scannedPlaylists: number; // Playlists with cached tracks
+  staleCachePlaylists: number; // Playlists whose cache is missing or outdated
+  tracks: TrackOverlap[];
+  similarPairs: PlaylistPairOverlap[];
+  nearSubsets: PlaylistSubset[];
+}
+
+// Long-running operation progress (streamed to the renderer)
+export type OperationStatus = 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface OperationProgress {
+  jobId: string;
+  operation: string; // e.g. 'merge', 'fix_broken_links', 'remove_duplicates', 'sync_details'
+  status: OperationStatus;
+  phase: string;
+  current: number;
+  total: number;
+  playlistName?: string;
+}
+
+// Persistent job queue
+export type JobType =
+  | 'merge'
+  | 'delete'
+  | 'remove_duplicates'
+  | 'fix_broken_links'
+  | 'remove_unlinked'
+  | 'like'
+  | 'unlike'
+  | 'sync'
+  | 'sync_details'
+  | 'smart_playlists';
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'failed' | 'done';
+
+export interface Job {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  params: string; // JSON object
+  checkpoint: string | null; // JSON object, used to resume
+  result: string | null; // JSON object
+  error: string | null;
+  attempts: number;
+  created_at: number;
+  updated_at: number;
+}
+
+// Smart playlists (rules materialized into owned Spotify playlists)
+export type SmartConditionField = 'artist' | 'added_at' | 'duration' | 'release_year' | 'playlist';
+
+export type SmartConditionOperator =
+  | 'is' // artist, release_year; playlist: track is in the playlist
+  | 'contains' // artist
+  | 'before' // added_at (YYYY-MM-DD), release_year
+  | 'after' // added_at (YYYY-MM-DD), release_year
+  | 'within_days' // added_at
+  | 'less_than' // duration (seconds)
+  | 'greater_than'; // duration (seconds)
+
+export interface SmartCondition {
+  field: SmartConditionField;
+  operator: SmartConditionOperator;
+  value: string; // Parsed per field: name, date, number or playlist ID
+}
+
+export type SmartSortField =
+  | 'source_order'
+  | 'added_at'
+  | 'release_date'
+  | 'name'
+  | 'artist'
+  | 'duration';
+
+export interface SmartPlaylistRules {
+  sourcePlaylistIds: string[];
+  sourceTags: string[]; // Playlists with any of these tags are sources too
+  include: SmartCondition[]; // A track must match all of them
+  exclude: SmartCondition[]; // A track matching any of them is left out
+  sortBy: SmartSortField;
+  sortDirection: 'asc' | 'desc';
+  limit: number | null;
+}
+
+export interface SmartPlaylist {
+  id: number;
+  name: string;
+  rules: string; // JSON SmartPlaylistRules
+  spotify_id: string | null; // Materialized playlist, null until the first update
+  last_updated: number | null;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface SmartPlaylistUpdateResult {
+  id: number;
+  spotifyId: string | null;
+  trackCount: number;
+  added: number;
+  removed: number;
+  moved: number;
+  error?: string;
+}
+
+// Spotify request scheduler state (for UI display)
+export interface RequestSchedulerState {
+  queueDepth: number; // Requests waiting to be sent
+  active: number; // Requests in flight
+  backoffUntil: number | null; // Unix timestamp (ms) while paused after a 429
 }
 
 // API response types
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+import { resolve } from 'path';
+
+// Separate from vite.config.ts so tests run without the Electron plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(__dirname, './src'),
+      '@main': resolve(__dirname, './src/main'),
+      '@renderer': resolve(__dirname, './src/renderer'),
+      '@shared': resolve(__dirname, './src/shared'),
+      '@cli': resolve(__dirname, './src/cli'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+});